@@ -0,0 +1,6 @@
+-- Migration: Add role column to Users table
+-- Admins can use the /api/admin/* maintenance routes
+
+ALTER TABLE Users ADD COLUMN role TEXT NOT NULL DEFAULT 'user' CHECK (role IN ('user', 'admin'));
+
+CREATE INDEX IF NOT EXISTS idx_user_role ON Users(role);
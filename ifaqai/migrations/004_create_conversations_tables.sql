@@ -0,0 +1,23 @@
+-- Migration: Create Conversations and Messages tables
+-- Stores chatbot conversation turns so follow-up questions keep their context
+
+CREATE TABLE IF NOT EXISTS Conversations (
+  conversation_id TEXT PRIMARY KEY,
+  user_id INTEGER NOT NULL,
+  created_at TEXT DEFAULT (datetime('now')) NOT NULL,
+  modified_at TEXT,
+  FOREIGN KEY (user_id) REFERENCES Users(user_id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS Messages (
+  message_id INTEGER PRIMARY KEY AUTOINCREMENT,
+  conversation_id TEXT NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('user', 'assistant')),
+  content TEXT NOT NULL,
+  created_at TEXT DEFAULT (datetime('now')) NOT NULL,
+  FOREIGN KEY (conversation_id) REFERENCES Conversations(conversation_id) ON DELETE CASCADE
+);
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_conversation_user_id ON Conversations(user_id);
+CREATE INDEX IF NOT EXISTS idx_message_conversation_id ON Messages(conversation_id, message_id);
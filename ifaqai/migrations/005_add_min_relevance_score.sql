@@ -0,0 +1,4 @@
+-- Migration: Add per-bot relevance threshold to Users table
+-- Vectorize matches scoring below this are not used as chatbot context (NULL = default)
+
+ALTER TABLE Users ADD COLUMN min_relevance_score REAL CHECK (min_relevance_score IS NULL OR (min_relevance_score >= 0 AND min_relevance_score <= 1));
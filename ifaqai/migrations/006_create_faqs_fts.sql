@@ -0,0 +1,26 @@
+-- Migration: Full-text index over FAQs for keyword retrieval
+-- External-content FTS5 table mirroring FAQs, kept in sync by triggers
+
+CREATE VIRTUAL TABLE IF NOT EXISTS FAQs_fts USING fts5(
+  question,
+  answer,
+  content='FAQs',
+  content_rowid='faq_id',
+  tokenize='porter unicode61'
+);
+
+CREATE TRIGGER IF NOT EXISTS faqs_fts_after_insert AFTER INSERT ON FAQs BEGIN
+  INSERT INTO FAQs_fts(rowid, question, answer) VALUES (new.faq_id, new.question, new.answer);
+END;
+
+CREATE TRIGGER IF NOT EXISTS faqs_fts_after_delete AFTER DELETE ON FAQs BEGIN
+  INSERT INTO FAQs_fts(FAQs_fts, rowid, question, answer) VALUES ('delete', old.faq_id, old.question, old.answer);
+END;
+
+CREATE TRIGGER IF NOT EXISTS faqs_fts_after_update AFTER UPDATE OF question, answer ON FAQs BEGIN
+  INSERT INTO FAQs_fts(FAQs_fts, rowid, question, answer) VALUES ('delete', old.faq_id, old.question, old.answer);
+  INSERT INTO FAQs_fts(rowid, question, answer) VALUES (new.faq_id, new.question, new.answer);
+END;
+
+-- Index FAQs created before this migration
+INSERT INTO FAQs_fts(FAQs_fts) VALUES ('rebuild');
@@ -0,0 +1,4 @@
+-- Migration: Add per-bot reranking toggle to Users table
+-- When enabled, retrieved FAQs are rescored with a cross-encoder before building chatbot context
+
+ALTER TABLE Users ADD COLUMN rerank_enabled INTEGER NOT NULL DEFAULT 0 CHECK (rerank_enabled IN (0, 1));
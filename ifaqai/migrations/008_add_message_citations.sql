@@ -0,0 +1,4 @@
+-- Migration: Store answer citations with assistant messages
+-- JSON array of { marker, faqId, question, score } so resumed conversations keep their sources
+
+ALTER TABLE Messages ADD COLUMN citations TEXT;
@@ -0,0 +1,14 @@
+-- Migration: Create BotSettings table
+-- Per-bot persona configuration templated into the chatbot system prompt
+
+CREATE TABLE IF NOT EXISTS BotSettings (
+  user_id INTEGER PRIMARY KEY,
+  tone TEXT NOT NULL DEFAULT 'professional' CHECK (tone IN ('professional', 'friendly', 'casual', 'formal')),
+  persona_instructions TEXT,
+  greeting_message TEXT,
+  fallback_message TEXT,
+  max_answer_words INTEGER CHECK (max_answer_words IS NULL OR (max_answer_words BETWEEN 20 AND 500)),
+  created_at TEXT DEFAULT (datetime('now')) NOT NULL,
+  modified_at TEXT,
+  FOREIGN KEY (user_id) REFERENCES Users(user_id) ON DELETE CASCADE
+);
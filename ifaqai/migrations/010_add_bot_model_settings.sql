@@ -0,0 +1,11 @@
+-- Migration: Add per-bot model settings
+-- chat_model / embedding_model hold Workers AI model ids (NULL = registry default).
+-- pending_embedding_model is set while a reindex into a new embedding model runs;
+-- embedding_model only switches once every FAQ has been re-embedded
+
+ALTER TABLE BotSettings ADD COLUMN chat_model TEXT;
+ALTER TABLE BotSettings ADD COLUMN temperature REAL CHECK (temperature IS NULL OR (temperature >= 0 AND temperature <= 2));
+ALTER TABLE BotSettings ADD COLUMN max_tokens INTEGER CHECK (max_tokens IS NULL OR (max_tokens BETWEEN 16 AND 2048));
+ALTER TABLE BotSettings ADD COLUMN embedding_model TEXT;
+ALTER TABLE BotSettings ADD COLUMN pending_embedding_model TEXT;
+ALTER TABLE BotSettings ADD COLUMN reindex_workflow_id TEXT;
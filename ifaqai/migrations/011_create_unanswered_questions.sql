@@ -0,0 +1,31 @@
+-- Migration: Create unanswered question tables
+-- Questions the chatbot could not answer from the knowledge base, grouped into
+-- clusters of near-duplicates that owners can turn into new FAQs
+
+CREATE TABLE IF NOT EXISTS QuestionClusters (
+  cluster_id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id INTEGER NOT NULL,
+  representative_question TEXT NOT NULL,
+  centroid TEXT NOT NULL, -- JSON array: mean embedding of the cluster's questions
+  question_count INTEGER NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'converted', 'dismissed')),
+  faq_workflow_id TEXT, -- FAQWorkflow instance started when the cluster was turned into an FAQ
+  created_at TEXT DEFAULT (datetime('now')) NOT NULL,
+  last_asked_at TEXT DEFAULT (datetime('now')) NOT NULL,
+  FOREIGN KEY (user_id) REFERENCES Users(user_id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_question_clusters_user_status ON QuestionClusters(user_id, status, last_asked_at);
+
+CREATE TABLE IF NOT EXISTS UnansweredQuestions (
+  question_id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id INTEGER NOT NULL,
+  cluster_id INTEGER NOT NULL,
+  question TEXT NOT NULL,
+  reason TEXT NOT NULL CHECK (reason IN ('no_match', 'low_confidence')),
+  created_at TEXT DEFAULT (datetime('now')) NOT NULL,
+  FOREIGN KEY (user_id) REFERENCES Users(user_id) ON DELETE CASCADE,
+  FOREIGN KEY (cluster_id) REFERENCES QuestionClusters(cluster_id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_unanswered_questions_cluster ON UnansweredQuestions(cluster_id, created_at);
@@ -0,0 +1,28 @@
+-- Migration: Create visitor feedback tables
+-- Thumbs up/down (and an optional comment) on assistant messages, attributed to
+-- the FAQs the answer relied on so owners can see which FAQs need improving
+
+-- JSON array of the FAQ ids an assistant message used as context
+ALTER TABLE Messages ADD COLUMN faq_ids TEXT;
+
+CREATE TABLE IF NOT EXISTS MessageFeedback (
+  message_id INTEGER PRIMARY KEY,
+  conversation_id TEXT NOT NULL,
+  rating INTEGER NOT NULL CHECK (rating IN (-1, 1)),
+  comment TEXT,
+  created_at TEXT DEFAULT (datetime('now')) NOT NULL,
+  modified_at TEXT,
+  FOREIGN KEY (message_id) REFERENCES Messages(message_id) ON DELETE CASCADE,
+  FOREIGN KEY (conversation_id) REFERENCES Conversations(conversation_id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS FaqFeedback (
+  message_id INTEGER NOT NULL,
+  faq_id INTEGER NOT NULL,
+  rating INTEGER NOT NULL CHECK (rating IN (-1, 1)),
+  PRIMARY KEY (message_id, faq_id),
+  FOREIGN KEY (message_id) REFERENCES MessageFeedback(message_id) ON DELETE CASCADE,
+  FOREIGN KEY (faq_id) REFERENCES FAQs(faq_id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_faq_feedback_faq_id ON FaqFeedback(faq_id);
@@ -0,0 +1,19 @@
+-- Migration: Create query events table
+-- One row per chatbot answer, aggregated into the owner's analytics dashboard
+
+CREATE TABLE IF NOT EXISTS QueryEvents (
+  event_id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id INTEGER NOT NULL, -- Chatbot owner
+  conversation_id TEXT, -- NULL for stateless /api/chatbot queries
+  message_id INTEGER, -- Assistant message, used to join visitor feedback
+  latency_ms INTEGER NOT NULL,
+  context_used INTEGER NOT NULL DEFAULT 0,
+  unanswered_reason TEXT CHECK (unanswered_reason IN ('no_match', 'low_confidence')), -- NULL when answered from the FAQs
+  faq_ids TEXT, -- JSON array of the FAQ ids used as context
+  cited_faq_ids TEXT, -- JSON array of the FAQ ids the answer cited
+  created_at TEXT DEFAULT (datetime('now')) NOT NULL,
+  FOREIGN KEY (user_id) REFERENCES Users(user_id) ON DELETE CASCADE,
+  FOREIGN KEY (message_id) REFERENCES Messages(message_id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_query_events_user_created ON QueryEvents(user_id, created_at);
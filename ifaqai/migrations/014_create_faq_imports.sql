@@ -0,0 +1,17 @@
+-- Migration: Create FAQ imports table
+-- Progress of bulk FAQ imports, updated by the FaqImportWorkflow after each batch
+
+CREATE TABLE IF NOT EXISTS FaqImports (
+  import_id TEXT PRIMARY KEY, -- FaqImportWorkflow instance id
+  user_id INTEGER NOT NULL,
+  format TEXT NOT NULL CHECK (format IN ('csv', 'json', 'markdown')),
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+  total INTEGER NOT NULL,
+  processed INTEGER NOT NULL DEFAULT 0,
+  error TEXT,
+  created_at TEXT DEFAULT (datetime('now')) NOT NULL,
+  modified_at TEXT,
+  FOREIGN KEY (user_id) REFERENCES Users(user_id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_faq_imports_user ON FaqImports(user_id, created_at);
@@ -0,0 +1,17 @@
+-- Migration: Create ingestion jobs table
+-- Progress of IngestionWorkflow runs that (re)embed FAQs in batches,
+-- started from the admin retrain routes
+
+CREATE TABLE IF NOT EXISTS IngestionJobs (
+  job_id TEXT PRIMARY KEY, -- IngestionWorkflow instance id
+  user_id INTEGER, -- Owner whose FAQs are embedded; NULL for all owners
+  requested_by INTEGER NOT NULL,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+  total INTEGER NOT NULL,
+  processed INTEGER NOT NULL DEFAULT 0,
+  error TEXT,
+  created_at TEXT DEFAULT (datetime('now')) NOT NULL,
+  modified_at TEXT,
+  FOREIGN KEY (user_id) REFERENCES Users(user_id) ON DELETE CASCADE,
+  FOREIGN KEY (requested_by) REFERENCES Users(user_id) ON DELETE CASCADE
+);
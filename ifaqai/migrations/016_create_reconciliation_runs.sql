@@ -0,0 +1,23 @@
+-- Migration: Create reconciliation runs table
+-- Reports of ReconcileWorkflow runs that compare FAQs in D1 with their vectors
+-- in Vectorize, started by the cron trigger or from the admin routes
+
+CREATE TABLE IF NOT EXISTS ReconciliationRuns (
+  run_id TEXT PRIMARY KEY, -- ReconcileWorkflow instance id
+  trigger TEXT NOT NULL CHECK (trigger IN ('cron', 'admin')),
+  requested_by INTEGER, -- Admin who started the run; NULL for cron runs
+  dry_run INTEGER NOT NULL DEFAULT 0, -- 1 = report only, nothing is repaired
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+  checked INTEGER NOT NULL DEFAULT 0, -- FAQ ids checked so far
+  missing INTEGER NOT NULL DEFAULT 0, -- FAQs without a vector
+  orphaned INTEGER NOT NULL DEFAULT 0, -- Vectors without an FAQ (or for a model the bot does not use)
+  stale INTEGER NOT NULL DEFAULT 0, -- Vectors whose metadata no longer matches D1
+  repaired INTEGER NOT NULL DEFAULT 0,
+  issues TEXT, -- JSON array of the first issues found
+  error TEXT,
+  created_at TEXT DEFAULT (datetime('now')) NOT NULL,
+  modified_at TEXT,
+  FOREIGN KEY (requested_by) REFERENCES Users(user_id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_reconciliation_runs_created_at ON ReconciliationRuns(created_at);
@@ -0,0 +1,5 @@
+-- Migration: Add the chat widget's allowed origins to bot settings
+-- allowed_origins is a JSON array of origins (scheme://host[:port]) whose pages
+-- may embed widget.js and call the chatbot API (CORS); NULL = none
+
+ALTER TABLE BotSettings ADD COLUMN allowed_origins TEXT;
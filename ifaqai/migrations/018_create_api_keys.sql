@@ -0,0 +1,19 @@
+-- Migration: Create API keys table
+-- Per-owner keys for calling the API from the owner's own backend with
+-- Authorization: Bearer. Only a SHA-256 hash of each key is stored; the key
+-- itself is shown once, when it is created.
+
+CREATE TABLE IF NOT EXISTS ApiKeys (
+  key_id TEXT PRIMARY KEY,
+  user_id INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  key_prefix TEXT NOT NULL, -- First characters of the key, shown in the dashboard to tell keys apart
+  key_hash TEXT NOT NULL UNIQUE, -- Hex SHA-256 of the full key
+  scopes TEXT NOT NULL, -- JSON array, e.g. ["chat:query", "faqs:write"]
+  last_used_at TEXT,
+  revoked_at TEXT, -- Revoked keys are kept so the dashboard can still show them
+  created_at TEXT DEFAULT (datetime('now')) NOT NULL,
+  FOREIGN KEY (user_id) REFERENCES Users(user_id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_user_id ON ApiKeys(user_id);
@@ -0,0 +1,23 @@
+-- Migration: Create rate limit tables
+-- Fixed-window request counters for the chatbot routes (per visitor IP, per
+-- bot per minute and per bot per day) and per-owner daily quota overrides
+
+CREATE TABLE IF NOT EXISTS RateLimitCounters (
+  counter_key TEXT NOT NULL, -- e.g. ip:203.0.113.7, bot:12, bot-day:12
+  window_start INTEGER NOT NULL, -- Unix seconds, aligned to the window length
+  count INTEGER NOT NULL DEFAULT 0,
+  expires_at INTEGER NOT NULL, -- Unix seconds when the window ends; expired rows are pruned by the cron trigger
+  PRIMARY KEY (counter_key, window_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_counters_expires_at ON RateLimitCounters(expires_at);
+
+-- Owners without a row get the default quota (CHAT_DAILY_QUOTA)
+CREATE TABLE IF NOT EXISTS ChatQuotas (
+  user_id INTEGER PRIMARY KEY,
+  daily_limit INTEGER NOT NULL CHECK (daily_limit >= 0), -- Answered questions per UTC day; 0 disables the bot
+  modified_by INTEGER, -- Admin who set the quota
+  modified_at TEXT NOT NULL,
+  FOREIGN KEY (user_id) REFERENCES Users(user_id) ON DELETE CASCADE,
+  FOREIGN KEY (modified_by) REFERENCES Users(user_id) ON DELETE SET NULL
+);
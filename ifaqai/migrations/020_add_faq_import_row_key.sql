@@ -0,0 +1,7 @@
+-- Migration: Add the import row key to FAQs
+-- FaqImportWorkflow sets import_row_key to "<import_id>:<row index>" so a retried
+-- insert step skips the rows a previous attempt already inserted; NULL for other FAQs
+
+ALTER TABLE FAQs ADD COLUMN import_row_key TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_faq_import_row_key ON FAQs(import_row_key) WHERE import_row_key IS NOT NULL;
@@ -0,0 +1,23 @@
+/**
+ * Analytics service for client-side operations
+ * Fetches aggregated chatbot usage for the owner's dashboard
+ */
+
+import type { BotAnalytics } from '../types';
+
+/**
+ * Fetch the authenticated user's chatbot analytics
+ * @param from First day of the range (YYYY-MM-DD, UTC)
+ * @param to Last day of the range (YYYY-MM-DD, UTC)
+ */
+export async function fetchAnalytics(from: string, to: string): Promise<BotAnalytics> {
+  const params = new URLSearchParams({ from, to });
+  const response = await fetch(`/api/analytics?${params}`);
+
+  if (!response.ok) {
+    const errorBody = (await response.json().catch(() => ({ error: response.statusText }))) as { error?: string };
+    throw new Error(errorBody.error || 'Failed to fetch analytics');
+  }
+
+  return response.json() as Promise<BotAnalytics>;
+}
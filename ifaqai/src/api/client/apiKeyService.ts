@@ -0,0 +1,57 @@
+/**
+ * API key service for client-side operations
+ * Lists, creates and revokes the authenticated user's API keys
+ */
+
+import type { ApiKey, ApiKeyScope, CreatedApiKey } from '../types';
+
+/**
+ * Fetch the authenticated user's API keys (revoked keys included)
+ */
+export async function fetchApiKeys(): Promise<ApiKey[]> {
+  const response = await fetch('/api/users/me/api-keys');
+
+  if (!response.ok) {
+    const errorBody = (await response.json().catch(() => ({ error: response.statusText }))) as { error?: string };
+    throw new Error(errorBody.error || 'Failed to fetch API keys');
+  }
+
+  return response.json() as Promise<ApiKey[]>;
+}
+
+/**
+ * Create an API key
+ * @returns The key with its full value, which is only returned this once
+ */
+export async function createApiKey(name: string, scopes: ApiKeyScope[]): Promise<CreatedApiKey> {
+  const response = await fetch('/api/users/me/api-keys', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ name, scopes }),
+  });
+
+  if (!response.ok) {
+    const errorBody = (await response.json().catch(() => ({ error: response.statusText }))) as { error?: string };
+    throw new Error(errorBody.error || 'Failed to create API key');
+  }
+
+  return response.json() as Promise<CreatedApiKey>;
+}
+
+/**
+ * Revoke an API key
+ */
+export async function revokeApiKey(keyId: string): Promise<ApiKey> {
+  const response = await fetch(`/api/users/me/api-keys/${encodeURIComponent(keyId)}`, {
+    method: 'DELETE',
+  });
+
+  if (!response.ok) {
+    const errorBody = (await response.json().catch(() => ({ error: response.statusText }))) as { error?: string };
+    throw new Error(errorBody.error || 'Failed to revoke API key');
+  }
+
+  return response.json() as Promise<ApiKey>;
+}
@@ -0,0 +1,72 @@
+/**
+ * Bot settings service for client-side operations
+ * Reads and saves the persona and model configuration of the authenticated user's chatbot
+ */
+
+import type { BotSettings, ModelCatalog, PublicBotSettings } from '../types';
+
+/**
+ * Fetch the authenticated user's bot settings
+ */
+export async function fetchBotSettings(): Promise<BotSettings> {
+  const response = await fetch('/api/users/me/bot-settings');
+
+  if (!response.ok) {
+    const errorBody = (await response.json().catch(() => ({ error: response.statusText }))) as { error?: string };
+    throw new Error(errorBody.error || 'Failed to fetch bot settings');
+  }
+
+  return response.json() as Promise<BotSettings>;
+}
+
+/**
+ * Save the authenticated user's bot settings
+ */
+export async function updateBotSettings(settings: BotSettings): Promise<BotSettings> {
+  const response = await fetch('/api/users/me/bot-settings', {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(settings),
+  });
+
+  if (!response.ok) {
+    const errorBody = (await response.json().catch(() => ({ error: response.statusText }))) as { error?: string };
+    throw new Error(errorBody.error || 'Failed to update bot settings');
+  }
+
+  return response.json() as Promise<BotSettings>;
+}
+
+/**
+ * Fetch the public settings of a chatbot (e.g. its greeting)
+ * @returns Settings or null if the chatbot does not exist
+ */
+export async function fetchPublicBotSettings(username: string): Promise<PublicBotSettings | null> {
+  const response = await fetch(`/api/users/${encodeURIComponent(username)}/bot-settings`);
+
+  if (!response.ok) {
+    if (response.status === 404) {
+      return null;
+    }
+    const errorBody = (await response.json().catch(() => ({ error: response.statusText }))) as { error?: string };
+    throw new Error(errorBody.error || 'Failed to fetch bot settings');
+  }
+
+  return response.json() as Promise<PublicBotSettings>;
+}
+
+/**
+ * Fetch the chat and embedding models a bot can use
+ */
+export async function fetchModelCatalog(): Promise<ModelCatalog> {
+  const response = await fetch('/api/models');
+
+  if (!response.ok) {
+    const errorBody = (await response.json().catch(() => ({ error: response.statusText }))) as { error?: string };
+    throw new Error(errorBody.error || 'Failed to fetch models');
+  }
+
+  return response.json() as Promise<ModelCatalog>;
+}
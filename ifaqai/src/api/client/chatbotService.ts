@@ -0,0 +1,228 @@
+/**
+ * Chatbot service for client-side operations
+ * Talks to the conversation API
+ */
+
+import type {
+  ChatbotStreamEvent,
+  Conversation,
+  ConversationReply,
+  FeedbackRating,
+  MessageFeedback,
+  RateLimitReason,
+} from '../types';
+
+/**
+ * Thrown when the chatbot rejects a question with 429 (rate limit or daily quota)
+ */
+export class ChatbotRateLimitError extends Error {
+  readonly reason: RateLimitReason;
+  /** Seconds until the chatbot accepts questions again */
+  readonly retryAfter: number;
+
+  constructor(message: string, reason: RateLimitReason, retryAfter: number) {
+    super(message);
+    this.name = 'ChatbotRateLimitError';
+    this.reason = reason;
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * Body of a chatbot API error response
+ */
+interface ChatbotErrorBody {
+  error?: string;
+  details?: string;
+  reason?: RateLimitReason;
+  retryAfter?: number;
+}
+
+/**
+ * Error for a failed chatbot question, a ChatbotRateLimitError for 429 responses
+ */
+async function toChatbotError(response: Response): Promise<Error> {
+  const errorBody = (await response.json().catch(() => ({ error: response.statusText }))) as ChatbotErrorBody;
+
+  if (response.status === 429) {
+    const retryAfter = Number(response.headers.get('Retry-After') ?? errorBody.retryAfter) || 60;
+    return new ChatbotRateLimitError(errorBody.details || errorBody.error || 'Too many requests', errorBody.reason ?? 'ip_rate_limit', retryAfter);
+  }
+
+  return new Error(errorBody.error || `API error: ${response.statusText}`);
+}
+
+/**
+ * Start a new conversation with a user's chatbot
+ */
+export async function createConversation(username: string): Promise<Conversation> {
+  const response = await fetch('/api/chatbot/conversations', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ username }),
+  });
+
+  if (!response.ok) {
+    const errorBody = (await response.json().catch(() => ({ error: response.statusText }))) as ChatbotErrorBody;
+    throw new Error(errorBody.error || 'Failed to create conversation');
+  }
+
+  return response.json() as Promise<Conversation>;
+}
+
+/**
+ * Fetch a conversation with its recent messages
+ * @returns Conversation or null if it no longer exists
+ */
+export async function fetchConversation(conversationId: string): Promise<Conversation | null> {
+  const response = await fetch(`/api/chatbot/conversations/${encodeURIComponent(conversationId)}`);
+
+  if (!response.ok) {
+    if (response.status === 404) {
+      return null;
+    }
+    const errorBody = (await response.json().catch(() => ({ error: response.statusText }))) as ChatbotErrorBody;
+    throw new Error(errorBody.error || 'Failed to fetch conversation');
+  }
+
+  return response.json() as Promise<Conversation>;
+}
+
+/**
+ * Send a question to a conversation and get the chatbot's answer
+ */
+export async function sendConversationMessage(
+  conversationId: string,
+  text: string,
+  debug = false
+): Promise<ConversationReply> {
+  const debugParam = debug ? '?debug=true' : '';
+  const response = await fetch(`/api/chatbot/conversations/${encodeURIComponent(conversationId)}/messages${debugParam}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ text }),
+  });
+
+  if (!response.ok) {
+    throw await toChatbotError(response);
+  }
+
+  return response.json() as Promise<ConversationReply>;
+}
+
+/**
+ * Read a chatbot Server-Sent Events stream, passing each event to onEvent as it arrives
+ * Rejects with whatever onEvent throws
+ */
+export async function readChatbotEventStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: ChatbotStreamEvent) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+
+    buffer += decoder.decode(value, { stream: true });
+
+    // SSE events are separated by a blank line
+    const events = buffer.split('\n\n');
+    buffer = events.pop() || '';
+
+    for (const rawEvent of events) {
+      let eventName = 'message';
+      const dataLines: string[] = [];
+
+      for (const line of rawEvent.split('\n')) {
+        if (line.startsWith('event:')) {
+          eventName = line.slice('event:'.length).trim();
+        } else if (line.startsWith('data:')) {
+          dataLines.push(line.slice('data:'.length).trim());
+        }
+      }
+
+      if (dataLines.length === 0) {
+        continue;
+      }
+
+      let data: unknown;
+      try {
+        data = JSON.parse(dataLines.join('\n'));
+      } catch (error) {
+        console.warn('Skipping unparsable chatbot stream event:', rawEvent, error);
+        continue;
+      }
+
+      // Outside the try so a handler can fail the stream (e.g. on an error event)
+      onEvent({ event: eventName, data } as ChatbotStreamEvent);
+    }
+  }
+}
+
+/**
+ * Send a question to a conversation and stream the answer (Server-Sent Events)
+ * Events are passed to onEvent as they arrive; abort the signal to cancel generation.
+ */
+export async function streamConversationMessage(
+  conversationId: string,
+  text: string,
+  options: {
+    debug?: boolean;
+    signal?: AbortSignal;
+    onEvent: (event: ChatbotStreamEvent) => void;
+  }
+): Promise<void> {
+  const debugParam = options.debug ? '?debug=true' : '';
+  const response = await fetch(`/api/chatbot/conversations/${encodeURIComponent(conversationId)}/messages/stream${debugParam}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: 'text/event-stream',
+    },
+    body: JSON.stringify({ text }),
+    signal: options.signal,
+  });
+
+  if (!response.ok || !response.body) {
+    throw await toChatbotError(response);
+  }
+
+  await readChatbotEventStream(response.body, options.onEvent);
+}
+
+/**
+ * Rate a bot answer in a conversation (replaces any earlier rating of that answer)
+ */
+export async function submitMessageFeedback(
+  conversationId: string,
+  messageId: string,
+  rating: FeedbackRating,
+  comment?: string
+): Promise<MessageFeedback> {
+  const response = await fetch(
+    `/api/chatbot/conversations/${encodeURIComponent(conversationId)}/messages/${encodeURIComponent(messageId)}/feedback`,
+    {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ rating, comment }),
+    }
+  );
+
+  if (!response.ok) {
+    const errorBody = (await response.json().catch(() => ({ error: response.statusText }))) as ChatbotErrorBody;
+    throw new Error(errorBody.error || 'Failed to save feedback');
+  }
+
+  return response.json() as Promise<MessageFeedback>;
+}
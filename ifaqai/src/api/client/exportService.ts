@@ -0,0 +1,32 @@
+/**
+ * Export service for client-side operations
+ * Downloads the authenticated user's knowledge base
+ */
+
+export type ExportKind = 'json' | 'faqs-csv' | 'conversations-csv';
+
+const EXPORT_PATHS: Record<ExportKind, string> = {
+  json: '/api/export',
+  'faqs-csv': '/api/export/faqs.csv',
+  'conversations-csv': '/api/export/conversations.csv',
+};
+
+/**
+ * Fetch an export
+ * @returns The file contents and the name the server suggests for it
+ */
+export async function fetchExport(kind: ExportKind): Promise<{ blob: Blob; fileName: string }> {
+  const response = await fetch(EXPORT_PATHS[kind]);
+
+  if (!response.ok) {
+    const errorBody = (await response.json().catch(() => ({ error: response.statusText }))) as { error?: string };
+    throw new Error(errorBody.error || 'Failed to export');
+  }
+
+  const fileName =
+    response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] ||
+    EXPORT_PATHS[kind].split('/').pop() ||
+    'export';
+
+  return { blob: await response.blob(), fileName };
+}
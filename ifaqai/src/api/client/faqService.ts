@@ -1,12 +1,12 @@
-import type { FAQ } from '../types';
+import type { FAQ, FaqFeedbackSummary, FaqImportFormat, FaqImportPreview, FaqImportStatus } from '../types';
 
 /**
- * Fetch all FAQs for a user from the database
+ * Fetch all FAQs for the authenticated user from the database
  */
-export async function fetchFAQsFromDatabase(userId: string | number): Promise<FAQ[]> {
+export async function fetchFAQsFromDatabase(): Promise<FAQ[]> {
   // FAQs are included when fetching user data
   // We'll get them from the user endpoint
-  const response = await fetch(`/api/users/me?email=${encodeURIComponent('')}&userId=${userId}`);
+  const response = await fetch('/api/users/me');
   
   if (!response.ok) {
     if (response.status === 404) {
@@ -45,9 +45,9 @@ export interface CreateFAQResponse {
 /**
  * Create a FAQ entry via the workflow-enabled API.
  * This triggers D1 insert + Vectorize upsert in the worker.
+ * The owner is the authenticated user.
  */
 export async function createFAQEntry(
-  userId: string | number,
   question: string,
   answer: string
 ): Promise<CreateFAQResponse> {
@@ -56,7 +56,7 @@ export async function createFAQEntry(
     headers: {
       'Content-Type': 'application/json',
     },
-    body: JSON.stringify({ userId, question, answer }),
+    body: JSON.stringify({ question, answer }),
   });
 
   if (!response.ok) {
@@ -81,7 +81,6 @@ export async function getFAQWorkflowStatus(workflowId: string): Promise<any> {
 
 export async function updateFAQEntry(
   faqId: string,
-  userId: string | number,
   question: string,
   answer: string
 ): Promise<FAQ> {
@@ -90,7 +89,7 @@ export async function updateFAQEntry(
     headers: {
       'Content-Type': 'application/json',
     },
-    body: JSON.stringify({ userId, question, answer }),
+    body: JSON.stringify({ question, answer }),
   });
 
   if (!response.ok) {
@@ -101,21 +100,95 @@ export async function updateFAQEntry(
   return response.json() as Promise<FAQ>;
 }
 
-export async function deleteFAQEntry(
-  faqId: string,
-  userId: string | number
-): Promise<void> {
+export async function deleteFAQEntry(faqId: string): Promise<void> {
   const response = await fetch(`/api/faqs/${faqId}`, {
     method: 'DELETE',
+  });
+
+  if (!response.ok) {
+    const errorBody = await response.json().catch(() => ({ error: response.statusText }));
+    throw new Error(errorBody.error || 'Failed to delete FAQ');
+  }
+}
+
+
+/**
+ * Fetch visitor feedback per FAQ for the authenticated user
+ */
+export async function fetchFAQFeedback(): Promise<FaqFeedbackSummary[]> {
+  const response = await fetch('/api/faqs/feedback');
+
+  if (!response.ok) {
+    const errorBody = (await response.json().catch(() => ({ error: response.statusText }))) as { error?: string };
+    throw new Error(errorBody.error || 'Failed to fetch FAQ feedback');
+  }
+
+  return response.json() as Promise<FaqFeedbackSummary[]>;
+}
+
+export interface StartFAQImportResponse {
+  message: string;
+  importId: string;
+  total: number;
+  skipped: number;
+  status: string;
+}
+
+/**
+ * Parse an import file on the server and return its preview (nothing is imported)
+ */
+export async function previewFAQImport(format: FaqImportFormat, content: string): Promise<FaqImportPreview> {
+  const response = await fetch('/api/faqs/import/preview', {
+    method: 'POST',
     headers: {
       'Content-Type': 'application/json',
     },
-    body: JSON.stringify({ userId }),
+    body: JSON.stringify({ format, content }),
   });
 
   if (!response.ok) {
-    const errorBody = await response.json().catch(() => ({ error: response.statusText }));
-    throw new Error(errorBody.error || 'Failed to delete FAQ');
+    const errorBody = (await response.json().catch(() => ({ error: response.statusText }))) as { error?: string };
+    throw new Error(errorBody.error || 'Failed to preview import');
+  }
+
+  return response.json() as Promise<FaqImportPreview>;
+}
+
+/**
+ * Start importing a file (runs the FAQ import workflow)
+ * Duplicates found in the preview are skipped unless skipDuplicates is false
+ */
+export async function startFAQImport(
+  format: FaqImportFormat,
+  content: string,
+  skipDuplicates = true
+): Promise<StartFAQImportResponse> {
+  const response = await fetch('/api/faqs/import', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ format, content, skipDuplicates }),
+  });
+
+  if (!response.ok) {
+    const errorBody = (await response.json().catch(() => ({ error: response.statusText }))) as { error?: string };
+    throw new Error(errorBody.error || 'Failed to start import');
   }
+
+  return response.json() as Promise<StartFAQImportResponse>;
 }
 
+/**
+ * Fetch the progress of an import
+ */
+export async function getFAQImportStatus(importId: string): Promise<FaqImportStatus> {
+  const response = await fetch(`/api/faqs/import/${encodeURIComponent(importId)}`);
+
+  if (!response.ok) {
+    const errorBody = (await response.json().catch(() => ({ error: response.statusText }))) as { error?: string };
+    throw new Error(errorBody.error || 'Failed to fetch import status');
+  }
+
+  return response.json() as Promise<FaqImportStatus>;
+}
@@ -6,5 +6,11 @@
 export * from './authService';
 export * from './userService';
 export * from './faqService';
+export * from './chatbotService';
 
 
+export * from './botSettingsService';
+export * from './unansweredService';
+export * from './analyticsService';
+export * from './exportService';
+export * from './apiKeyService';
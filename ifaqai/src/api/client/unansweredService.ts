@@ -0,0 +1,60 @@
+/**
+ * Unanswered question service for client-side operations
+ * Lists the questions the chatbot could not answer and turns them into FAQs
+ */
+
+import type { UnansweredQuestionCluster } from '../types';
+import type { CreateFAQResponse } from './faqService';
+
+/**
+ * Fetch the authenticated user's open unanswered question clusters
+ */
+export async function fetchUnansweredQuestions(): Promise<UnansweredQuestionCluster[]> {
+  const response = await fetch('/api/unanswered-questions');
+
+  if (!response.ok) {
+    const errorBody = (await response.json().catch(() => ({ error: response.statusText }))) as { error?: string };
+    throw new Error(errorBody.error || 'Failed to fetch unanswered questions');
+  }
+
+  return response.json() as Promise<UnansweredQuestionCluster[]>;
+}
+
+/**
+ * Start FAQ creation for a cluster (runs the FAQ workflow)
+ * @param question Optional edited question; defaults to the cluster's representative question
+ */
+export async function createFAQFromCluster(
+  clusterId: string,
+  answer: string,
+  question?: string
+): Promise<CreateFAQResponse> {
+  const response = await fetch(`/api/unanswered-questions/${encodeURIComponent(clusterId)}/faq`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ question, answer }),
+  });
+
+  if (!response.ok) {
+    const errorBody = (await response.json().catch(() => ({ error: response.statusText }))) as { error?: string };
+    throw new Error(errorBody.error || 'Failed to create FAQ');
+  }
+
+  return response.json() as Promise<CreateFAQResponse>;
+}
+
+/**
+ * Dismiss a cluster without creating an FAQ
+ */
+export async function dismissUnansweredCluster(clusterId: string): Promise<void> {
+  const response = await fetch(`/api/unanswered-questions/${encodeURIComponent(clusterId)}/dismiss`, {
+    method: 'POST',
+  });
+
+  if (!response.ok) {
+    const errorBody = (await response.json().catch(() => ({ error: response.statusText }))) as { error?: string };
+    throw new Error(errorBody.error || 'Failed to dismiss unanswered question');
+  }
+}
@@ -32,13 +32,14 @@ export function getUserByEmail(email: string): User | null {
 }
 
 /**
- * Fetch current user from D1 database by email
- * @param email - User email address
+ * Fetch current user from D1 database
+ * The server resolves the user from the ZeroTrust identity
+ * @param email - User email address (used for the localStorage fallback)
  * @returns User object or null if not found
  */
 export async function fetchUserFromDatabase(email: string): Promise<User | null> {
   try {
-    const response = await fetch(`/api/users/me?email=${encodeURIComponent(email)}`);
+    const response = await fetch('/api/users/me');
     if (!response.ok) {
       if (response.status === 404) {
         return null;
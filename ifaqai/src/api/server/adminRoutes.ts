@@ -0,0 +1,364 @@
+/**
+ * Admin/Utility routes for maintaining the Vectorize index and chatbot quotas
+ * Mounted under /api/admin and restricted to users with the admin role
+ */
+
+import { Hono, type Context } from 'hono';
+import { requireAdmin, requireUser, type AuthEnv } from './authMiddleware';
+import { deleteFaqVectors, VECTOR_DELETE_BATCH_SIZE } from './indexingService';
+import { startReconciliation } from './reconciler';
+import { getDailyQuota, getQuestionsToday } from './rateLimiter';
+import type { ChatQuota, IngestionJobStatus, ReconciliationIssue, ReconciliationRun } from '../types';
+
+/**
+ * Start an IngestionWorkflow that re-embeds the FAQs of one owner (or of every owner)
+ * @returns The job id, which is also the workflow instance id
+ */
+async function startIngestionJob(c: Context<AuthEnv>, userId: string | undefined, total: number): Promise<string> {
+	const jobId = crypto.randomUUID();
+
+	// Record the job first so progress can be polled as soon as the workflow runs
+	await c.env.DB.prepare('INSERT INTO IngestionJobs (job_id, user_id, requested_by, total, created_at) VALUES (?, ?, ?, ?, ?)')
+		.bind(jobId, userId ?? null, c.get('authUser').userId, total, new Date().toISOString())
+		.run();
+
+	try {
+		await c.env.INGESTION_WORKFLOW.create({ id: jobId, params: userId !== undefined ? { userId } : {} });
+	} catch (error) {
+		await c.env.DB.prepare('DELETE FROM IngestionJobs WHERE job_id = ?').bind(jobId).run();
+		throw error;
+	}
+
+	return jobId;
+}
+
+interface ReconciliationRunRow {
+	run_id: string;
+	trigger: ReconciliationRun['trigger'];
+	dry_run: number;
+	status: ReconciliationRun['status'];
+	checked: number;
+	missing: number;
+	orphaned: number;
+	stale: number;
+	repaired: number;
+	issues?: string | null;
+	error: string | null;
+	created_at: string;
+	modified_at: string | null;
+}
+
+function toReconciliationRun(row: ReconciliationRunRow): ReconciliationRun {
+	return {
+		runId: row.run_id,
+		trigger: row.trigger,
+		dryRun: row.dry_run === 1,
+		status: row.status,
+		checked: row.checked,
+		missing: row.missing,
+		orphaned: row.orphaned,
+		stale: row.stale,
+		repaired: row.repaired,
+		...(row.issues !== undefined && { issues: row.issues ? (JSON.parse(row.issues) as ReconciliationIssue[]) : [] }),
+		...(row.error && { error: row.error }),
+		createdAt: row.created_at,
+		...(row.modified_at && { modifiedAt: row.modified_at }),
+	};
+}
+
+/**
+ * Delete the vectors of every FAQ, or of one owner's FAQs when the route has a :userId
+ * Batches that fail are reported and the rest continue
+ */
+async function handleClearVectorize(c: Context<AuthEnv>): Promise<Response> {
+	const userId = c.req.param('userId');
+	const scope = userId ? ` for user ${userId}` : '';
+
+	try {
+		const stmt = userId
+			? c.env.DB.prepare('SELECT faq_id FROM FAQs WHERE user_id = ?').bind(userId)
+			: c.env.DB.prepare('SELECT faq_id FROM FAQs');
+		const { results } = await stmt.all<{ faq_id: number }>();
+
+		if (!results || results.length === 0) {
+			return c.json({ 
+				message: userId ? `No FAQs found for user ${userId}` : 'No FAQs found in D1 database',
+				deletedCount: 0 
+			});
+		}
+
+		const faqIds = results.map(row => row.faq_id.toString());
+		console.log(`[CLEAR VECTORIZE] Found ${faqIds.length} FAQs${scope}, deleting from Vectorize...`);
+
+		let deletedCount = 0;
+		const errors: string[] = [];
+
+		for (let i = 0; i < faqIds.length; i += VECTOR_DELETE_BATCH_SIZE) {
+			const batch = faqIds.slice(i, i + VECTOR_DELETE_BATCH_SIZE);
+			const batchNumber = Math.floor(i / VECTOR_DELETE_BATCH_SIZE) + 1;
+			try {
+				await deleteFaqVectors(c.env, batch);
+				console.log(`[CLEAR VECTORIZE] Deleted batch ${batchNumber}${scope}`);
+				deletedCount += batch.length;
+			} catch (error) {
+				const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+				console.error(`[CLEAR VECTORIZE] Error deleting batch${scope}:`, errorMsg);
+				errors.push(`Batch ${batchNumber}: ${errorMsg}`);
+			}
+		}
+
+		return c.json({
+			message: `Vectorize database cleared${scope}`,
+			...(userId && { userId }),
+			totalFAQs: faqIds.length,
+			deletedCount,
+			errors: errors.length > 0 ? errors : undefined,
+		});
+	} catch (error) {
+		console.error(`[CLEAR VECTORIZE] Error${scope}:`, error);
+		const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+		return c.json({ 
+			error: 'Failed to clear Vectorize database',
+			details: errorMessage 
+		}, 500);
+	}
+}
+
+/**
+ * Start an ingestion job re-embedding every FAQ, or one owner's FAQs when the route has a :userId
+ */
+async function handleRetrainEmbeddings(c: Context<AuthEnv>): Promise<Response> {
+	const userId = c.req.param('userId');
+	const scope = userId ? ` for user ${userId}` : '';
+
+	try {
+		const stmt = userId
+			? c.env.DB.prepare('SELECT COUNT(*) AS count FROM FAQs WHERE user_id = ?').bind(userId)
+			: c.env.DB.prepare('SELECT COUNT(*) AS count FROM FAQs');
+		const row = await stmt.first<{ count: number }>();
+		const total = row?.count ?? 0;
+
+		if (total === 0) {
+			return c.json({ 
+				message: userId ? `No FAQs found for user ${userId}` : 'No FAQs found in D1 database',
+				retrainedCount: 0 
+			});
+		}
+
+		const jobId = await startIngestionJob(c, userId, total);
+		console.log(`[RETRAIN EMBEDDINGS] Job ${jobId} started for ${total} FAQs${scope}`);
+
+		return c.json({
+			message: `Embedding retraining started${scope}`,
+			...(userId && { userId }),
+			jobId,
+			totalFAQs: total,
+			status: 'running',
+		}, 202);
+	} catch (error) {
+		console.error(`[RETRAIN EMBEDDINGS] Error${scope}:`, error);
+		const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+		return c.json({ 
+			error: 'Failed to retrain embeddings',
+			details: errorMessage 
+		}, 500);
+	}
+}
+
+const admin = new Hono<AuthEnv>();
+
+admin.use('*', requireUser, requireAdmin);
+
+// Clear Vectorize for all FAQs, or for a specific user
+admin.post('/clear-vectorize', handleClearVectorize);
+admin.post('/clear-vectorize/:userId', handleClearVectorize);
+
+// Retrain embeddings for all FAQs (all users), or for a specific user
+admin.post('/retrain-embeddings', handleRetrainEmbeddings);
+admin.post('/retrain-embeddings/:userId', handleRetrainEmbeddings);
+
+// Progress of a retrain (ingestion) job
+admin.get('/ingestion/:jobId', async (c) => {
+	try {
+		const jobId = c.req.param('jobId');
+
+		const row = await c.env.DB.prepare(
+			'SELECT job_id, user_id, status, total, processed, error, created_at FROM IngestionJobs WHERE job_id = ?'
+		)
+			.bind(jobId)
+			.first<{
+				job_id: string;
+				user_id: number | null;
+				status: IngestionJobStatus['status'];
+				total: number;
+				processed: number;
+				error: string | null;
+				created_at: string;
+			}>();
+
+		if (!row) {
+			return c.json({ error: 'Ingestion job not found' }, 404);
+		}
+
+		const status: IngestionJobStatus = {
+			jobId: row.job_id,
+			...(row.user_id !== null && { userId: row.user_id.toString() }),
+			status: row.status,
+			total: row.total,
+			processed: row.processed,
+			...(row.error && { error: row.error }),
+			createdAt: row.created_at,
+		};
+
+		return c.json(status);
+	} catch (error) {
+		console.error(`[INGESTION] Error fetching job ${c.req.param('jobId')}:`, error);
+		const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+		return c.json({ 
+			error: 'Failed to fetch ingestion job',
+			details: errorMessage 
+		}, 500);
+	}
+});
+
+// Start a D1 <-> Vectorize reconciliation; { "dryRun": true } only reports issues
+admin.post('/reconcile', async (c) => {
+	try {
+		const body = await c.req.json<{ dryRun?: unknown }>().catch(() => ({ dryRun: undefined }));
+
+		if (body.dryRun !== undefined && typeof body.dryRun !== 'boolean') {
+			return c.json({ error: 'dryRun must be a boolean' }, 400);
+		}
+
+		const dryRun = body.dryRun === true;
+		const runId = await startReconciliation(c.env, { trigger: 'admin', dryRun, requestedBy: c.get('authUser').userId });
+		console.log(`[RECONCILE] Run ${runId} started${dryRun ? ' (dry run)' : ''}`);
+
+		return c.json({
+			message: dryRun ? 'Reconciliation dry run started' : 'Reconciliation started',
+			runId,
+			dryRun,
+			status: 'running',
+		}, 202);
+	} catch (error) {
+		console.error('[RECONCILE] Error:', error);
+		const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+		return c.json({ 
+			error: 'Failed to start reconciliation',
+			details: errorMessage 
+		}, 500);
+	}
+});
+
+// Recent reconciliation runs (cron and admin), newest first, without their issue lists
+admin.get('/reconcile', async (c) => {
+	try {
+		const { results } = await c.env.DB.prepare(
+			`SELECT run_id, trigger, dry_run, status, checked, missing, orphaned, stale, repaired, error, created_at, modified_at
+			FROM ReconciliationRuns
+			ORDER BY created_at DESC
+			LIMIT 20`
+		).all<ReconciliationRunRow>();
+
+		return c.json({ runs: (results || []).map(toReconciliationRun) });
+	} catch (error) {
+		console.error('[RECONCILE] Error listing runs:', error);
+		const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+		return c.json({ 
+			error: 'Failed to list reconciliation runs',
+			details: errorMessage 
+		}, 500);
+	}
+});
+
+// Progress and report of a reconciliation run
+admin.get('/reconcile/:runId', async (c) => {
+	try {
+		const row = await c.env.DB.prepare(
+			`SELECT run_id, trigger, dry_run, status, checked, missing, orphaned, stale, repaired, issues, error, created_at, modified_at
+			FROM ReconciliationRuns
+			WHERE run_id = ?`
+		)
+			.bind(c.req.param('runId'))
+			.first<ReconciliationRunRow>();
+
+		if (!row) {
+			return c.json({ error: 'Reconciliation run not found' }, 404);
+		}
+
+		return c.json(toReconciliationRun(row));
+	} catch (error) {
+		console.error(`[RECONCILE] Error fetching run ${c.req.param('runId')}:`, error);
+		const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+		return c.json({ 
+			error: 'Failed to fetch reconciliation run',
+			details: errorMessage 
+		}, 500);
+	}
+});
+
+async function getChatQuota(c: Context<AuthEnv>, userId: string): Promise<ChatQuota> {
+	const [quota, usedToday] = await Promise.all([getDailyQuota(c.env, userId), getQuestionsToday(c.env.DB, userId)]);
+	return { userId, ...quota, usedToday };
+}
+
+// An owner's daily chatbot quota and today's usage
+admin.get('/quotas/:userId', async (c) => {
+	try {
+		const userId = c.req.param('userId');
+		const user = await c.env.DB.prepare('SELECT user_id FROM Users WHERE user_id = ?').bind(userId).first();
+		if (!user) {
+			return c.json({ error: 'User not found' }, 404);
+		}
+
+		return c.json(await getChatQuota(c, userId));
+	} catch (error) {
+		console.error(`[RATE LIMIT] Error fetching quota of user ${c.req.param('userId')}:`, error);
+		const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+		return c.json({ 
+			error: 'Failed to fetch quota',
+			details: errorMessage 
+		}, 500);
+	}
+});
+
+// Override an owner's daily chatbot quota; { "dailyLimit": null } restores the default
+admin.put('/quotas/:userId', async (c) => {
+	try {
+		const userId = c.req.param('userId');
+		const body = await c.req.json<{ dailyLimit?: unknown }>().catch(() => ({ dailyLimit: undefined }));
+		const { dailyLimit } = body;
+
+		if (dailyLimit !== null && (typeof dailyLimit !== 'number' || !Number.isInteger(dailyLimit) || dailyLimit < 0)) {
+			return c.json({ error: 'dailyLimit must be a non-negative integer or null' }, 400);
+		}
+
+		const user = await c.env.DB.prepare('SELECT user_id FROM Users WHERE user_id = ?').bind(userId).first();
+		if (!user) {
+			return c.json({ error: 'User not found' }, 404);
+		}
+
+		if (dailyLimit === null) {
+			await c.env.DB.prepare('DELETE FROM ChatQuotas WHERE user_id = ?').bind(userId).run();
+		} else {
+			await c.env.DB.prepare(
+				`INSERT INTO ChatQuotas (user_id, daily_limit, modified_by, modified_at) VALUES (?, ?, ?, ?)
+				ON CONFLICT (user_id) DO UPDATE SET daily_limit = excluded.daily_limit, modified_by = excluded.modified_by, modified_at = excluded.modified_at`
+			)
+				.bind(userId, dailyLimit, c.get('authUser').userId, new Date().toISOString())
+				.run();
+		}
+		console.log(`[RATE LIMIT] Daily quota of user ${userId} set to ${dailyLimit ?? 'default'}`);
+
+		return c.json(await getChatQuota(c, userId));
+	} catch (error) {
+		console.error(`[RATE LIMIT] Error updating quota of user ${c.req.param('userId')}:`, error);
+		const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+		return c.json({ 
+			error: 'Failed to update quota',
+			details: errorMessage 
+		}, 500);
+	}
+});
+
+export const adminRoutes = admin;
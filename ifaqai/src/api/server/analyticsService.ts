@@ -0,0 +1,231 @@
+/**
+ * Analytics service
+ * Records one event per chatbot answer (latency, context, FAQs used) and
+ * aggregates them into the owner's analytics dashboard
+ */
+
+import type { Context } from 'hono';
+import type { Env } from '../../types/env';
+import type { BotAnalytics, ChatbotCitation } from '../types';
+import type { AuthEnv } from './authMiddleware';
+import { getUnansweredReason, type RetrievalConfidence } from './unansweredService';
+
+export interface QueryEventInput {
+	userId: string | number;
+	conversationId?: string;
+	messageId?: string;
+	// Date.now() when the request started
+	startedAt: number;
+	contextUsed: boolean;
+	faqIds: string[];
+	citations: ChatbotCitation[];
+	confidence: RetrievalConfidence;
+}
+
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_RANGE_DAYS = 366;
+const TOP_FAQS_LIMIT = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Store a query event
+ */
+export async function recordQueryEvent(db: D1Database, event: QueryEventInput): Promise<void> {
+	const citedFaqIds = [...new Set(event.citations.map((citation) => Number(citation.faqId)))];
+
+	await db
+		.prepare(
+			`INSERT INTO QueryEvents (user_id, conversation_id, message_id, latency_ms, context_used, unanswered_reason, faq_ids, cited_faq_ids, created_at)
+			VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+		)
+		.bind(
+			event.userId,
+			event.conversationId ?? null,
+			event.messageId ?? null,
+			Math.max(0, Date.now() - event.startedAt),
+			event.contextUsed ? 1 : 0,
+			getUnansweredReason(event),
+			JSON.stringify(event.faqIds.map(Number)),
+			JSON.stringify(citedFaqIds),
+			new Date().toISOString()
+		)
+		.run();
+}
+
+/**
+ * Record a query event in the background
+ */
+export function trackQueryEvent<E extends { Bindings: Env }>(c: Context<E>, event: QueryEventInput): void {
+	c.executionCtx.waitUntil(
+		recordQueryEvent(c.env.DB, event).catch((error) => console.error('[ANALYTICS] Error recording query event:', error))
+	);
+}
+
+function toDateString(time: number): string {
+	return new Date(time).toISOString().slice(0, 10);
+}
+
+/**
+ * Parse the `from`/`to` query parameters (inclusive YYYY-MM-DD dates)
+ * Defaults to the last 30 days
+ * @returns The range, or an error message
+ */
+function parseDateRange(from: string | undefined, to: string | undefined): { from: string; to: string } | string {
+	if ((from && !DATE_PATTERN.test(from)) || (to && !DATE_PATTERN.test(to))) {
+		return 'from and to must be dates in YYYY-MM-DD format';
+	}
+
+	const toTime = to ? Date.parse(to) : Date.parse(toDateString(Date.now()));
+	const fromTime = from ? Date.parse(from) : toTime - (DEFAULT_RANGE_DAYS - 1) * DAY_MS;
+
+	if (Number.isNaN(fromTime) || Number.isNaN(toTime)) {
+		return 'from and to must be valid dates';
+	}
+	if (fromTime > toTime) {
+		return 'from must not be after to';
+	}
+	if ((toTime - fromTime) / DAY_MS + 1 > MAX_RANGE_DAYS) {
+		return `Date range must be at most ${MAX_RANGE_DAYS} days`;
+	}
+
+	return { from: toDateString(fromTime), to: toDateString(toTime) };
+}
+
+/**
+ * Handle GET /api/analytics?from=YYYY-MM-DD&to=YYYY-MM-DD
+ * Aggregates the authenticated user's query events over the date range
+ */
+export async function handleGetAnalytics(c: Context<AuthEnv>): Promise<Response> {
+	const range = parseDateRange(c.req.query('from'), c.req.query('to'));
+	if (typeof range === 'string') {
+		return c.json({ error: range }, 400);
+	}
+
+	try {
+		const userId = c.get('authUser').userId;
+		// Dates compare as strings; the end bound is exclusive so `to` covers the whole day
+		const start = range.from;
+		const end = toDateString(Date.parse(range.to) + DAY_MS);
+		const inRange = 'e.user_id = ? AND e.created_at >= ? AND e.created_at < ?';
+
+		const totals = await c.env.DB.prepare(
+			`SELECT COUNT(*) AS questions,
+				COALESCE(SUM(CASE WHEN e.unanswered_reason IS NULL THEN 1 ELSE 0 END), 0) AS answered
+			FROM QueryEvents e
+			WHERE ${inRange}`
+		)
+			.bind(userId, start, end)
+			.first<{ questions: number; answered: number }>();
+
+		const questions = totals?.questions ?? 0;
+		const answered = totals?.answered ?? 0;
+
+		const { results: days } = await c.env.DB.prepare(
+			`SELECT substr(e.created_at, 1, 10) AS day,
+				COUNT(*) AS questions,
+				SUM(CASE WHEN e.unanswered_reason IS NULL THEN 1 ELSE 0 END) AS answered
+			FROM QueryEvents e
+			WHERE ${inRange}
+			GROUP BY day`
+		)
+			.bind(userId, start, end)
+			.all<{ day: string; questions: number; answered: number }>();
+
+		// Median: the middle row, or the mean of the two middle rows
+		let medianLatencyMs: number | null = null;
+		if (questions > 0) {
+			const { results: middle } = await c.env.DB.prepare(
+				`SELECT e.latency_ms FROM QueryEvents e
+				WHERE ${inRange}
+				ORDER BY e.latency_ms
+				LIMIT ? OFFSET ?`
+			)
+				.bind(userId, start, end, questions % 2 === 0 ? 2 : 1, Math.floor((questions - 1) / 2))
+				.all<{ latency_ms: number }>();
+			const latencies = (middle || []).map((row) => row.latency_ms);
+			medianLatencyMs = latencies.length ? Math.round(latencies.reduce((sum, value) => sum + value, 0) / latencies.length) : null;
+		}
+
+		const { results: topFaqs } = await c.env.DB.prepare(
+			`SELECT f.faq_id, f.question, hits.count AS hits, COALESCE(cites.count, 0) AS citations
+			FROM (
+				SELECT j.value AS faq_id, COUNT(*) AS count
+				FROM QueryEvents e, json_each(e.faq_ids) j
+				WHERE ${inRange}
+				GROUP BY j.value
+			) hits
+			JOIN FAQs f ON f.faq_id = hits.faq_id AND f.user_id = ?
+			LEFT JOIN (
+				SELECT j.value AS faq_id, COUNT(*) AS count
+				FROM QueryEvents e, json_each(e.cited_faq_ids) j
+				WHERE ${inRange}
+				GROUP BY j.value
+			) cites ON cites.faq_id = hits.faq_id
+			ORDER BY hits DESC, citations DESC
+			LIMIT ?`
+		)
+			.bind(userId, start, end, userId, userId, start, end, TOP_FAQS_LIMIT)
+			.all<{ faq_id: number; question: string; hits: number; citations: number }>();
+
+		const { results: unusedFaqs } = await c.env.DB.prepare(
+			`SELECT f.faq_id, f.question FROM FAQs f
+			WHERE f.user_id = ? AND f.faq_id NOT IN (
+				SELECT j.value FROM QueryEvents e, json_each(e.faq_ids) j
+				WHERE ${inRange}
+			)
+			ORDER BY f.faq_id`
+		)
+			.bind(userId, userId, start, end)
+			.all<{ faq_id: number; question: string }>();
+
+		const feedback = await c.env.DB.prepare(
+			`SELECT COALESCE(SUM(CASE WHEN mf.rating > 0 THEN 1 ELSE 0 END), 0) AS helpful,
+				COALESCE(SUM(CASE WHEN mf.rating < 0 THEN 1 ELSE 0 END), 0) AS not_helpful
+			FROM QueryEvents e
+			JOIN MessageFeedback mf ON mf.message_id = e.message_id
+			WHERE ${inRange}`
+		)
+			.bind(userId, start, end)
+			.first<{ helpful: number; not_helpful: number }>();
+
+		// One entry per day of the range, including days without questions
+		const countsByDay = new Map((days || []).map((row) => [row.day, row]));
+		const questionsOverTime: BotAnalytics['questionsOverTime'] = [];
+		for (let time = Date.parse(range.from); time <= Date.parse(range.to); time += DAY_MS) {
+			const date = toDateString(time);
+			const day = countsByDay.get(date);
+			questionsOverTime.push({ date, questions: day?.questions ?? 0, answered: day?.answered ?? 0 });
+		}
+
+		const analytics: BotAnalytics = {
+			from: range.from,
+			to: range.to,
+			totalQuestions: questions,
+			answeredQuestions: answered,
+			answerRate: questions > 0 ? answered / questions : null,
+			medianLatencyMs,
+			feedback: {
+				helpful: feedback?.helpful ?? 0,
+				notHelpful: feedback?.not_helpful ?? 0,
+			},
+			questionsOverTime,
+			topFaqs: (topFaqs || []).map((row) => ({
+				faqId: row.faq_id.toString(),
+				question: row.question,
+				hits: row.hits,
+				citations: row.citations,
+			})),
+			unusedFaqs: (unusedFaqs || []).map((row) => ({
+				faqId: row.faq_id.toString(),
+				question: row.question,
+			})),
+		};
+
+		return c.json(analytics);
+	} catch (error) {
+		console.error('[ANALYTICS] Error fetching analytics:', error);
+		const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+		return c.json({ error: 'Failed to fetch analytics', details: errorMessage }, 500);
+	}
+}
@@ -0,0 +1,232 @@
+/**
+ * API key service
+ * Owners create keys to call the API from their own backend
+ * (Authorization: Bearer ifq_...). Only a SHA-256 hash of each key is stored;
+ * the key itself is returned once, when it is created.
+ */
+
+import type { Context } from 'hono';
+import type { ApiKey, ApiKeyScope, CreatedApiKey } from '../types';
+import type { AuthEnv } from './authMiddleware';
+
+interface DbApiKey {
+	key_id: string;
+	user_id: number;
+	name: string;
+	key_prefix: string;
+	key_hash: string;
+	scopes: string;
+	last_used_at: string | null;
+	revoked_at: string | null;
+	created_at: string;
+}
+
+/**
+ * A verified API key, as exposed to handlers by the API key middleware
+ */
+export interface ApiKeyPrincipal {
+	keyId: string;
+	userId: number;
+	scopes: ApiKeyScope[];
+}
+
+export const API_KEY_SCOPES: ApiKeyScope[] = ['chat:query', 'faqs:write'];
+
+const API_KEY_PREFIX = 'ifq_';
+// Characters of the key kept in D1 (and shown in the dashboard) to tell keys apart
+const DISPLAY_PREFIX_LENGTH = 12;
+const MAX_KEY_NAME_CHARS = 100;
+// Active (non-revoked) keys per owner
+const MAX_ACTIVE_API_KEYS = 10;
+// last_used_at is only rewritten when older than this, so busy keys do not write to D1 on every request
+const LAST_USED_UPDATE_INTERVAL_MS = 60_000;
+
+function dbApiKeyToApiKey(dbApiKey: DbApiKey): ApiKey {
+	return {
+		keyId: dbApiKey.key_id,
+		name: dbApiKey.name,
+		prefix: dbApiKey.key_prefix,
+		scopes: JSON.parse(dbApiKey.scopes) as ApiKeyScope[],
+		createdAt: dbApiKey.created_at,
+		lastUsedAt: dbApiKey.last_used_at || undefined,
+		revokedAt: dbApiKey.revoked_at || undefined,
+	};
+}
+
+/**
+ * Hex SHA-256 of a key, as stored in ApiKeys.key_hash
+ */
+export async function hashApiKey(key: string): Promise<string> {
+	const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(key));
+	return [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function generateApiKey(): string {
+	const bytes = crypto.getRandomValues(new Uint8Array(32));
+	return API_KEY_PREFIX + [...bytes].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Look up a presented key
+ * @returns The key's owner and scopes, or null if the key is unknown or revoked
+ */
+export async function verifyApiKey(db: D1Database, key: string): Promise<ApiKeyPrincipal | null> {
+	if (!key.startsWith(API_KEY_PREFIX)) {
+		return null;
+	}
+
+	const row = await db
+		.prepare('SELECT key_id, user_id, scopes FROM ApiKeys WHERE key_hash = ? AND revoked_at IS NULL')
+		.bind(await hashApiKey(key))
+		.first<Pick<DbApiKey, 'key_id' | 'user_id' | 'scopes'>>();
+
+	if (!row) {
+		return null;
+	}
+
+	return {
+		keyId: row.key_id,
+		userId: row.user_id,
+		scopes: JSON.parse(row.scopes) as ApiKeyScope[],
+	};
+}
+
+/**
+ * Record that a key was used (at most once per LAST_USED_UPDATE_INTERVAL_MS)
+ */
+export async function touchApiKey(db: D1Database, keyId: string): Promise<void> {
+	const now = new Date();
+	const threshold = new Date(now.getTime() - LAST_USED_UPDATE_INTERVAL_MS).toISOString();
+
+	await db
+		.prepare('UPDATE ApiKeys SET last_used_at = ? WHERE key_id = ? AND (last_used_at IS NULL OR last_used_at < ?)')
+		.bind(now.toISOString(), keyId, threshold)
+		.run();
+}
+
+/**
+ * Validate the scopes of a new key
+ * @returns The deduplicated scopes, or an error message
+ */
+function validateScopes(scopes: unknown): ApiKeyScope[] | string {
+	if (!Array.isArray(scopes) || scopes.length === 0) {
+		return `scopes must be a non-empty array of: ${API_KEY_SCOPES.join(', ')}`;
+	}
+
+	const invalid = scopes.find((scope) => !API_KEY_SCOPES.includes(scope));
+	if (invalid !== undefined) {
+		return `Unknown scope "${invalid}". Allowed scopes: ${API_KEY_SCOPES.join(', ')}`;
+	}
+
+	return [...new Set(scopes as ApiKeyScope[])];
+}
+
+/**
+ * Handle GET /api/users/me/api-keys
+ * Lists the authenticated user's keys, newest first (revoked keys included)
+ */
+export async function handleListApiKeys(c: Context<AuthEnv>): Promise<Response> {
+	try {
+		const userId = c.get('authUser').userId;
+		const { results } = await c.env.DB.prepare('SELECT * FROM ApiKeys WHERE user_id = ? ORDER BY created_at DESC')
+			.bind(userId)
+			.all<DbApiKey>();
+
+		return c.json((results || []).map(dbApiKeyToApiKey));
+	} catch (error) {
+		console.error('[API KEYS] Error listing API keys:', error);
+		const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+		return c.json({ error: 'Failed to fetch API keys', details: errorMessage }, 500);
+	}
+}
+
+/**
+ * Handle POST /api/users/me/api-keys
+ * Creates a key for the authenticated user and returns it; the full key is not shown again
+ */
+export async function handleCreateApiKey(c: Context<AuthEnv>): Promise<Response> {
+	try {
+		const userId = c.get('authUser').userId;
+		const body = await c.req.json().catch(() => ({}));
+		const { name, scopes } = body as { name?: unknown; scopes?: unknown };
+
+		const trimmedName = typeof name === 'string' ? name.trim() : '';
+		if (!trimmedName) {
+			return c.json({ error: 'name is required' }, 400);
+		}
+		if (trimmedName.length > MAX_KEY_NAME_CHARS) {
+			return c.json({ error: `name must be at most ${MAX_KEY_NAME_CHARS} characters` }, 400);
+		}
+
+		const validScopes = validateScopes(scopes);
+		if (typeof validScopes === 'string') {
+			return c.json({ error: validScopes }, 400);
+		}
+
+		const active = await c.env.DB.prepare('SELECT COUNT(*) AS count FROM ApiKeys WHERE user_id = ? AND revoked_at IS NULL')
+			.bind(userId)
+			.first<{ count: number }>();
+		if ((active?.count ?? 0) >= MAX_ACTIVE_API_KEYS) {
+			return c.json({ error: `You can have at most ${MAX_ACTIVE_API_KEYS} active API keys. Revoke one first.` }, 409);
+		}
+
+		const key = generateApiKey();
+		const apiKey: ApiKey = {
+			keyId: crypto.randomUUID(),
+			name: trimmedName,
+			prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+			scopes: validScopes,
+			createdAt: new Date().toISOString(),
+		};
+
+		await c.env.DB.prepare(
+			'INSERT INTO ApiKeys (key_id, user_id, name, key_prefix, key_hash, scopes, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)'
+		)
+			.bind(apiKey.keyId, userId, apiKey.name, apiKey.prefix, await hashApiKey(key), JSON.stringify(apiKey.scopes), apiKey.createdAt)
+			.run();
+
+		console.log(`[API KEYS] Created key ${apiKey.keyId} for user ${userId} (${apiKey.scopes.join(', ')})`);
+
+		const created: CreatedApiKey = { ...apiKey, key };
+		return c.json(created, 201);
+	} catch (error) {
+		console.error('[API KEYS] Error creating API key:', error);
+		const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+		return c.json({ error: 'Failed to create API key', details: errorMessage }, 500);
+	}
+}
+
+/**
+ * Handle DELETE /api/users/me/api-keys/:keyId
+ * Revokes a key; requests with it are rejected from then on
+ */
+export async function handleRevokeApiKey(c: Context<AuthEnv>): Promise<Response> {
+	const keyId = c.req.param('keyId');
+
+	if (!keyId) {
+		return c.json({ error: 'API key id is required' }, 400);
+	}
+
+	try {
+		const userId = c.get('authUser').userId;
+		const existing = await c.env.DB.prepare('SELECT * FROM ApiKeys WHERE key_id = ? AND user_id = ?')
+			.bind(keyId, userId)
+			.first<DbApiKey>();
+
+		if (!existing) {
+			return c.json({ error: 'API key not found' }, 404);
+		}
+
+		if (!existing.revoked_at) {
+			existing.revoked_at = new Date().toISOString();
+			await c.env.DB.prepare('UPDATE ApiKeys SET revoked_at = ? WHERE key_id = ?').bind(existing.revoked_at, keyId).run();
+			console.log(`[API KEYS] Revoked key ${keyId} of user ${userId}`);
+		}
+
+		return c.json(dbApiKeyToApiKey(existing));
+	} catch (error) {
+		console.error('[API KEYS] Error revoking API key:', error);
+		const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+		return c.json({ error: 'Failed to revoke API key', details: errorMessage }, 500);
+	}
+}
@@ -1,85 +1,273 @@
 /**
  * Server-side authentication handler for Cloudflare ZeroTrust
- * Extracts user information from ZeroTrust JWT token
+ * Verifies the Cloudflare Access JWT and extracts user information from it
  */
 
+import { decodeHeader, verifyWithJwks } from 'hono/utils/jwt/jwt';
+import type { HonoJsonWebKey } from 'hono/utils/jwt/jws';
+import {
+  JwtHeaderInvalid,
+  JwtHeaderRequiresKid,
+  JwtPayloadRequiresAud,
+  JwtTokenAudience,
+  JwtTokenExpired,
+  JwtTokenInvalid,
+  JwtTokenIssuedAt,
+  JwtTokenIssuer,
+  JwtTokenNotBefore,
+  JwtTokenSignatureMismatched,
+} from 'hono/utils/jwt/types';
+import type { Env } from '../../types/env';
+
 export interface ZeroTrustAuthPayload {
   name: string;
   email: string;
 }
 
 /**
- * Extract user information from Cloudflare ZeroTrust JWT token
- * ZeroTrust provides user info in the CF-Access-JWT-Assertion header
- * or in request.cf properties
+ * Reasons an Access token can be rejected
+ */
+export type AuthFailureReason =
+  | 'not_configured'
+  | 'missing_token'
+  | 'malformed_token'
+  | 'unknown_key'
+  | 'invalid_signature'
+  | 'expired'
+  | 'missing_expiry'
+  | 'not_yet_valid'
+  | 'invalid_issuer'
+  | 'invalid_audience'
+  | 'missing_email'
+  | 'jwks_unavailable';
+
+export type ZeroTrustAuthResult =
+  | { ok: true; payload: ZeroTrustAuthPayload }
+  | { ok: false; reason: AuthFailureReason };
+
+// Access signing keys rotate every few weeks; keep them for a while but
+// refetch early when a token references a kid we have not seen yet
+const JWKS_CACHE_TTL_MS = 10 * 60 * 1000;
+const JWKS_MIN_REFETCH_INTERVAL_MS = 30 * 1000;
+
+interface JwksCacheEntry {
+  source: string;
+  keys: HonoJsonWebKey[];
+  fetchedAt: number;
+}
+
+let jwksCache: JwksCacheEntry | null = null;
+
+/**
+ * Normalize the configured team domain into the Access issuer URL
+ * Accepts "myteam", "myteam.cloudflareaccess.com" or the full https URL
+ */
+function getAccessIssuer(teamDomain: string): string {
+  let issuer = teamDomain.trim().replace(/\/+$/, '');
+  if (!issuer.includes('.')) {
+    issuer = `${issuer}.cloudflareaccess.com`;
+  }
+  if (!/^https?:\/\//.test(issuer)) {
+    issuer = `https://${issuer}`;
+  }
+  return issuer;
+}
+
+function parseJwks(raw: unknown): HonoJsonWebKey[] {
+  const keys = (raw as { keys?: unknown } | null)?.keys;
+  if (!Array.isArray(keys)) {
+    throw new Error('Invalid JWKS: "keys" field is missing or not an array');
+  }
+  // Pin the algorithm so a token header cannot pick a weaker one
+  return (keys as HonoJsonWebKey[]).map((key) => ({ alg: 'RS256', ...key }));
+}
+
+/**
+ * Load the Access signing keys
+ * CF_ACCESS_JWKS (a local JWKS document) takes precedence over the team's
+ * certs endpoint so tests and local development can sign with a test key
+ */
+async function getSigningKeys(env: Env, issuer: string, forceRefresh = false): Promise<HonoJsonWebKey[]> {
+  if (env.CF_ACCESS_JWKS) {
+    return parseJwks(JSON.parse(env.CF_ACCESS_JWKS));
+  }
+
+  const certsUrl = `${issuer}/cdn-cgi/access/certs`;
+  const now = Date.now();
+
+  if (jwksCache && jwksCache.source === certsUrl) {
+    const age = now - jwksCache.fetchedAt;
+    const isFresh = age < JWKS_CACHE_TTL_MS;
+    const canRefetch = age >= JWKS_MIN_REFETCH_INTERVAL_MS;
+    if (isFresh && !(forceRefresh && canRefetch)) {
+      return jwksCache.keys;
+    }
+  }
+
+  const response = await fetch(certsUrl);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch Access JWKS from ${certsUrl}: ${response.status}`);
+  }
+
+  const keys = parseJwks(await response.json());
+  jwksCache = { source: certsUrl, keys, fetchedAt: now };
+  return keys;
+}
+
+function getTokenKid(token: string): string | null {
+  try {
+    const header = decodeHeader(token);
+    return typeof header?.kid === 'string' ? header.kid : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Map JWT verification errors onto a failure reason
+ */
+function toFailureReason(error: unknown): AuthFailureReason {
+  if (error instanceof JwtTokenExpired) return 'expired';
+  if (error instanceof JwtTokenNotBefore || error instanceof JwtTokenIssuedAt) return 'not_yet_valid';
+  if (error instanceof JwtTokenIssuer) return 'invalid_issuer';
+  if (error instanceof JwtTokenAudience || error instanceof JwtPayloadRequiresAud) return 'invalid_audience';
+  if (error instanceof JwtTokenSignatureMismatched) return 'invalid_signature';
+  if (error instanceof JwtHeaderInvalid || error instanceof JwtHeaderRequiresKid || error instanceof JwtTokenInvalid) {
+    return 'malformed_token';
+  }
+  return 'invalid_signature';
+}
+
+/**
+ * Read the Access token from the CF-Access-JWT-Assertion header,
+ * falling back to the CF_Authorization cookie set by Access
  */
-export function extractZeroTrustAuth(request: Request): ZeroTrustAuthPayload | null {
-  // Method 1: Check CF-Access-JWT-Assertion header (most common)
+function getAccessToken(request: Request): string | null {
   const jwtHeader = request.headers.get('CF-Access-JWT-Assertion');
   if (jwtHeader) {
-    try {
-      // Decode JWT payload (base64url)
-      const parts = jwtHeader.split('.');
-      if (parts.length === 3) {
-        const payload = JSON.parse(
-          atob(parts[1].replace(/-/g, '+').replace(/_/g, '/'))
-        );
-        
-        // Extract email and name from JWT claims
-        // Cloudflare ZeroTrust typically uses 'email' and 'name' or 'common_name'
-        return {
-          email: payload.email || payload.common_name || '',
-          name: payload.name || payload.given_name || payload.common_name || '',
-        };
-      }
-    } catch (error) {
-      console.error('Error parsing JWT token:', error);
-    }
+    return jwtHeader;
   }
 
-  // Method 2: Check CF-Access-Authenticated-User-Email header (simpler, if available)
-  const email = request.headers.get('CF-Access-Authenticated-User-Email');
-  const name = request.headers.get('CF-Access-Authenticated-User-Name') || 
-               request.headers.get('CF-Access-Authenticated-User-Common-Name');
-  
-  if (email) {
-    return {
-      email,
-      name: name || email.split('@')[0], // Fallback to email prefix if no name
-    };
+  const cookieHeader = request.headers.get('Cookie');
+  if (!cookieHeader) {
+    return null;
   }
 
-  // Method 3: Check request.cf properties (if available)
-  // Note: This requires proper TypeScript types for request.cf
-  const cf = (request as any).cf;
-  if (cf?.tlsClientAuth?.subject?.CN) {
-    // Extract from client certificate subject
-    return {
-      email: cf.tlsClientAuth.subject.email || cf.tlsClientAuth.subject.CN,
-      name: cf.tlsClientAuth.subject.name || cf.tlsClientAuth.subject.CN,
-    };
+  for (const cookie of cookieHeader.split(';')) {
+    const [name, ...rest] = cookie.trim().split('=');
+    if (name === 'CF_Authorization' && rest.length > 0) {
+      return rest.join('=');
+    }
   }
 
   return null;
 }
 
+/**
+ * Verify the Cloudflare ZeroTrust JWT and extract user information from it
+ * The signature is checked against the Access team's JWKS, along with
+ * issuer (CF_ACCESS_TEAM_DOMAIN), audience (CF_ACCESS_AUD) and expiry
+ * (tokens without exp are rejected)
+ */
+export async function extractZeroTrustAuth(request: Request, env: Env): Promise<ZeroTrustAuthResult> {
+  if (!env.CF_ACCESS_AUD || (!env.CF_ACCESS_TEAM_DOMAIN && !env.CF_ACCESS_JWKS)) {
+    console.error('Cloudflare Access verification is not configured (CF_ACCESS_TEAM_DOMAIN / CF_ACCESS_AUD)');
+    return { ok: false, reason: 'not_configured' };
+  }
+
+  const token = getAccessToken(request);
+  if (!token) {
+    return { ok: false, reason: 'missing_token' };
+  }
+
+  if (token.split('.').length !== 3) {
+    return { ok: false, reason: 'malformed_token' };
+  }
+
+  const kid = getTokenKid(token);
+  if (!kid) {
+    return { ok: false, reason: 'malformed_token' };
+  }
+
+  const issuer = env.CF_ACCESS_TEAM_DOMAIN ? getAccessIssuer(env.CF_ACCESS_TEAM_DOMAIN) : undefined;
+
+  let keys: HonoJsonWebKey[];
+  try {
+    keys = await getSigningKeys(env, issuer ?? '');
+    if (!keys.some((key) => key.kid === kid) && !env.CF_ACCESS_JWKS) {
+      // Keys may have rotated since they were cached
+      keys = await getSigningKeys(env, issuer ?? '', true);
+    }
+  } catch (error) {
+    console.error('Error loading Access JWKS:', error);
+    return { ok: false, reason: 'jwks_unavailable' };
+  }
+
+  if (!keys.some((key) => key.kid === kid)) {
+    return { ok: false, reason: 'unknown_key' };
+  }
+
+  let payload: Record<string, unknown>;
+  try {
+    payload = await verifyWithJwks(token, {
+      keys,
+      verification: {
+        aud: env.CF_ACCESS_AUD,
+        ...(issuer && { iss: issuer }),
+      },
+    });
+  } catch (error) {
+    const reason = toFailureReason(error);
+    // Error messages from the JWT helpers embed the token, so only log the reason
+    console.warn(`Rejected Access token: ${reason}`);
+    return { ok: false, reason };
+  }
+
+  // The JWT helpers only check exp when it is present; Access always sets it
+  if (typeof payload.exp !== 'number') {
+    console.warn('Rejected Access token: missing_expiry');
+    return { ok: false, reason: 'missing_expiry' };
+  }
+
+  // Access tokens carry 'email'; service tokens only have 'common_name'
+  const email = (payload.email || payload.common_name || '') as string;
+  if (!email) {
+    return { ok: false, reason: 'missing_email' };
+  }
+
+  return {
+    ok: true,
+    payload: {
+      email,
+      name: ((payload.name || payload.given_name || payload.common_name) as string) || email.split('@')[0],
+    },
+  };
+}
+
+/**
+ * HTTP status for an auth failure: configuration/JWKS problems are the
+ * server's fault (503), everything else is an unauthenticated caller (401)
+ */
+export function getAuthFailureStatus(reason: AuthFailureReason): 401 | 503 {
+  return reason === 'not_configured' || reason === 'jwks_unavailable' ? 503 : 401;
+}
+
 /**
  * Create API endpoint to return authentication payload
  * This endpoint should be protected by Cloudflare ZeroTrust
  */
-export async function handleAuthEndpoint(request: Request): Promise<Response> {
-  const authPayload = extractZeroTrustAuth(request);
-  
-  if (!authPayload) {
+export async function handleAuthEndpoint(request: Request, env: Env): Promise<Response> {
+  const result = await extractZeroTrustAuth(request, env);
+
+  if (!result.ok) {
     return new Response(
-      JSON.stringify({ error: 'Not authenticated' }),
-      { status: 401, headers: { 'Content-Type': 'application/json' } }
+      JSON.stringify({ error: 'Not authenticated', reason: result.reason }),
+      { status: getAuthFailureStatus(result.reason), headers: { 'Content-Type': 'application/json' } }
     );
   }
 
   return new Response(
-    JSON.stringify(authPayload),
+    JSON.stringify(result.payload),
     { headers: { 'Content-Type': 'application/json' } }
   );
 }
-
@@ -0,0 +1,269 @@
+/**
+ * Hono middleware resolving the authenticated caller from the verified
+ * Cloudflare Access identity (or an owner's API key), so handlers never trust
+ * user ids from the request
+ */
+
+import type { Context } from 'hono';
+import { createMiddleware } from 'hono/factory';
+import type { Env } from '../../types/env';
+import type { ApiKeyScope, User } from '../types';
+import { extractZeroTrustAuth, getAuthFailureStatus, type ZeroTrustAuthPayload } from './authHandler';
+import { getUserByEmail, getUserById, setUserRole } from './userService';
+import { touchApiKey, verifyApiKey, type ApiKeyPrincipal } from './apiKeyService';
+
+/**
+ * Authenticated user as stored in D1 (userId is always present)
+ */
+export type AuthUser = User & { userId: string | number };
+
+export type IdentityEnv = {
+	Bindings: Env;
+	Variables: {
+		identity: ZeroTrustAuthPayload;
+	};
+};
+
+export type AuthEnv = {
+	Bindings: Env;
+	Variables: {
+		/** Unset when the request was authenticated with an API key */
+		identity?: ZeroTrustAuthPayload;
+		authUser: AuthUser;
+		apiKey?: ApiKeyPrincipal;
+	};
+};
+
+export type ApiKeyEnv = {
+	Bindings: Env;
+	Variables: {
+		apiKey?: ApiKeyPrincipal;
+	};
+};
+
+export type ApiKeyAuthEnv = {
+	Bindings: Env;
+	Variables: {
+		apiKey: ApiKeyPrincipal;
+	};
+};
+
+/**
+ * Require a verified Access identity and expose it as c.get('identity')
+ * Used by routes that act before a Users row exists (e.g. profile creation)
+ */
+export const requireIdentity = createMiddleware<IdentityEnv>(async (c, next) => {
+	const result = await extractZeroTrustAuth(c.req.raw, c.env);
+
+	if (!result.ok) {
+		return c.json({ error: 'Not authenticated', reason: result.reason }, getAuthFailureStatus(result.reason));
+	}
+
+	c.set('identity', result.payload);
+	await next();
+});
+
+/**
+ * Resolve the Access identity and its Users row onto c.get('identity') / c.get('authUser')
+ * @returns An error response, or null when the user was set
+ */
+async function setAccessUser(c: Context<AuthEnv>): Promise<Response | null> {
+	const result = await extractZeroTrustAuth(c.req.raw, c.env);
+
+	if (!result.ok) {
+		return c.json({ error: 'Not authenticated', reason: result.reason }, getAuthFailureStatus(result.reason));
+	}
+
+	try {
+		const user = await getUserByEmail(c.env.DB, result.payload.email);
+
+		if (!user || user.userId === undefined || user.userId === null) {
+			return c.json({ error: 'User not found', details: 'Complete profile setup first' }, 403);
+		}
+
+		c.set('identity', result.payload);
+		c.set('authUser', user as AuthUser);
+		return null;
+	} catch (error) {
+		console.error('[AUTH] Error resolving authenticated user:', error);
+		const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+		return c.json({ error: 'Failed to resolve authenticated user', details: errorMessage }, 500);
+	}
+}
+
+/**
+ * Require a verified Access identity that maps to a row in Users
+ * Exposes the identity as c.get('identity') and the user as c.get('authUser')
+ */
+export const requireUser = createMiddleware<AuthEnv>(async (c, next) => {
+	const failure = await setAccessUser(c);
+	if (failure) {
+		return failure;
+	}
+
+	await next();
+});
+
+/**
+ * Token of an Authorization: Bearer header, if any
+ */
+function getBearerToken(c: Context): string | null {
+	const match = c.req.header('Authorization')?.match(/^Bearer\s+(\S+)\s*$/i);
+	return match ? match[1] : null;
+}
+
+/**
+ * Verify an API key and check it grants the scope
+ * Marks the key as used in the background
+ * @returns The key, or an error response
+ */
+async function authenticateApiKey<E extends ApiKeyEnv>(
+	c: Context<E>,
+	token: string,
+	scope: ApiKeyScope
+): Promise<ApiKeyPrincipal | Response> {
+	try {
+		const apiKey = await verifyApiKey(c.env.DB, token);
+
+		if (!apiKey) {
+			return c.json({ error: 'Not authenticated', reason: 'invalid_api_key' }, 401);
+		}
+		if (!apiKey.scopes.includes(scope)) {
+			console.warn(`[AUTH] API key ${apiKey.keyId} is missing scope ${scope}`);
+			return c.json({ error: 'Forbidden', details: `API key is missing the ${scope} scope` }, 403);
+		}
+
+		c.executionCtx.waitUntil(
+			touchApiKey(c.env.DB, apiKey.keyId).catch((error) => console.error('[AUTH] Error updating API key last use:', error))
+		);
+		return apiKey;
+	} catch (error) {
+		console.error('[AUTH] Error verifying API key:', error);
+		const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+		return c.json({ error: 'Failed to verify API key', details: errorMessage }, 500);
+	}
+}
+
+/**
+ * Accept an optional API key on public routes
+ * Without an Authorization header the request continues anonymously; with one,
+ * the key must be valid and grant the scope, and is exposed as c.get('apiKey')
+ */
+export function allowApiKey(scope: ApiKeyScope) {
+	return createMiddleware<ApiKeyEnv>(async (c, next) => {
+		const token = getBearerToken(c);
+
+		if (token) {
+			const apiKey = await authenticateApiKey(c, token, scope);
+			if (apiKey instanceof Response) {
+				return apiKey;
+			}
+			c.set('apiKey', apiKey);
+		}
+
+		await next();
+	});
+}
+
+/**
+ * Require an API key with the scope, for routes only called from owners' backends
+ * Exposes the key as c.get('apiKey')
+ */
+export function requireApiKey(scope: ApiKeyScope) {
+	return createMiddleware<ApiKeyAuthEnv>(async (c, next) => {
+		const token = getBearerToken(c);
+
+		if (!token) {
+			return c.json({ error: 'Not authenticated', reason: 'missing_api_key' }, 401);
+		}
+
+		const apiKey = await authenticateApiKey(c, token, scope);
+		if (apiKey instanceof Response) {
+			return apiKey;
+		}
+
+		c.set('apiKey', apiKey);
+		await next();
+	});
+}
+
+/**
+ * Like requireUser, but also accepts an API key with the scope
+ * Key requests act as the key's owner: c.get('authUser') is the owner and
+ * c.get('apiKey') the key (c.get('identity') stays unset)
+ */
+export function requireUserOrApiKey(scope: ApiKeyScope) {
+	return createMiddleware<AuthEnv>(async (c, next) => {
+		const token = getBearerToken(c);
+
+		if (!token) {
+			const failure = await setAccessUser(c);
+			if (failure) {
+				return failure;
+			}
+			await next();
+			return;
+		}
+
+		const apiKey = await authenticateApiKey(c, token, scope);
+		if (apiKey instanceof Response) {
+			return apiKey;
+		}
+
+		try {
+			const user = await getUserById(c.env.DB, apiKey.userId);
+			if (!user) {
+				return c.json({ error: 'Not authenticated', reason: 'invalid_api_key' }, 401);
+			}
+
+			c.set('authUser', user as AuthUser);
+			c.set('apiKey', apiKey);
+		} catch (error) {
+			console.error('[AUTH] Error resolving API key owner:', error);
+			const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+			return c.json({ error: 'Failed to resolve authenticated user', details: errorMessage }, 500);
+		}
+
+		await next();
+	});
+}
+
+/**
+ * Emails listed in ADMIN_EMAILS bootstrap the first admins
+ */
+function isBootstrapAdmin(env: Env, email: string): boolean {
+	if (!env.ADMIN_EMAILS) {
+		return false;
+	}
+
+	const normalizedEmail = email.trim().toLowerCase();
+	return env.ADMIN_EMAILS.split(',').some((adminEmail) => adminEmail.trim().toLowerCase() === normalizedEmail);
+}
+
+/**
+ * Require the authenticated user to have the admin role
+ * Must run after requireUser. Users listed in ADMIN_EMAILS are promoted
+ * to admin in D1 the first time they pass through this guard.
+ */
+export const requireAdmin = createMiddleware<AuthEnv>(async (c, next) => {
+	const authUser = c.get('authUser');
+
+	if (authUser.role !== 'admin') {
+		if (!isBootstrapAdmin(c.env, authUser.email)) {
+			console.warn(`[AUTH] Admin access denied for user ${authUser.userId}`);
+			return c.json({ error: 'Forbidden', details: 'Admin role required' }, 403);
+		}
+
+		try {
+			await setUserRole(c.env.DB, authUser.userId, 'admin');
+			c.set('authUser', { ...authUser, role: 'admin' });
+			console.log(`[AUTH] Bootstrapped admin role for user ${authUser.userId}`);
+		} catch (error) {
+			console.error('[AUTH] Error bootstrapping admin role:', error);
+			const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+			return c.json({ error: 'Failed to assign admin role', details: errorMessage }, 500);
+		}
+	}
+
+	await next();
+});
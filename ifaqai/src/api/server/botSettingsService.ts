@@ -0,0 +1,390 @@
+/**
+ * Bot settings service
+ * Stores each owner's persona configuration (tone, instructions, greeting,
+ * fallback message and answer length) used to build the chatbot prompt,
+ * and the chat/embedding models the bot runs on
+ */
+
+import type { Context } from 'hono';
+import type { Env } from '../../types/env';
+import type { BotSettings, BotTone, ModelCatalog, PublicBotSettings } from '../types';
+import type { AuthEnv } from './authMiddleware';
+import { getUserByUsername } from './userService';
+import {
+	CHAT_MODELS,
+	DEFAULT_CHAT_MODEL,
+	DEFAULT_EMBEDDING_MODEL,
+	EMBEDDING_MODELS,
+	getChatModel,
+	getEmbeddingModel,
+	getVectorIndex,
+	isChatModel,
+	isEmbeddingModel,
+} from './models';
+
+interface DbBotSettings {
+	user_id: number;
+	tone: BotTone;
+	persona_instructions: string | null;
+	greeting_message: string | null;
+	fallback_message: string | null;
+	max_answer_words: number | null;
+	chat_model: string | null;
+	temperature: number | null;
+	max_tokens: number | null;
+	embedding_model: string | null;
+	pending_embedding_model: string | null;
+	allowed_origins: string | null;
+	created_at: string;
+	modified_at: string | null;
+}
+
+export const BOT_TONES: BotTone[] = ['professional', 'friendly', 'casual', 'formal'];
+
+const MAX_PERSONA_INSTRUCTIONS_CHARS = 1000;
+const MAX_MESSAGE_CHARS = 300;
+export const MIN_ANSWER_WORDS = 20;
+export const MAX_ANSWER_WORDS = 500;
+export const MIN_TEMPERATURE = 0;
+export const MAX_TEMPERATURE = 2;
+export const MIN_MAX_TOKENS = 16;
+export const MAX_ALLOWED_ORIGINS = 20;
+
+export const DEFAULT_BOT_SETTINGS: BotSettings = {
+	tone: 'professional',
+	chatModel: DEFAULT_CHAT_MODEL.id,
+	embeddingModel: DEFAULT_EMBEDDING_MODEL.id,
+};
+
+function dbBotSettingsToBotSettings(dbSettings: DbBotSettings): BotSettings {
+	return {
+		tone: dbSettings.tone,
+		personaInstructions: dbSettings.persona_instructions || undefined,
+		greetingMessage: dbSettings.greeting_message || undefined,
+		fallbackMessage: dbSettings.fallback_message || undefined,
+		maxAnswerWords: dbSettings.max_answer_words,
+		chatModel: getChatModel(dbSettings.chat_model).id,
+		temperature: dbSettings.temperature,
+		maxTokens: dbSettings.max_tokens,
+		embeddingModel: getEmbeddingModel(dbSettings.embedding_model).id,
+		pendingEmbeddingModel: dbSettings.pending_embedding_model || undefined,
+		allowedOrigins: dbSettings.allowed_origins ? (JSON.parse(dbSettings.allowed_origins) as string[]) : [],
+		modifiedAt: dbSettings.modified_at || dbSettings.created_at,
+	};
+}
+
+/**
+ * Get a bot's settings, falling back to the defaults when none were saved
+ */
+export async function getBotSettings(db: D1Database, userId: string | number): Promise<BotSettings> {
+	const dbSettings = await db
+		.prepare(
+			`SELECT user_id, tone, persona_instructions, greeting_message, fallback_message, max_answer_words,
+				chat_model, temperature, max_tokens, embedding_model, pending_embedding_model, allowed_origins, created_at, modified_at
+				FROM BotSettings WHERE user_id = ?`
+		)
+		.bind(userId)
+		.first<DbBotSettings>();
+
+	return dbSettings ? dbBotSettingsToBotSettings(dbSettings) : { ...DEFAULT_BOT_SETTINGS };
+}
+
+/**
+ * Normalize a widget origin such as "https://example.com/" to "https://example.com"
+ * @returns The origin, or null if it is not an http(s) origin without a path
+ */
+export function normalizeOrigin(value: string): string | null {
+	try {
+		const url = new URL(value.trim());
+		if ((url.protocol !== 'https:' && url.protocol !== 'http:') || url.pathname !== '/' || url.search || url.hash) {
+			return null;
+		}
+		return url.origin;
+	} catch {
+		return null;
+	}
+}
+
+function readOptionalText(body: Record<string, unknown>, field: string, maxLength: number): string | null | Error {
+	const value = body[field];
+	if (value === undefined || value === null) {
+		return null;
+	}
+	if (typeof value !== 'string') {
+		return new Error(`${field} must be a string`);
+	}
+	if (value.trim().length > maxLength) {
+		return new Error(`${field} must be at most ${maxLength} characters`);
+	}
+	return value.trim() || null;
+}
+
+/**
+ * Validate a bot settings update
+ * @returns The settings to store, or an error message
+ */
+export function validateBotSettings(body: unknown): { settings: BotSettings } | { error: string } {
+	if (!body || typeof body !== 'object') {
+		return { error: 'Invalid request body' };
+	}
+	const input = body as Record<string, unknown>;
+
+	const tone = input.tone ?? DEFAULT_BOT_SETTINGS.tone;
+	if (!BOT_TONES.includes(tone as BotTone)) {
+		return { error: `tone must be one of: ${BOT_TONES.join(', ')}` };
+	}
+
+	const personaInstructions = readOptionalText(input, 'personaInstructions', MAX_PERSONA_INSTRUCTIONS_CHARS);
+	const greetingMessage = readOptionalText(input, 'greetingMessage', MAX_MESSAGE_CHARS);
+	const fallbackMessage = readOptionalText(input, 'fallbackMessage', MAX_MESSAGE_CHARS);
+	for (const value of [personaInstructions, greetingMessage, fallbackMessage]) {
+		if (value instanceof Error) {
+			return { error: value.message };
+		}
+	}
+
+	const maxAnswerWords = input.maxAnswerWords ?? null;
+	if (
+		maxAnswerWords !== null &&
+		(!Number.isInteger(maxAnswerWords) || (maxAnswerWords as number) < MIN_ANSWER_WORDS || (maxAnswerWords as number) > MAX_ANSWER_WORDS)
+	) {
+		return { error: `maxAnswerWords must be a whole number between ${MIN_ANSWER_WORDS} and ${MAX_ANSWER_WORDS}` };
+	}
+
+	const chatModel = input.chatModel ?? DEFAULT_CHAT_MODEL.id;
+	if (!isChatModel(chatModel)) {
+		return { error: 'chatModel must be one of the chat models listed by GET /api/models' };
+	}
+
+	const temperature = input.temperature ?? null;
+	if (
+		temperature !== null &&
+		(typeof temperature !== 'number' || !Number.isFinite(temperature) || temperature < MIN_TEMPERATURE || temperature > MAX_TEMPERATURE)
+	) {
+		return { error: `temperature must be a number between ${MIN_TEMPERATURE} and ${MAX_TEMPERATURE}` };
+	}
+
+	const maxOutputTokens = getChatModel(chatModel as string).maxOutputTokens;
+	const maxTokens = input.maxTokens ?? null;
+	if (
+		maxTokens !== null &&
+		(!Number.isInteger(maxTokens) || (maxTokens as number) < MIN_MAX_TOKENS || (maxTokens as number) > maxOutputTokens)
+	) {
+		return { error: `maxTokens must be a whole number between ${MIN_MAX_TOKENS} and ${maxOutputTokens}` };
+	}
+
+	// Omitted means "keep the current model": switching triggers a full reindex
+	const embeddingModel = input.embeddingModel ?? undefined;
+	if (embeddingModel !== undefined && !isEmbeddingModel(embeddingModel)) {
+		return { error: 'embeddingModel must be one of the embedding models listed by GET /api/models' };
+	}
+
+	// Omitted means "keep the current origins"
+	let allowedOrigins: string[] | undefined;
+	if (input.allowedOrigins !== undefined) {
+		if (!Array.isArray(input.allowedOrigins) || input.allowedOrigins.some((origin) => typeof origin !== 'string')) {
+			return { error: 'allowedOrigins must be an array of origins' };
+		}
+		allowedOrigins = [];
+		for (const origin of input.allowedOrigins as string[]) {
+			const normalized = normalizeOrigin(origin);
+			if (!normalized) {
+				return { error: `allowedOrigins: ${origin} is not an origin like https://example.com` };
+			}
+			if (!allowedOrigins.includes(normalized)) {
+				allowedOrigins.push(normalized);
+			}
+		}
+		if (allowedOrigins.length > MAX_ALLOWED_ORIGINS) {
+			return { error: `allowedOrigins can list at most ${MAX_ALLOWED_ORIGINS} origins` };
+		}
+	}
+
+	return {
+		settings: {
+			tone: tone as BotTone,
+			personaInstructions: (personaInstructions as string | null) || undefined,
+			greetingMessage: (greetingMessage as string | null) || undefined,
+			fallbackMessage: (fallbackMessage as string | null) || undefined,
+			maxAnswerWords: maxAnswerWords as number | null,
+			chatModel: chatModel as string,
+			temperature: temperature as number | null,
+			maxTokens: maxTokens as number | null,
+			embeddingModel: embeddingModel as string | undefined,
+			allowedOrigins,
+		},
+	};
+}
+
+/**
+ * Handle GET /api/users/me/bot-settings
+ * Returns the authenticated user's bot settings
+ */
+export async function handleGetBotSettings(c: Context<AuthEnv>): Promise<Response> {
+	try {
+		const settings = await getBotSettings(c.env.DB, c.get('authUser').userId);
+		return c.json(settings);
+	} catch (error) {
+		console.error('[BOT SETTINGS] Error fetching bot settings:', error);
+		const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+		return c.json({ error: 'Failed to fetch bot settings', details: errorMessage }, 500);
+	}
+}
+
+/**
+ * Handle PUT /api/users/me/bot-settings
+ * Replaces the authenticated user's bot settings
+ * A new embeddingModel is not applied immediately: it becomes pending and a
+ * ReindexWorkflow re-embeds the bot's FAQs before switching over
+ */
+export async function handleUpdateBotSettings(c: Context<AuthEnv>): Promise<Response> {
+	try {
+		const body = await c.req.json().catch(() => null);
+		const validation = validateBotSettings(body);
+		if ('error' in validation) {
+			return c.json({ error: validation.error }, 400);
+		}
+
+		const { settings } = validation;
+		const userId = c.get('authUser').userId;
+		const modifiedAt = new Date().toISOString();
+		const current = await getBotSettings(c.env.DB, userId);
+
+		const requestedEmbeddingModel = getEmbeddingModel(settings.embeddingModel ?? current.pendingEmbeddingModel ?? current.embeddingModel);
+
+		// Choosing the active model again cancels a running reindex;
+		// choosing a new model (re)starts one
+		let pendingEmbeddingModel = current.pendingEmbeddingModel ?? null;
+		let reindexWorkflowId: string | null = null;
+		if (requestedEmbeddingModel.id === current.embeddingModel) {
+			pendingEmbeddingModel = null;
+		} else if (requestedEmbeddingModel.id !== pendingEmbeddingModel) {
+			if (!getVectorIndex(c.env, requestedEmbeddingModel)) {
+				return c.json(
+					{
+						error: `Embedding model ${requestedEmbeddingModel.id} is not available`,
+						details: `The Vectorize binding ${requestedEmbeddingModel.indexBinding} is not configured`,
+					},
+					400
+				);
+			}
+			pendingEmbeddingModel = requestedEmbeddingModel.id;
+			reindexWorkflowId = crypto.randomUUID();
+		}
+		const reindexChanged = pendingEmbeddingModel !== (current.pendingEmbeddingModel ?? null);
+
+		await c.env.DB.prepare(
+			`INSERT INTO BotSettings (user_id, tone, persona_instructions, greeting_message, fallback_message, max_answer_words,
+				chat_model, temperature, max_tokens, pending_embedding_model, reindex_workflow_id, allowed_origins, created_at)
+			VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+			ON CONFLICT(user_id) DO UPDATE SET
+				tone = excluded.tone,
+				persona_instructions = excluded.persona_instructions,
+				greeting_message = excluded.greeting_message,
+				fallback_message = excluded.fallback_message,
+				max_answer_words = excluded.max_answer_words,
+				chat_model = excluded.chat_model,
+				temperature = excluded.temperature,
+				max_tokens = excluded.max_tokens,
+				pending_embedding_model = CASE WHEN ? THEN excluded.pending_embedding_model ELSE pending_embedding_model END,
+				reindex_workflow_id = CASE WHEN ? THEN excluded.reindex_workflow_id ELSE reindex_workflow_id END,
+				allowed_origins = excluded.allowed_origins,
+				modified_at = ?`
+		)
+			.bind(
+				userId,
+				settings.tone,
+				settings.personaInstructions ?? null,
+				settings.greetingMessage ?? null,
+				settings.fallbackMessage ?? null,
+				settings.maxAnswerWords ?? null,
+				settings.chatModel ?? null,
+				settings.temperature ?? null,
+				settings.maxTokens ?? null,
+				pendingEmbeddingModel,
+				reindexWorkflowId,
+				JSON.stringify(settings.allowedOrigins ?? current.allowedOrigins ?? []),
+				modifiedAt,
+				reindexChanged ? 1 : 0,
+				reindexChanged ? 1 : 0,
+				modifiedAt
+			)
+			.run();
+
+		if (reindexWorkflowId && pendingEmbeddingModel) {
+			try {
+				await c.env.REINDEX_WORKFLOW.create({
+					id: reindexWorkflowId,
+					params: { userId, embeddingModel: pendingEmbeddingModel },
+				});
+				console.log(`[BOT SETTINGS] Started reindex ${reindexWorkflowId} of user ${userId} into ${pendingEmbeddingModel}`);
+			} catch (workflowError) {
+				// Without a running reindex the pending model would never activate
+				await c.env.DB.prepare(
+					'UPDATE BotSettings SET pending_embedding_model = NULL, reindex_workflow_id = NULL WHERE user_id = ? AND reindex_workflow_id = ?'
+				)
+					.bind(userId, reindexWorkflowId)
+					.run();
+				throw workflowError;
+			}
+		}
+
+		console.log(`[BOT SETTINGS] Updated bot settings for user ${userId}`);
+
+		return c.json(await getBotSettings(c.env.DB, userId));
+	} catch (error) {
+		console.error('[BOT SETTINGS] Error updating bot settings:', error);
+		const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+		return c.json({ error: 'Failed to update bot settings', details: errorMessage }, 500);
+	}
+}
+
+/**
+ * Handle GET /api/users/:username/bot-settings
+ * Returns the settings visitors of a chatbot can see (the greeting)
+ */
+export async function handleGetPublicBotSettings(c: Context<{ Bindings: Env }>): Promise<Response> {
+	const username = c.req.param('username');
+
+	if (!username) {
+		return c.json({ error: 'Username parameter is required' }, 400);
+	}
+
+	try {
+		const user = await getUserByUsername(c.env.DB, username);
+		if (!user || user.userId === undefined || user.userId === null) {
+			return c.json({ error: 'User not found' }, 404);
+		}
+
+		const settings = await getBotSettings(c.env.DB, user.userId);
+		const publicSettings: PublicBotSettings = {
+			greetingMessage: settings.greetingMessage,
+		};
+
+		return c.json(publicSettings);
+	} catch (error) {
+		console.error('[BOT SETTINGS] Error fetching public bot settings:', error);
+		const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+		return c.json({ error: 'Failed to fetch bot settings', details: errorMessage }, 500);
+	}
+}
+
+/**
+ * Handle GET /api/models
+ * Lists the chat and embedding models a bot can be configured with
+ */
+export async function handleGetModels(c: Context<{ Bindings: Env }>): Promise<Response> {
+	const catalog: ModelCatalog = {
+		chatModels: CHAT_MODELS.map(({ id, label, maxOutputTokens }) => ({ id, label, maxOutputTokens })),
+		embeddingModels: EMBEDDING_MODELS.map((model) => ({
+			id: model.id,
+			label: model.label,
+			dimensions: model.dimensions,
+			available: getVectorIndex(c.env, model) !== undefined,
+		})),
+		defaultChatModel: DEFAULT_CHAT_MODEL.id,
+		defaultEmbeddingModel: DEFAULT_EMBEDDING_MODEL.id,
+	};
+
+	return c.json(catalog);
+}
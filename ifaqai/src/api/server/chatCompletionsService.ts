@@ -0,0 +1,264 @@
+/**
+ * OpenAI-compatible chat completions
+ * Lets owners call their bot with existing OpenAI client libraries: the
+ * `model` is the bot's username, the API key is sent as the OpenAI API key,
+ * and answers come from the same RAG pipeline as GET /api/chatbot.
+ *
+ * Errors raised here use OpenAI's error shape ({ error: { message, type, param, code } })
+ * so client libraries can surface them.
+ */
+
+import type { Context } from 'hono';
+import { streamSSE } from 'hono/streaming';
+import type { ApiKeyAuthEnv } from './authMiddleware';
+import {
+	extractCitations,
+	generateAnswerTokens,
+	prepareChatbotQuery,
+	resolveChatbotOwner,
+	runChatbotQuery,
+	trimHistory,
+	type ChatHistoryTurn,
+} from './chatbotService';
+import { checkBotRateLimit } from './rateLimiter';
+import { trackUnansweredQuestion, type RetrievalConfidence } from './unansweredService';
+import { trackQueryEvent } from './analyticsService';
+import type { ChatbotCitation } from '../types';
+
+/**
+ * A message of the request's messages array
+ * content is a string or an array of content parts (only text parts are read)
+ */
+interface OpenAiChatMessage {
+	role: string;
+	content?: string | Array<{ type?: string; text?: string }> | null;
+}
+
+type OpenAiErrorType = 'invalid_request_error' | 'rate_limit_exceeded' | 'server_error';
+
+type OpenAiErrorStatus = 400 | 404 | 429 | 500;
+
+// Longest question accepted (the last user message)
+const MAX_QUESTION_CHARS = 4000;
+
+function openAiError(
+	c: Context,
+	status: OpenAiErrorStatus,
+	message: string,
+	type: OpenAiErrorType,
+	options: { param?: string; code?: string } = {}
+): Response {
+	return c.json({ error: { message, type, param: options.param ?? null, code: options.code ?? null } }, status);
+}
+
+/**
+ * Text of a message, joining the text parts of array content
+ */
+function getMessageText(message: OpenAiChatMessage): string {
+	if (typeof message.content === 'string') {
+		return message.content;
+	}
+	if (Array.isArray(message.content)) {
+		return message.content
+			.filter((part) => part?.type === 'text' && typeof part.text === 'string')
+			.map((part) => part.text)
+			.join('\n');
+	}
+	return '';
+}
+
+/**
+ * Split the messages array into the question (the last message, which must be
+ * from the user) and the conversation before it
+ * System and tool messages are ignored: the bot's own persona and prompt apply.
+ * @returns The question and history, or an error message
+ */
+function parseMessages(messages: unknown): { question: string; history: ChatHistoryTurn[] } | string {
+	if (!Array.isArray(messages) || messages.length === 0) {
+		return 'messages must be a non-empty array';
+	}
+	if (messages.some((message) => !message || typeof message !== 'object' || typeof message.role !== 'string')) {
+		return 'Every message must be an object with a role';
+	}
+
+	const turns = messages as OpenAiChatMessage[];
+	const last = turns[turns.length - 1];
+	const question = getMessageText(last).trim();
+
+	if (last.role !== 'user' || !question) {
+		return 'The last message must be a user message with text content';
+	}
+	if (question.length > MAX_QUESTION_CHARS) {
+		return `The last user message must be at most ${MAX_QUESTION_CHARS} characters`;
+	}
+
+	const history: ChatHistoryTurn[] = [];
+	for (const turn of turns.slice(0, -1)) {
+		const content = getMessageText(turn).trim();
+		if ((turn.role === 'user' || turn.role === 'assistant') && content) {
+			history.push({ role: turn.role, content });
+		}
+	}
+
+	return { question, history: trimHistory(history) };
+}
+
+/**
+ * Handle POST /api/v1/chat/completions
+ * Answers the last user message with the API key owner's bot. `model` must be
+ * the owner's username; sampling parameters (temperature, max_tokens, ...) are
+ * ignored in favour of the bot settings. With `stream: true` the answer is sent
+ * as chat.completion.chunk events followed by `data: [DONE]`.
+ */
+export async function handleChatCompletions(c: Context<ApiKeyAuthEnv>): Promise<Response> {
+	const startedAt = Date.now();
+
+	let body: { model?: unknown; messages?: unknown; stream?: unknown };
+	try {
+		body = await c.req.json();
+	} catch {
+		return openAiError(c, 400, 'Request body must be valid JSON', 'invalid_request_error');
+	}
+
+	if (typeof body?.model !== 'string' || !body.model) {
+		return openAiError(c, 400, 'model is required (the username of your bot)', 'invalid_request_error', { param: 'model' });
+	}
+
+	const parsed = parseMessages(body.messages);
+	if (typeof parsed === 'string') {
+		return openAiError(c, 400, parsed, 'invalid_request_error', { param: 'messages' });
+	}
+
+	try {
+		// An API key only ever queries its owner's bot
+		const apiKey = c.get('apiKey');
+		const owner = await resolveChatbotOwner(c.env.DB, { userId: apiKey.userId });
+		const model = owner?.profile?.username;
+
+		if (!owner || model !== body.model) {
+			return openAiError(c, 404, `The model "${body.model}" does not exist or this API key cannot use it`, 'invalid_request_error', {
+				param: 'model',
+				code: 'model_not_found',
+			});
+		}
+
+		const limited = await checkBotRateLimit(c.env, owner.ownerId);
+		if (limited) {
+			console.warn(`[CHAT COMPLETIONS] ${limited.reason} exceeded for bot ${owner.ownerId}, retry after ${limited.retryAfter}s`);
+			c.header('Retry-After', limited.retryAfter.toString());
+			return openAiError(
+				c,
+				429,
+				limited.reason === 'daily_quota'
+					? 'This chatbot has reached its daily question limit'
+					: 'This chatbot is receiving too many questions right now',
+				'rate_limit_exceeded',
+				{ code: limited.reason }
+			);
+		}
+
+		const { question, history } = parsed;
+		const completionId = `chatcmpl-${crypto.randomUUID()}`;
+		const created = Math.floor(Date.now() / 1000);
+
+		const track = (result: { contextUsed: boolean; citations: ChatbotCitation[]; confidence: RetrievalConfidence }, faqIds: string[]) => {
+			trackUnansweredQuestion(c, owner.ownerId, question, result);
+			trackQueryEvent(c, {
+				userId: owner.ownerId,
+				startedAt,
+				contextUsed: result.contextUsed,
+				faqIds,
+				citations: result.citations,
+				confidence: result.confidence,
+			});
+		};
+
+		if (body.stream !== true) {
+			const result = await runChatbotQuery(c.env, { question, owner, history });
+			track(result, result.contextFaqIds);
+
+			return c.json({
+				id: completionId,
+				object: 'chat.completion',
+				created,
+				model,
+				choices: [{ index: 0, message: { role: 'assistant', content: result.answer }, finish_reason: 'stop' }],
+				citations: result.citations,
+			});
+		}
+
+		// Retrieval runs before the stream opens so failures still return a JSON error
+		const prepared = await prepareChatbotQuery(c.env, { question, owner, history });
+
+		const chunk = (delta: Record<string, string>, finishReason: 'stop' | null, extra: Record<string, unknown> = {}) =>
+			JSON.stringify({
+				id: completionId,
+				object: 'chat.completion.chunk',
+				created,
+				model,
+				choices: [{ index: 0, delta, finish_reason: finishReason }],
+				...extra,
+			});
+
+		return streamSSE(
+			c,
+			async (stream) => {
+				let answer = '';
+				await stream.writeSSE({ data: chunk({ role: 'assistant', content: '' }, null) });
+
+				for await (const token of generateAnswerTokens(c.env.AI, prepared, stream)) {
+					answer += token;
+					await stream.writeSSE({ data: chunk({ content: token }, null) });
+				}
+
+				console.log(`[CHAT COMPLETIONS] ${stream.aborted ? 'ABORTED' : 'SUCCESS'}: streamed ${answer.length} characters`);
+				if (stream.aborted) {
+					return;
+				}
+
+				const citations = extractCitations(answer, prepared.sources);
+				track({ contextUsed: prepared.contextUsed, citations, confidence: prepared.confidence }, prepared.sources.map((source) => source.faqId));
+
+				await stream.writeSSE({ data: chunk({}, 'stop', { citations }) });
+				await stream.writeSSE({ data: '[DONE]' });
+			},
+			async (error, stream) => {
+				console.error('[CHAT COMPLETIONS] Error in stream:', error);
+				await stream.writeSSE({
+					data: JSON.stringify({ error: { message: error.message, type: 'server_error', param: null, code: null } }),
+				});
+			}
+		);
+	} catch (error) {
+		console.error('[CHAT COMPLETIONS] Error answering chat completion:', error);
+		return openAiError(c, 500, error instanceof Error ? error.message : 'Unknown error', 'server_error');
+	}
+}
+
+/**
+ * Handle GET /api/v1/models
+ * Lists the one model an API key can use: its owner's bot
+ */
+export async function handleListChatCompletionModels(c: Context<ApiKeyAuthEnv>): Promise<Response> {
+	try {
+		const row = await c.env.DB.prepare('SELECT user_name, created_at FROM Users WHERE user_id = ?')
+			.bind(c.get('apiKey').userId)
+			.first<{ user_name: string; created_at: string }>();
+
+		const data = row
+			? [
+					{
+						id: row.user_name,
+						object: 'model',
+						created: Math.floor(new Date(row.created_at).getTime() / 1000) || 0,
+						owned_by: 'ifaqai',
+					},
+				]
+			: [];
+
+		return c.json({ object: 'list', data });
+	} catch (error) {
+		console.error('[CHAT COMPLETIONS] Error listing models:', error);
+		return openAiError(c, 500, error instanceof Error ? error.message : 'Unknown error', 'server_error');
+	}
+}
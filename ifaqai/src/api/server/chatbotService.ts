@@ -5,7 +5,26 @@
 
 import type { Context } from 'hono';
 import type { Env } from '../../types/env';
+import type { BotSettings, BotTone, ChatbotCitation, ChatMessageRole } from '../types';
+import { streamSSE, type SSEStreamingApi } from 'hono/streaming';
 import { getUserByUsername } from './userService';
+import { DEFAULT_BOT_SETTINGS, getBotSettings } from './botSettingsService';
+import { fuseRankings, rerankFaqs, searchFaqsByKeyword } from './faqSearch';
+import { getFaqIdFromVectorId, getOwnerNamespace } from './vectorIndex';
+import { trackUnansweredQuestion, type RetrievalConfidence } from './unansweredService';
+import { trackQueryEvent } from './analyticsService';
+import type { ApiKeyEnv } from './authMiddleware';
+import { checkBotRateLimit, rateLimitResponse } from './rateLimiter';
+import { forbiddenOriginResponse, isOriginAllowed } from './widgetCors';
+import {
+	generateEmbedding,
+	getChatModel,
+	getEmbeddingModel,
+	getVectorIndex,
+	runChatModel,
+	streamChatModel,
+	type ChatModelInfo,
+} from './models';
 
 interface DbFaq {
 	faq_id: number;
@@ -16,314 +35,890 @@ interface DbFaq {
 	modified_at?: string;
 }
 
+export interface ChatbotOwnerProfile {
+	name?: string;
+	username?: string;
+	bio?: string;
+}
+
+export interface ChatbotOwner {
+	ownerId: string | number;
+	profile: ChatbotOwnerProfile | null;
+	minRelevanceScore?: number | null;
+	rerankEnabled?: boolean;
+	settings?: BotSettings;
+}
+
 /**
- * Handle chatbot query using RAG
- * 1. Convert user query to embedding
- * 2. Query Vectorize to find similar FAQs (filtered by userId)
- * 3. Retrieve matching FAQs from D1
- * 4. Use FAQs as context in LLM prompt
- * 5. Return LLM response
+ * A prior conversation turn fed back into the prompt
  */
-export async function handleChatbotQuery(
-	c: Context<{ Bindings: Env }>
-): Promise<Response> {
-	try {
-		const question = c.req.query('text') || c.req.query('question') || '';
-		const chatbotOwnerUserId = c.req.query('userId');
-		const chatbotOwnerUsername = c.req.query('username'); // Username from URL /<username>
+export interface ChatHistoryTurn {
+	role: ChatMessageRole;
+	content: string;
+}
 
-		if (!question.trim()) {
-			return c.json({ error: 'Question is required' }, 400);
-		}
+export interface ChatbotQueryInput {
+	question: string;
+	owner: ChatbotOwner;
+	history?: ChatHistoryTurn[];
+}
 
-		// Get chatbot owner's userId and profile from username if provided
-		// The chatbot owner is the user whose chatbot is being accessed via /<username> URL
-		let chatbotOwnerId: string | number | null = chatbotOwnerUserId || null;
-		let chatbotOwnerProfile: { name?: string; username?: string; bio?: string } | null = null;
-		
-		if (!chatbotOwnerId && chatbotOwnerUsername) {
-			// Fetch full chatbot owner profile to get name, bio, etc. for personalization
-			const chatbotOwner = await getUserByUsername(c.env.DB, chatbotOwnerUsername, { includeFaqs: false });
-			if (!chatbotOwner) {
-				return c.json({ error: 'Chatbot owner not found' }, 404);
-			}
-			chatbotOwnerId = chatbotOwner.userId || null;
-			chatbotOwnerProfile = {
+export interface ChatbotQueryResult {
+	answer: string;
+	contextUsed: boolean;
+	faqsUsed: number;
+	citations: ChatbotCitation[];
+	contextFaqIds: string[];
+	confidence: RetrievalConfidence;
+	debug: Record<string, unknown>;
+}
+
+/**
+ * An owner's FAQ retrieved for a question, most relevant first
+ */
+export interface RetrievedFaq {
+	faqId: string;
+	question: string;
+	answer: string;
+	score: number | null; // Rerank score when reranked, otherwise vector similarity (null for keyword-only matches)
+}
+
+/**
+ * Retrieval and prompt for a question, ready to send to the LLM
+ * sources are the numbered context entries the answer may cite
+ */
+export interface PreparedChatbotQuery {
+	messages: Array<{ role: string; content: string }>;
+	chatModel: ChatModelInfo;
+	temperature?: number;
+	maxTokens?: number;
+	fallbackAnswer: string;
+	contextUsed: boolean;
+	faqsUsed: number;
+	sources: ChatbotCitation[];
+	confidence: RetrievalConfidence;
+	debug: Record<string, unknown>;
+}
+
+const LLM_FALLBACK_ANSWER = 'I apologize, but I could not generate a response.';
+const LLM_ERROR_ANSWER = "I'm sorry, I encountered an error while processing your question. Please try again later.";
+
+// Candidates taken from each retriever before fusion, and FAQs kept as LLM context
+const RETRIEVAL_CANDIDATES = 10;
+const MAX_CONTEXT_FAQS = 5;
+
+// Minimum Vectorize similarity (cosine, 0-1) for an FAQ to be used as context,
+// unless the owner configured their own threshold
+export const DEFAULT_MIN_RELEVANCE_SCORE = 0.6;
+
+/**
+ * Failure in a pipeline step that cannot fall back (e.g. embedding generation)
+ */
+export class ChatbotStepError extends Error {
+	constructor(
+		public readonly step: string,
+		public readonly details: string
+	) {
+		super(`Chatbot step ${step} failed: ${details}`);
+		this.name = 'ChatbotStepError';
+	}
+}
+
+/**
+ * Resolve the chatbot owner and their profile for personalization
+ * The chatbot owner is the user whose chatbot is being accessed via /<username> URL
+ * @returns Owner or null if a username was given but does not exist
+ */
+export async function resolveChatbotOwner(
+	db: D1Database,
+	params: { userId?: string | number | null; username?: string | null }
+): Promise<ChatbotOwner | null> {
+	if (!params.userId && params.username) {
+		// Fetch full chatbot owner profile to get name, bio, etc. for personalization
+		const chatbotOwner = await getUserByUsername(db, params.username, { includeFaqs: false });
+		if (!chatbotOwner || chatbotOwner.userId === undefined || chatbotOwner.userId === null) {
+			return null;
+		}
+		return {
+			ownerId: chatbotOwner.userId,
+			profile: {
 				name: chatbotOwner.name,
 				username: chatbotOwner.username,
 				bio: chatbotOwner.bio,
-			};
-		} else if (chatbotOwnerId && !chatbotOwnerUsername) {
-			// If userId is provided but no username, fetch chatbot owner profile for personalization
-			const userStmt = c.env.DB.prepare('SELECT user_name, first_name, last_name, user_bio FROM Users WHERE user_id = ?').bind(chatbotOwnerId);
-			const chatbotOwner = await userStmt.first<{ user_name: string; first_name: string | null; last_name: string | null; user_bio: string | null }>();
-			if (chatbotOwner) {
-				chatbotOwnerProfile = {
+			},
+			minRelevanceScore: chatbotOwner.minRelevanceScore,
+			rerankEnabled: chatbotOwner.rerankEnabled,
+			settings: await getBotSettings(db, chatbotOwner.userId),
+		};
+	}
+
+	if (!params.userId) {
+		return null;
+	}
+
+	// If userId is provided but no username, fetch chatbot owner profile for personalization
+	const userStmt = db
+		.prepare('SELECT user_name, first_name, last_name, user_bio, min_relevance_score, rerank_enabled FROM Users WHERE user_id = ?')
+		.bind(params.userId);
+	const chatbotOwner = await userStmt.first<{
+		user_name: string;
+		first_name: string | null;
+		last_name: string | null;
+		user_bio: string | null;
+		min_relevance_score: number | null;
+		rerank_enabled: number | null;
+	}>();
+	return {
+		ownerId: params.userId,
+		profile: chatbotOwner
+			? {
 					name: [chatbotOwner.first_name, chatbotOwner.last_name].filter(Boolean).join(' ') || chatbotOwner.user_name,
 					username: chatbotOwner.user_name,
 					bio: chatbotOwner.user_bio || undefined,
-				};
-			}
+				}
+			: null,
+		minRelevanceScore: chatbotOwner?.min_relevance_score ?? null,
+		rerankEnabled: Boolean(chatbotOwner?.rerank_enabled),
+		settings: await getBotSettings(db, params.userId),
+	};
+}
+
+const TONE_INSTRUCTIONS: Record<BotTone, string> = {
+	professional: 'Use a professional, courteous tone.',
+	friendly: 'Use a warm, friendly and approachable tone.',
+	casual: 'Use a relaxed, conversational tone.',
+	formal: 'Use a formal, polished tone.',
+};
+
+/**
+ * Make owner-provided text safe to template into the system prompt
+ * Control characters are dropped and quote runs collapsed so the text
+ * cannot close the """ block it is placed in
+ */
+export function escapePromptText(value: string): string {
+	return value
+		.replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F]/g, '')
+		.replace(/"{3,}/g, '"')
+		.trim();
+}
+
+// Bounded window of prior turns sent to the LLM (oldest dropped first)
+export const MAX_HISTORY_TURNS = 10;
+const MAX_HISTORY_CHARS = 6000;
+
+/**
+ * Trim conversation history to the most recent turns that fit the window
+ */
+export function trimHistory(history: ChatHistoryTurn[]): ChatHistoryTurn[] {
+	const recent = history.slice(-MAX_HISTORY_TURNS);
+	const trimmed: ChatHistoryTurn[] = [];
+	let totalChars = 0;
+
+	for (let i = recent.length - 1; i >= 0; i--) {
+		totalChars += recent[i].content.length;
+		if (totalChars > MAX_HISTORY_CHARS) {
+			break;
 		}
+		trimmed.unshift(recent[i]);
+	}
 
-		if (!chatbotOwnerId) {
-			return c.json({ error: 'userId or username is required' }, 400);
+	return trimmed;
+}
+
+/**
+ * Steps 1-3.5: hybrid retrieval of the owner's FAQs relevant to a text
+ * Semantic (Vectorize) and keyword matches are fused, then optionally reranked.
+ * Used for chatbot context and by the MCP search_faqs tool.
+ * @throws ChatbotStepError when the embedding cannot be generated
+ */
+export async function retrieveFaqs(
+	env: Env,
+	owner: ChatbotOwner,
+	retrievalText: string,
+	maxFaqs: number = MAX_CONTEXT_FAQS
+): Promise<{ faqs: RetrievedFaq[]; confidence: RetrievalConfidence; debug: Record<string, unknown> }> {
+	const chatbotOwnerId = owner.ownerId;
+
+	// Step 1: Convert query to embedding
+	console.log('[STEP 1] Generating embedding for query...');
+	// Queries use the bot's active embedding model until a reindex into a new one completes
+	const settings = owner.settings ?? DEFAULT_BOT_SETTINGS;
+	const embeddingModel = getEmbeddingModel(settings.embeddingModel);
+	let vectors: number[];
+	try {
+		vectors = await generateEmbedding(env.AI, retrievalText, embeddingModel);
+		console.log(`[STEP 1] SUCCESS: Embedding generated with ${embeddingModel.id}, vector length:`, vectors.length);
+	} catch (error) {
+		console.error('[STEP 1] FAILED: Error generating embedding:', error);
+		throw new ChatbotStepError('embedding_generation', error instanceof Error ? error.message : 'Unknown error');
+	}
+
+	// Step 2: Query Vectorize to find similar FAQs
+	// Only the owner's namespace is searched, so other users' FAQs never crowd out the topK
+	// returnMetadata is kept so the userId check below can guard against stray vectors
+	const namespace = getOwnerNamespace(chatbotOwnerId, embeddingModel);
+	const vectorIndex = getVectorIndex(env, embeddingModel);
+
+	// Step 2b runs alongside the Vectorize query: keyword search over FAQs_fts
+	console.log('[STEP 2b] Searching FAQs by keyword...');
+	const keywordSearch = searchFaqsByKeyword(env.DB, chatbotOwnerId, retrievalText, RETRIEVAL_CANDIDATES).catch((error) => {
+		console.error('[STEP 2b] FAILED: Error searching FAQs_fts:', error);
+		return [] as string[];
+	});
+
+	console.log(`[STEP 2] Querying Vectorize namespace ${namespace}...`);
+	let vectorQuery: any = null;
+	try {
+		if (!vectorIndex) {
+			throw new Error(`Vectorize binding ${embeddingModel.indexBinding} is not configured`);
 		}
+		vectorQuery = await vectorIndex.query(vectors, { 
+			topK: RETRIEVAL_CANDIDATES,
+			namespace,
+			returnMetadata: true 
+		});
 
-		console.log('[STEP 0] Chatbot query initiated:', { 
-			question, 
-			chatbotOwnerId, 
-			chatbotOwnerUsername: chatbotOwnerProfile?.username 
+		console.log('[STEP 2] Vectorize query results:', {
+			matchesCount: vectorQuery.matches?.length || 0,
+			matches: vectorQuery.matches?.map((m: any) => ({
+				id: m.id,
+				score: m.score,
+				metadata: m.metadata
+			}))
 		});
+		
+		if (!vectorQuery.matches || vectorQuery.matches.length === 0) {
+			console.log('[STEP 2] WARNING: Vectorize returned no matches');
+		} else {
+			console.log(`[STEP 2] SUCCESS: Vectorize returned ${vectorQuery.matches.length} matches`);
+		}
+	} catch (error) {
+		console.error('[STEP 2] FAILED: Error querying Vectorize:', error);
+		// Answer without context instead of failing completely
+		vectorQuery = { matches: [] };
+	}
+
+	// Step 2.5: Keep the owner's matches that clear the relevance threshold
+	const minRelevanceScore = owner.minRelevanceScore ?? DEFAULT_MIN_RELEVANCE_SCORE;
+	console.log(`[STEP 2.5] Filtering matches by userId and score >= ${minRelevanceScore}...`);
+	const matchScores: Array<{ faqId: string; score: number; accepted: boolean }> = [];
+	let semanticFaqIds: string[] = [];
+	if (vectorQuery.matches && vectorQuery.matches.length > 0) {
+		const beforeFilterCount = vectorQuery.matches.length;
+		semanticFaqIds = vectorQuery.matches
+			.filter((match: any) => {
+				const metadata = match.metadata as { userId?: string | number } | undefined;
+				const matchUserId = metadata?.userId?.toString();
+				const ownerId = chatbotOwnerId?.toString();
+				
+				if (matchUserId !== ownerId) {
+					console.log(`[STEP 2.5] Filtered out FAQ ${match.id}: userId mismatch (${matchUserId} !== ${ownerId})`);
+					return false;
+				}
+
+				const accepted = match.score >= minRelevanceScore;
+				matchScores.push({ faqId: getFaqIdFromVectorId(match.id), score: match.score, accepted });
+				if (!accepted) {
+					console.log(`[STEP 2.5] Filtered out FAQ ${match.id}: score ${match.score} below ${minRelevanceScore}`);
+				}
+				return accepted;
+			})
+			.map((match: any) => getFaqIdFromVectorId(match.id));
+		
+		console.log(`[STEP 2.5] Filtered ${beforeFilterCount} matches to ${semanticFaqIds.length} relevant FAQs`);
+	} else {
+		console.log('[STEP 2.5] No matches to filter');
+	}
+
+	const keywordFaqIds = await keywordSearch;
+	console.log(`[STEP 2b] Keyword search returned ${keywordFaqIds.length} FAQs:`, keywordFaqIds);
 
-		// Step 1: Convert query to embedding
-		console.log('[STEP 1] Generating embedding for query...');
-		let vectors: number[] | null = null;
+	// Step 2.75: Merge semantic and keyword rankings with reciprocal-rank fusion
+	// With reranking enabled every candidate goes to the reranker, which picks the final context
+	const rerankEnabled = Boolean(owner.rerankEnabled);
+	const fusedRanking = fuseRankings([semanticFaqIds, keywordFaqIds]).slice(0, rerankEnabled ? RETRIEVAL_CANDIDATES : maxFaqs);
+	const candidateFaqIds = fusedRanking.map((entry) => entry.faqId);
+	console.log(`[STEP 2.75] Fused ranking:`, fusedRanking);
+
+	// Step 3: Retrieve matching FAQs from D1 (only chatbot owner's FAQs)
+	// With no relevant match the bot answers without context rather than with unrelated FAQs
+	console.log('[STEP 3] Retrieving FAQs from D1...');
+	let faqs: DbFaq[] = [];
+	if (candidateFaqIds.length > 0) {
 		try {
-			const embeddings = await c.env.AI.run('@cf/baai/bge-base-en-v1.5', {
-				text: question,
-			});
+			// Build query with IN clause for multiple IDs
+			const placeholders = candidateFaqIds.map(() => '?').join(',');
+			const query = `SELECT faq_id, user_id, question, answer, created_at, modified_at 
+				FROM FAQs 
+				WHERE faq_id IN (${placeholders}) AND user_id = ?`;
 			
-			// Check if it's an async response
-			if ('request_id' in embeddings) {
-				console.error('[STEP 1] FAILED: Embedding generation returned async response (not supported)');
-				return c.json({ 
-					error: 'Failed to generate embedding',
-					step: 'embedding_generation',
-					details: 'Async embedding not supported'
-				}, 500);
-			}
+			// Convert FAQ IDs to numbers for the query
+			const faqIdNumbers = candidateFaqIds.map(id => parseInt(id, 10));
+			console.log(`[STEP 3] Querying D1 with FAQ IDs:`, faqIdNumbers, `for userId:`, chatbotOwnerId);
 			
-			// Type guard: check if it has data property (not AsyncResponse)
-			if ('data' in embeddings && embeddings.data) {
-				vectors = embeddings.data[0] || null;
-			} else {
-				vectors = null;
-			}
+			const stmt = env.DB.prepare(query).bind(...faqIdNumbers, chatbotOwnerId);
+			const { results } = await stmt.all<DbFaq>();
 			
-			if (!vectors) {
-				console.error('[STEP 1] FAILED: Embedding generation returned no data');
-				return c.json({ 
-					error: 'Failed to generate embedding',
-					step: 'embedding_generation',
-					details: 'Embedding API returned empty data'
-				}, 500);
+			if (results) {
+				// Keep the fused order so the most relevant FAQs lead the context
+				faqs = results.sort(
+					(a, b) => candidateFaqIds.indexOf(a.faq_id.toString()) - candidateFaqIds.indexOf(b.faq_id.toString())
+				);
+				console.log(`[STEP 3] SUCCESS: Retrieved ${faqs.length} FAQs from D1`);
+			} else {
+				console.log('[STEP 3] WARNING: D1 query returned no results');
 			}
-			console.log('[STEP 1] SUCCESS: Embedding generated, vector length:', vectors.length);
 		} catch (error) {
-			console.error('[STEP 1] FAILED: Error generating embedding:', error);
-			return c.json({ 
-				error: 'Failed to generate embedding',
-				step: 'embedding_generation',
-				details: error instanceof Error ? error.message : 'Unknown error'
-			}, 500);
+			console.error('[STEP 3] FAILED: Error querying D1:', error);
 		}
+	} else {
+		console.log('[STEP 3] NO RELEVANT KNOWLEDGE: No FAQ cleared the relevance threshold or matched by keyword');
+	}
 
-		// Step 2: Query Vectorize to find similar FAQs
-		// Query with topK to get candidates, then filter by userId in metadata
-		// IMPORTANT: returnMetadata must be true to filter by userId
-		console.log('[STEP 2] Querying Vectorize index...');
-		let vectorQuery: any = null;
-		try {
-			vectorQuery = await c.env.VECTOR_INDEX.query(vectors, { 
-				topK: 10,
-				returnMetadata: true 
-			});
+	console.log(`[STEP 3] FINAL: Total FAQs retrieved: ${faqs.length}`);
 
-			console.log('[STEP 2] Vectorize query results:', {
-				matchesCount: vectorQuery.matches?.length || 0,
-				matches: vectorQuery.matches?.map((m: any) => ({
-					id: m.id,
-					score: m.score,
-					metadata: m.metadata
-				}))
-			});
-			
-			if (!vectorQuery.matches || vectorQuery.matches.length === 0) {
-				console.log('[STEP 2] WARNING: Vectorize returned no matches');
-			} else {
-				console.log(`[STEP 2] SUCCESS: Vectorize returned ${vectorQuery.matches.length} matches`);
-			}
+	// Step 3.5: Rerank question/FAQ pairs and keep the best for context
+	let rerankScores: Array<{ faqId: string; score: number }> = [];
+	if (rerankEnabled && faqs.length > 0) {
+		console.log(`[STEP 3.5] Reranking ${faqs.length} candidates...`);
+		try {
+			rerankScores = await rerankFaqs(
+				env.AI,
+				retrievalText,
+				faqs.map((faq) => ({ faqId: faq.faq_id.toString(), text: `${faq.question}\n${faq.answer}` }))
+			);
+			const rerankedIds = rerankScores.map((entry) => entry.faqId);
+			faqs = faqs
+				.filter((faq) => rerankedIds.includes(faq.faq_id.toString()))
+				.sort((a, b) => rerankedIds.indexOf(a.faq_id.toString()) - rerankedIds.indexOf(b.faq_id.toString()));
+			console.log('[STEP 3.5] SUCCESS: Rerank scores:', rerankScores);
 		} catch (error) {
-			console.error('[STEP 2] FAILED: Error querying Vectorize:', error);
-			// Continue to fallback instead of failing completely
-			vectorQuery = { matches: [] };
+			// Keep the fused order if the reranker is unavailable
+			console.error('[STEP 3.5] FAILED: Error reranking FAQs:', error);
 		}
+	}
+	faqs = faqs.slice(0, maxFaqs);
+	const matchingFaqIds = faqs.map((faq) => faq.faq_id.toString());
 
-		// Step 2.5: Filter matches by userId
-		console.log('[STEP 2.5] Filtering matches by userId...');
-		let matchingFaqIds: string[] = [];
-		if (vectorQuery.matches && vectorQuery.matches.length > 0) {
-			// Filter matches by userId in metadata to ensure we only get the chatbot owner's FAQs
-			const beforeFilterCount = vectorQuery.matches.length;
-			matchingFaqIds = vectorQuery.matches
-				.filter((match: any) => {
-					const metadata = match.metadata as { userId?: string | number } | undefined;
-					const matchUserId = metadata?.userId?.toString();
-					const ownerId = chatbotOwnerId?.toString();
-					const matches = matchUserId === ownerId;
-					
-					if (!matches) {
-						console.log(`[STEP 2.5] Filtered out FAQ ${match.id}: userId mismatch (${matchUserId} !== ${ownerId})`);
-					}
-					return matches;
-				})
-				.slice(0, 5) // Limit to top 5 after filtering
-				.map((match: any) => match.id);
-			
-			console.log(`[STEP 2.5] Filtered ${beforeFilterCount} matches to ${matchingFaqIds.length} matching FAQs`);
-		} else {
-			console.log('[STEP 2.5] No matches to filter');
+	// Vector and rerank score of each FAQ kept
+	const contextScores = matchingFaqIds.map((faqId) => ({
+		faqId,
+		vectorScore: matchScores.find((match) => match.faqId === faqId)?.score ?? null,
+		rerankScore: rerankScores.find((entry) => entry.faqId === faqId)?.score ?? null,
+	}));
+	const vectorScores = contextScores.map((entry) => entry.vectorScore).filter((score): score is number => score !== null);
+
+	return {
+		faqs: faqs.map((faq, index) => ({
+			faqId: faq.faq_id.toString(),
+			question: faq.question,
+			answer: faq.answer,
+			score: contextScores[index].rerankScore ?? contextScores[index].vectorScore,
+		})),
+		confidence: {
+			topScore: vectorScores.length > 0 ? Math.max(...vectorScores) : null,
+			minRelevanceScore,
+		},
+		debug: {
+			embeddingModel: embeddingModel.id,
+			vectorNamespace: namespace,
+			vectorizeMatches: vectorQuery?.matches?.length || 0,
+			matchingFaqIds: matchingFaqIds,
+			minRelevanceScore,
+			matchScores,
+			semanticFaqIds,
+			keywordFaqIds,
+			fusedRanking,
+			rerankEnabled,
+			contextScores,
+		},
+	};
+}
+
+/**
+ * Retrieve context and build the LLM prompt for a question against a chatbot owner's FAQs
+ * 1. Convert user query to embedding
+ * 2. Query Vectorize to find similar FAQs (filtered by userId) alongside an FTS5 keyword search,
+ *    then merge both rankings with reciprocal-rank fusion
+ * 3.5. Optionally rerank the candidates with a cross-encoder (per-bot toggle)
+ * 3. Retrieve matching FAQs from D1
+ * 4. Use FAQs as context in LLM prompt (with prior conversation turns)
+ */
+export async function prepareChatbotQuery(env: Env, input: ChatbotQueryInput): Promise<PreparedChatbotQuery> {
+	const { question, owner } = input;
+	const chatbotOwnerId = owner.ownerId;
+	const chatbotOwnerProfile = owner.profile;
+	const history = trimHistory(input.history || []);
+
+	console.log('[STEP 0] Chatbot query initiated:', { 
+		question, 
+		chatbotOwnerId, 
+		chatbotOwnerUsername: chatbotOwnerProfile?.username,
+		historyTurns: history.length,
+	});
+
+	// Steps 1-3.5: Retrieve the owner's FAQs relevant to the question
+	// Follow-ups like "what about pricing for that?" need the previous question to retrieve the right FAQs
+	const previousUserTurn = [...history].reverse().find((turn) => turn.role === 'user');
+	const retrievalText = previousUserTurn ? `${previousUserTurn.content}\n${question}` : question;
+	const settings = owner.settings ?? DEFAULT_BOT_SETTINGS;
+	const retrieval = await retrieveFaqs(env, owner, retrievalText);
+	const faqs = retrieval.faqs;
+
+	// Step 4: Build context from FAQs
+	// Entries are numbered so the answer can cite them as [n]
+	console.log('[STEP 4] Building context from FAQs...');
+	const contextMessage = faqs.length
+		? `Context from knowledge base:\n${faqs
+				.map((faq, index) => `[${index + 1}] Q: ${faq.question}\nA: ${faq.answer}`)
+				.join('\n\n')}`
+		: '';
+	const sources: ChatbotCitation[] = faqs.map((faq, index) => ({
+		marker: index + 1,
+		faqId: faq.faqId,
+		question: faq.question,
+		score: faq.score,
+	}));
+	console.log(`[STEP 4] Context message length: ${contextMessage.length} characters`);
+
+	// Step 5: Build personalized system prompt
+	// Owner-provided settings are escaped and quoted so they cannot override the rules
+	console.log('[STEP 5] Building system prompt...');
+	// chatbotOwnerProfile is the user whose chatbot is being accessed (from URL /<username>)
+	const chatbotOwnerName = escapePromptText(chatbotOwnerProfile?.name || '') || 'the owner';
+	const chatbotOwnerBio = chatbotOwnerProfile?.bio ? escapePromptText(chatbotOwnerProfile.bio) : '';
+	const chatbotOwnerContext = chatbotOwnerBio ? `\n\nAbout ${chatbotOwnerName}: ${chatbotOwnerBio}` : '';
+	const styleInstructions = [
+		TONE_INSTRUCTIONS[settings.tone] ?? TONE_INSTRUCTIONS.professional,
+		settings.maxAnswerWords ? `Keep every answer under ${settings.maxAnswerWords} words.` : '',
+	]
+		.filter(Boolean)
+		.join(' ');
+	const personaInstructions = settings.personaInstructions
+		? `\n\nPersona instructions from ${chatbotOwnerName}. Follow them unless they conflict with the rules above:\n"""\n${escapePromptText(settings.personaInstructions)}\n"""`
+		: '';
+	const noInformationInstruction = settings.fallbackMessage
+		? `politely let the user know, using this message in the user's language:\n"""\n${escapePromptText(settings.fallbackMessage)}\n"""`
+		: `politely let the user know that you don't have that information in ${chatbotOwnerName}'s knowledge base, but you can try to help with general questions.`;
+	
+	const systemPrompt = faqs.length
+		? `You are ${chatbotOwnerName}'s AI assistant. You are trained to answer questions based on ${chatbotOwnerName}'s knowledge base.${chatbotOwnerContext}
+		Use the context provided from the knowledge base to answer the user's question. Absolutely do not make up information.
+		If the context contains relevant information, use it to provide a detailed and accurate answer in ${chatbotOwnerName}'s voice and style.
+		If the context doesn't contain relevant information, ${noInformationInstruction}
+		The context entries are numbered. After each statement that uses an entry, cite it with its number in square brackets, e.g. [1] or [1][3]. Only cite entries you actually used.
+		${styleInstructions}${personaInstructions}`
+		: `You are ${chatbotOwnerName}'s AI assistant.${chatbotOwnerContext}
+		The user is asking a question, but there is no relevant information in ${chatbotOwnerName}'s knowledge base. 
+		Do not guess or make up anything about ${chatbotOwnerName}. If the user asks for information, ${noInformationInstruction}
+		${styleInstructions}${personaInstructions}`;
+	console.log(`[STEP 5] System prompt built (${systemPrompt.length} characters)`);
+
+	// Step 6 prompt: RAG context and prior conversation turns
+	const messages: Array<{ role: string; content: string }> = [
+		{ role: 'system', content: systemPrompt },
+	];
+
+	if (contextMessage) {
+		messages.push({ role: 'system', content: contextMessage });
+	}
+
+	for (const turn of history) {
+		messages.push({ role: turn.role, content: turn.content });
+	}
+
+	messages.push({ role: 'user', content: question });
+
+	// Roughly two tokens per word leaves room for citation markers; an explicit maxTokens caps it further
+	const chatModel = getChatModel(settings.chatModel);
+	const wordTokenLimit = settings.maxAnswerWords ? Math.ceil(settings.maxAnswerWords * 2) : undefined;
+	const tokenLimits = [wordTokenLimit, settings.maxTokens ?? undefined].filter((limit): limit is number => limit !== undefined);
+
+	return {
+		messages,
+		chatModel,
+		temperature: settings.temperature ?? undefined,
+		maxTokens: tokenLimits.length > 0 ? Math.min(...tokenLimits) : undefined,
+		fallbackAnswer: settings.fallbackMessage || LLM_FALLBACK_ANSWER,
+		contextUsed: faqs.length > 0,
+		faqsUsed: faqs.length,
+		sources,
+		confidence: retrieval.confidence,
+		debug: {
+			steps: {
+				step0: 'Chatbot query initiated',
+				step1: 'Embedding generation',
+				step2: 'Vectorize query',
+				step2b: 'Keyword search',
+				step2_5: 'UserId and relevance filtering',
+				step2_75: 'Reciprocal-rank fusion',
+				step3_5: 'Reranking',
+				step3: 'D1 retrieval',
+				step4: 'Context building',
+				step5: 'Prompt building',
+				step6: 'LLM generation'
+			},
+			chatModel: chatModel.id,
+			...retrieval.debug,
+			noRelevantKnowledge: faqs.length === 0,
+			faqsRetrieved: faqs.length,
+			historyTurns: history.length,
+			chatbotOwnerId: chatbotOwnerId?.toString(),
+			chatbotOwnerUsername: chatbotOwnerProfile?.username
+		},
+	};
+}
+
+/**
+ * Collect the context entries an answer cites with [n] markers (also [1, 2]),
+ * in the order they are first cited. Markers without a matching entry are ignored.
+ */
+export function extractCitations(answer: string, sources: ChatbotCitation[]): ChatbotCitation[] {
+	const cited: ChatbotCitation[] = [];
+
+	for (const match of answer.matchAll(/\[(\d+(?:\s*,\s*\d+)*)\]/g)) {
+		for (const marker of match[1].split(',').map((value) => parseInt(value, 10))) {
+			const source = sources.find((entry) => entry.marker === marker);
+			if (source && !cited.includes(source)) {
+				cited.push(source);
+			}
 		}
+	}
 
-		// Step 3: Retrieve matching FAQs from D1 (only chatbot owner's FAQs)
-		console.log('[STEP 3] Retrieving FAQs from D1...');
-		let faqs: DbFaq[] = [];
-		if (matchingFaqIds.length > 0) {
-			try {
-				// Build query with IN clause for multiple IDs
-				const placeholders = matchingFaqIds.map(() => '?').join(',');
-				const query = `SELECT faq_id, user_id, question, answer, created_at, modified_at 
-					FROM FAQs 
-					WHERE faq_id IN (${placeholders}) AND user_id = ? 
-					ORDER BY faq_id`;
-				
-				// Convert FAQ IDs to numbers for the query
-				const faqIdNumbers = matchingFaqIds.map(id => parseInt(id, 10));
-				console.log(`[STEP 3] Querying D1 with FAQ IDs:`, faqIdNumbers, `for userId:`, chatbotOwnerId);
-				
-				const stmt = c.env.DB.prepare(query).bind(...faqIdNumbers, chatbotOwnerId);
-				const { results } = await stmt.all<DbFaq>();
-				
-				if (results) {
-					faqs = results;
-					console.log(`[STEP 3] SUCCESS: Retrieved ${faqs.length} FAQs from D1`);
-				} else {
-					console.log('[STEP 3] WARNING: D1 query returned no results');
-				}
-			} catch (error) {
-				console.error('[STEP 3] FAILED: Error querying D1:', error);
-				// Continue to fallback
+	return cited;
+}
+
+/**
+ * Run the RAG pipeline and return the complete LLM answer
+ */
+export async function runChatbotQuery(env: Env, input: ChatbotQueryInput): Promise<ChatbotQueryResult> {
+	const prepared = await prepareChatbotQuery(env, input);
+
+	// Step 6: Call LLM with RAG context
+	console.log(`[STEP 6] Calling LLM with ${prepared.messages.length} messages...`);
+
+	let answer: string;
+	try {
+		const response = await runChatModel(env.AI, prepared.chatModel, {
+			messages: prepared.messages,
+			...(prepared.temperature !== undefined && { temperature: prepared.temperature }),
+			...(prepared.maxTokens && { max_tokens: prepared.maxTokens }),
+		});
+
+		answer = response || prepared.fallbackAnswer;
+		console.log('[STEP 6] SUCCESS: LLM response generated');
+	} catch (error) {
+		console.error('[STEP 6] FAILED: Error calling LLM:', error);
+		answer = LLM_ERROR_ANSWER;
+	}
+
+	return {
+		answer,
+		contextUsed: prepared.contextUsed,
+		faqsUsed: prepared.faqsUsed,
+		citations: extractCitations(answer, prepared.sources),
+		contextFaqIds: prepared.sources.map((source) => source.faqId),
+		confidence: prepared.confidence,
+		debug: prepared.debug,
+	};
+}
+
+/**
+ * Parse the Workers AI SSE stream (`data: {"response":"..."}` lines ending with `data: [DONE]`)
+ * into response tokens
+ */
+async function* readAiTokens(reader: ReadableStreamDefaultReader<Uint8Array>): AsyncGenerator<string> {
+	const decoder = new TextDecoder();
+	let buffer = '';
+
+	try {
+		while (true) {
+			const { done, value } = await reader.read();
+			if (done) {
+				break;
 			}
-		} else {
-			// Fallback: If Vectorize returns no matches, try to get all FAQs for the user
-			// This handles cases where Vectorize might be empty or the query doesn't match
-			console.log('[STEP 3] FALLBACK: No Vectorize matches found, querying all FAQs for user from D1...');
-			try {
-				const fallbackStmt = c.env.DB.prepare(
-					'SELECT faq_id, user_id, question, answer, created_at, modified_at FROM FAQs WHERE user_id = ? ORDER BY created_at DESC LIMIT 5'
-				).bind(chatbotOwnerId);
-				const { results: fallbackResults } = await fallbackStmt.all<DbFaq>();
-				
-				if (fallbackResults && fallbackResults.length > 0) {
-					console.log(`[STEP 3] FALLBACK SUCCESS: Found ${fallbackResults.length} FAQs from D1`);
-					faqs = fallbackResults;
-				} else {
-					console.log('[STEP 3] FALLBACK: No FAQs found in D1 for user');
+
+			buffer += decoder.decode(value, { stream: true });
+			const lines = buffer.split('\n');
+			buffer = lines.pop() || '';
+
+			for (const line of lines) {
+				const trimmed = line.trim();
+				if (!trimmed.startsWith('data:')) {
+					continue;
+				}
+
+				const data = trimmed.slice('data:'.length).trim();
+				if (data === '[DONE]') {
+					return;
+				}
+
+				try {
+					const chunk = JSON.parse(data) as { response?: string };
+					if (chunk.response) {
+						yield chunk.response;
+					}
+				} catch {
+					console.warn('[STEP 6] Skipping unparsable stream chunk:', data);
 				}
-			} catch (error) {
-				console.error('[STEP 3] FALLBACK FAILED: Error querying D1 fallback:', error);
 			}
 		}
+	} finally {
+		await reader.cancel().catch(() => {});
+	}
+}
 
-		console.log(`[STEP 3] FINAL: Total FAQs retrieved: ${faqs.length}`);
-
-		// Step 4: Build context from FAQs
-		console.log('[STEP 4] Building context from FAQs...');
-		const contextMessage = faqs.length
-			? `Context from knowledge base:\n${faqs
-					.map((faq) => `Q: ${faq.question}\nA: ${faq.answer}`)
-					.join('\n\n')}`
-			: '';
-		console.log(`[STEP 4] Context message length: ${contextMessage.length} characters`);
-
-		// Step 5: Build personalized system prompt
-		console.log('[STEP 5] Building system prompt...');
-		// chatbotOwnerProfile is the user whose chatbot is being accessed (from URL /<username>)
-		const chatbotOwnerName = chatbotOwnerProfile?.name || 'the owner';
-		const chatbotOwnerBio = chatbotOwnerProfile?.bio;
-		const chatbotOwnerContext = chatbotOwnerBio ? `\n\nAbout ${chatbotOwnerName}: ${chatbotOwnerBio}` : '';
-		
-		const systemPrompt = faqs.length
-			? `You are ${chatbotOwnerName}'s professional AI assistant. You are trained to answer questions based on ${chatbotOwnerName}'s knowledge base.${chatbotOwnerContext}
-			Use the context provided from the knowledge base to answer the user's question. Absolutely do not make up information.
-			If the context contains relevant information, use it to provide a detailed and accurate answer in ${chatbotOwnerName}'s voice and style.
-			If the context doesn't contain relevant information, politely let the user know that you don't have that information in ${chatbotOwnerName}'s knowledge base, but you can try to help with general questions.`
-			: `You are ${chatbotOwnerName}'s professional AI assistant.${chatbotOwnerContext}
-			The user is asking a question, but there is no relevant information in ${chatbotOwnerName}'s knowledge base. 
-			Politely let the user know that you don't have specific information about that topic in ${chatbotOwnerName}'s knowledge base, but you can try to help with general questions.`;
-		console.log(`[STEP 5] System prompt built (${systemPrompt.length} characters)`);
-
-		// Step 6: Call LLM with RAG context
-		console.log('[STEP 6] Calling LLM...');
-		const messages: Array<{ role: string; content: string }> = [
-			{ role: 'system', content: systemPrompt },
-		];
-
-		if (contextMessage) {
-			messages.push({ role: 'system', content: contextMessage });
+/**
+ * Step 6 for streaming responses: generate the answer as text tokens
+ * Generation stops when the client disconnects. If the LLM fails before producing
+ * anything the error answer is yielded instead, and the fallback answer if it produced nothing.
+ */
+export async function* generateAnswerTokens(ai: Ai, prepared: PreparedChatbotQuery, stream: SSEStreamingApi): AsyncGenerator<string> {
+	console.log(`[STEP 6] Streaming LLM response for ${prepared.messages.length} messages...`);
+	let generated = false;
+
+	try {
+		const aiStream = await streamChatModel(ai, prepared.chatModel, {
+			messages: prepared.messages,
+			...(prepared.temperature !== undefined && { temperature: prepared.temperature }),
+			...(prepared.maxTokens && { max_tokens: prepared.maxTokens }),
+		});
+
+		const reader = aiStream.getReader();
+		stream.onAbort(async () => {
+			console.log('[STEP 6] Client disconnected, stopping generation');
+			await reader.cancel().catch(() => {});
+		});
+
+		for await (const token of readAiTokens(reader)) {
+			if (stream.aborted) {
+				break;
+			}
+			generated = true;
+			yield token;
+		}
+	} catch (error) {
+		console.error('[STEP 6] FAILED: Error streaming LLM response:', error);
+		if (!generated) {
+			generated = true;
+			yield LLM_ERROR_ANSWER;
 		}
+	}
 
-		messages.push({ role: 'user', content: question });
+	if (!generated && !stream.aborted) {
+		yield prepared.fallbackAnswer;
+	}
+}
 
-		console.log(`[STEP 6] Sending ${messages.length} messages to LLM`);
+/**
+ * Stream a chatbot answer over Server-Sent Events
+ * Events: `retrieval` (context metadata), `token` (answer text), then `done`
+ * (final summary with citations, merged with whatever onComplete returns) or `error`.
+ * If the client disconnects, generation stops and onComplete receives the partial answer.
+ */
+export function streamChatbotAnswer<E extends { Bindings: Env }>(
+	c: Context<E>,
+	prepared: PreparedChatbotQuery,
+	options: {
+		debug: boolean;
+		onComplete?: (
+			answer: string,
+			info: { aborted: boolean; citations: ChatbotCitation[] }
+		) => Promise<Record<string, unknown> | void>;
+	}
+): Response {
+	return streamSSE(c, async (stream) => {
+		let answer = '';
 
-		let answer: string;
-		try {
-			const llmResponse = await c.env.AI.run('@cf/meta/llama-3-8b-instruct', {
-				messages,
+		await stream.writeSSE({
+			event: 'retrieval',
+			data: JSON.stringify({
+				contextUsed: prepared.contextUsed,
+				faqsUsed: prepared.faqsUsed,
+				...(options.debug && { debug: prepared.debug }),
+			}),
+		});
+
+		// Step 6: Call LLM with RAG context, streaming tokens
+		for await (const token of generateAnswerTokens(c.env.AI, prepared, stream)) {
+			answer += token;
+			await stream.writeSSE({ event: 'token', data: JSON.stringify({ token }) });
+		}
+
+		console.log(`[STEP 6] ${stream.aborted ? 'ABORTED' : 'SUCCESS'}: streamed ${answer.length} characters`);
+
+		const citations = extractCitations(answer, prepared.sources);
+		const extra = options.onComplete ? await options.onComplete(answer, { aborted: stream.aborted, citations }) : undefined;
+
+		if (!stream.aborted) {
+			await stream.writeSSE({
+				event: 'done',
+				data: JSON.stringify({
+					answer,
+					contextUsed: prepared.contextUsed,
+					faqsUsed: prepared.faqsUsed,
+					citations,
+					...(extra || {}),
+				}),
 			});
+		}
+	}, async (error, stream) => {
+		console.error('Error in chatbot stream:', error);
+		await stream.writeSSE({ event: 'error', data: JSON.stringify({ error: 'Failed to process chatbot query', details: error.message }) });
+	});
+}
 
-			answer = llmResponse.response || 'I apologize, but I could not generate a response.';
-			console.log('[STEP 6] SUCCESS: LLM response generated');
-		} catch (error) {
-			console.error('[STEP 6] FAILED: Error calling LLM:', error);
-			answer = "I'm sorry, I encountered an error while processing your question. Please try again later.";
+/**
+ * Shape a pipeline result into the chatbot API response
+ * Debug information is only included when requested
+ */
+export function toChatbotResponse(result: ChatbotQueryResult, debug: boolean) {
+	return {
+		answer: result.answer,
+		contextUsed: result.contextUsed,
+		faqsUsed: result.faqsUsed,
+		citations: result.citations,
+		...(debug && { debug: result.debug }),
+	};
+}
+
+/**
+ * Error response for a failed chatbot query
+ */
+export function chatbotErrorResponse(c: Context, error: unknown): Response {
+	if (error instanceof ChatbotStepError) {
+		return c.json({ 
+			error: 'Failed to generate embedding',
+			step: error.step,
+			details: error.details
+		}, 500);
+	}
+
+	console.error('Error in chatbot query:', error);
+	const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+	const errorStack = error instanceof Error ? error.stack : undefined;
+	return c.json(
+		{
+			error: 'Failed to process chatbot query',
+			details: errorMessage,
+			...(errorStack && { stack: errorStack }),
+		},
+		500
+	);
+}
+
+/**
+ * Handle stateless chatbot query (GET /api/chatbot)
+ */
+export async function handleChatbotQuery(
+	c: Context<ApiKeyEnv>
+): Promise<Response> {
+	const startedAt = Date.now();
+	try {
+		const question = c.req.query('text') || c.req.query('question') || '';
+		// An API key always queries its owner's bot
+		const apiKey = c.get('apiKey');
+		const chatbotOwnerUserId = apiKey?.userId.toString() ?? c.req.query('userId');
+		const chatbotOwnerUsername = apiKey ? undefined : c.req.query('username'); // Username from URL /<username>
+
+		if (!question.trim()) {
+			return c.json({ error: 'Question is required' }, 400);
+		}
+
+		if (!chatbotOwnerUserId && !chatbotOwnerUsername) {
+			return c.json({ error: 'userId or username is required' }, 400);
+		}
+
+		const owner = await resolveChatbotOwner(c.env.DB, { userId: chatbotOwnerUserId, username: chatbotOwnerUsername });
+		if (!owner) {
+			return c.json({ error: 'Chatbot owner not found' }, 404);
+		}
+
+		if (!isOriginAllowed(c, owner.settings)) {
+			return forbiddenOriginResponse(c);
 		}
 
+		const limited = await checkBotRateLimit(c.env, owner.ownerId);
+		if (limited) {
+			return rateLimitResponse(c, limited);
+		}
+
+		const result = await runChatbotQuery(c.env, { question, owner });
+		trackUnansweredQuestion(c, owner.ownerId, question, result);
+		trackQueryEvent(c, {
+			userId: owner.ownerId,
+			startedAt,
+			contextUsed: result.contextUsed,
+			faqIds: result.contextFaqIds,
+			citations: result.citations,
+			confidence: result.confidence,
+		});
+
 		// Check if debug mode is enabled
 		const debug = c.req.query('debug') === 'true';
 
-		const response: any = {
-			answer,
-			contextUsed: faqs.length > 0,
-			faqsUsed: faqs.length,
-		};
+		return c.json(toChatbotResponse(result, debug));
+	} catch (error) {
+		return chatbotErrorResponse(c, error);
+	}
+}
 
-		// Include debug information if requested
-		if (debug) {
-			response.debug = {
-				steps: {
-					step0: 'Chatbot query initiated',
-					step1: 'Embedding generation',
-					step2: 'Vectorize query',
-					step2_5: 'UserId filtering',
-					step3: 'D1 retrieval',
-					step4: 'Context building',
-					step5: 'Prompt building',
-					step6: 'LLM generation'
-				},
-				vectorizeMatches: vectorQuery?.matches?.length || 0,
-				matchingFaqIds: matchingFaqIds,
-				faqsRetrieved: faqs.length,
-				chatbotOwnerId: chatbotOwnerId?.toString(),
-				chatbotOwnerUsername: chatbotOwnerProfile?.username
-			};
+/**
+ * Handle streaming chatbot query (GET /api/chatbot/stream)
+ * Same parameters as GET /api/chatbot, answered over Server-Sent Events
+ */
+export async function handleChatbotStream(
+	c: Context<ApiKeyEnv>
+): Promise<Response> {
+	const startedAt = Date.now();
+	try {
+		const question = c.req.query('text') || c.req.query('question') || '';
+		const apiKey = c.get('apiKey');
+		const chatbotOwnerUserId = apiKey?.userId.toString() ?? c.req.query('userId');
+		const chatbotOwnerUsername = apiKey ? undefined : c.req.query('username');
+
+		if (!question.trim()) {
+			return c.json({ error: 'Question is required' }, 400);
 		}
 
-		return c.json(response);
-	} catch (error) {
-		console.error('Error in chatbot query:', error);
-		const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-		const errorStack = error instanceof Error ? error.stack : undefined;
-		return c.json(
-			{
-				error: 'Failed to process chatbot query',
-				details: errorMessage,
-				...(errorStack && { stack: errorStack }),
+		if (!chatbotOwnerUserId && !chatbotOwnerUsername) {
+			return c.json({ error: 'userId or username is required' }, 400);
+		}
+
+		const owner = await resolveChatbotOwner(c.env.DB, { userId: chatbotOwnerUserId, username: chatbotOwnerUsername });
+		if (!owner) {
+			return c.json({ error: 'Chatbot owner not found' }, 404);
+		}
+
+		if (!isOriginAllowed(c, owner.settings)) {
+			return forbiddenOriginResponse(c);
+		}
+
+		const limited = await checkBotRateLimit(c.env, owner.ownerId);
+		if (limited) {
+			return rateLimitResponse(c, limited);
+		}
+
+		// Retrieval runs before the stream opens so failures still return a JSON error
+		const prepared = await prepareChatbotQuery(c.env, { question, owner });
+
+		return streamChatbotAnswer(c, prepared, {
+			debug: c.req.query('debug') === 'true',
+			onComplete: async (answer, { aborted, citations }) => {
+				if (!aborted) {
+					trackUnansweredQuestion(c, owner.ownerId, question, prepared);
+					trackQueryEvent(c, {
+						userId: owner.ownerId,
+						startedAt,
+						contextUsed: prepared.contextUsed,
+						faqIds: prepared.sources.map((source) => source.faqId),
+						citations,
+						confidence: prepared.confidence,
+					});
+				}
 			},
-			500
-		);
+		});
+	} catch (error) {
+		return chatbotErrorResponse(c, error);
 	}
 }
-
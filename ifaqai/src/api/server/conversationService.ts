@@ -0,0 +1,450 @@
+/**
+ * Chatbot conversation service
+ * Stores conversation turns in D1 so follow-up questions keep their context
+ */
+
+import type { Context } from 'hono';
+import type { Env } from '../../types/env';
+import type {
+	ChatbotCitation,
+	ChatMessageRole,
+	Conversation,
+	ConversationMessage,
+	ExportedConversation,
+	FeedbackRating,
+} from '../types';
+import {
+	MAX_HISTORY_TURNS,
+	type ChatbotQueryInput,
+	chatbotErrorResponse,
+	prepareChatbotQuery,
+	resolveChatbotOwner,
+	runChatbotQuery,
+	streamChatbotAnswer,
+	toChatbotResponse,
+} from './chatbotService';
+import { trackUnansweredQuestion } from './unansweredService';
+import { trackQueryEvent } from './analyticsService';
+import type { ApiKeyEnv } from './authMiddleware';
+import { checkBotRateLimit, rateLimitResponse } from './rateLimiter';
+import { getBotSettings } from './botSettingsService';
+import { forbiddenOriginResponse, isOriginAllowed } from './widgetCors';
+
+interface DbConversation {
+	conversation_id: string;
+	user_id: number;
+	user_name: string;
+	created_at: string;
+	modified_at?: string | null;
+}
+
+interface DbMessage {
+	message_id: number;
+	conversation_id: string;
+	role: ChatMessageRole;
+	content: string;
+	citations?: string | null;
+	feedback_rating?: number | null;
+	feedback_comment?: string | null;
+	feedback_created_at?: string | null;
+	created_at: string;
+}
+
+// Messages returned when resuming a conversation
+const MAX_RESUME_MESSAGES = 100;
+
+function dbMessageToMessage(dbMessage: DbMessage): ConversationMessage {
+	return {
+		id: dbMessage.message_id.toString(),
+		role: dbMessage.role,
+		content: dbMessage.content,
+		...(dbMessage.citations && { citations: JSON.parse(dbMessage.citations) as ChatbotCitation[] }),
+		...(dbMessage.feedback_rating && {
+			feedback: {
+				rating: (dbMessage.feedback_rating > 0 ? 'up' : 'down') as FeedbackRating,
+				comment: dbMessage.feedback_comment || undefined,
+				createdAt: dbMessage.feedback_created_at || dbMessage.created_at,
+			},
+		}),
+		createdAt: dbMessage.created_at,
+	};
+}
+
+export async function getConversationById(db: D1Database, conversationId: string): Promise<DbConversation | null> {
+	const stmt = db
+		.prepare(
+			`SELECT c.conversation_id, c.user_id, u.user_name, c.created_at, c.modified_at
+			FROM Conversations c
+			JOIN Users u ON u.user_id = c.user_id
+			WHERE c.conversation_id = ?`
+		)
+		.bind(conversationId);
+
+	const result = await stmt.first<DbConversation>();
+	return result || null;
+}
+
+/**
+ * Every conversation of a chatbot owner with all of its messages, oldest first
+ */
+export async function getOwnerConversations(db: D1Database, userId: string | number): Promise<ExportedConversation[]> {
+	const { results: conversations } = await db
+		.prepare('SELECT conversation_id, created_at, modified_at FROM Conversations WHERE user_id = ? ORDER BY created_at')
+		.bind(userId)
+		.all<Pick<DbConversation, 'conversation_id' | 'created_at' | 'modified_at'>>();
+
+	const { results: messages } = await db
+		.prepare(
+			`SELECT m.message_id, m.conversation_id, m.role, m.content, m.citations, m.created_at,
+				f.rating AS feedback_rating, f.comment AS feedback_comment, COALESCE(f.modified_at, f.created_at) AS feedback_created_at
+			FROM Messages m
+			JOIN Conversations c ON c.conversation_id = m.conversation_id
+			LEFT JOIN MessageFeedback f ON f.message_id = m.message_id
+			WHERE c.user_id = ?
+			ORDER BY m.message_id`
+		)
+		.bind(userId)
+		.all<DbMessage>();
+
+	const messagesByConversation = new Map<string, ConversationMessage[]>();
+	for (const message of messages || []) {
+		const conversationMessages = messagesByConversation.get(message.conversation_id) || [];
+		conversationMessages.push(dbMessageToMessage(message));
+		messagesByConversation.set(message.conversation_id, conversationMessages);
+	}
+
+	return (conversations || []).map((conversation) => ({
+		conversationId: conversation.conversation_id,
+		createdAt: conversation.created_at,
+		...(conversation.modified_at && { modifiedAt: conversation.modified_at }),
+		messages: messagesByConversation.get(conversation.conversation_id) || [],
+	}));
+}
+
+/**
+ * Get the most recent messages of a conversation, oldest first
+ */
+export async function getRecentMessages(
+	db: D1Database,
+	conversationId: string,
+	limit: number
+): Promise<ConversationMessage[]> {
+	const { results } = await db
+		.prepare(
+			`SELECT m.message_id, m.conversation_id, m.role, m.content, m.citations, m.created_at,
+				f.rating AS feedback_rating, f.comment AS feedback_comment, COALESCE(f.modified_at, f.created_at) AS feedback_created_at
+			FROM Messages m
+			LEFT JOIN MessageFeedback f ON f.message_id = m.message_id
+			WHERE m.conversation_id = ?
+			ORDER BY m.message_id DESC
+			LIMIT ?`
+		)
+		.bind(conversationId, limit)
+		.all<DbMessage>();
+
+	return (results || []).reverse().map(dbMessageToMessage);
+}
+
+/**
+ * Append a user question and the assistant answer (with its citations and the
+ * FAQ ids it used as context) to a conversation
+ */
+export async function appendConversationTurn(
+	db: D1Database,
+	conversationId: string,
+	question: string,
+	answer: string,
+	citations: ChatbotCitation[] = [],
+	faqIds: string[] = []
+): Promise<{ userMessage: ConversationMessage; assistantMessage: ConversationMessage }> {
+	const createdAt = new Date().toISOString();
+	const insert = 'INSERT INTO Messages (conversation_id, role, content, citations, faq_ids, created_at) VALUES (?, ?, ?, ?, ?, ?)';
+
+	const [userResult, assistantResult] = await db.batch([
+		db.prepare(insert).bind(conversationId, 'user', question, null, null, createdAt),
+		db
+			.prepare(insert)
+			.bind(
+				conversationId,
+				'assistant',
+				answer,
+				citations.length ? JSON.stringify(citations) : null,
+				faqIds.length ? JSON.stringify(faqIds.map(Number)) : null,
+				createdAt
+			),
+		db.prepare('UPDATE Conversations SET modified_at = ? WHERE conversation_id = ?').bind(createdAt, conversationId),
+	]);
+
+	return {
+		userMessage: {
+			id: String(userResult.meta.last_row_id),
+			role: 'user',
+			content: question,
+			createdAt,
+		},
+		assistantMessage: {
+			id: String(assistantResult.meta.last_row_id),
+			role: 'assistant',
+			content: answer,
+			citations,
+			createdAt,
+		},
+	};
+}
+
+/**
+ * API keys only reach conversations with their owner's bot; anonymous visitors reach any
+ */
+function isConversationVisible(c: Context<ApiKeyEnv>, conversation: DbConversation): boolean {
+	const apiKey = c.get('apiKey');
+	return !apiKey || apiKey.userId.toString() === conversation.user_id.toString();
+}
+
+/**
+ * Handle POST /api/chatbot/conversations
+ * Starts a conversation with a user's chatbot
+ */
+export async function handleCreateConversation(
+	c: Context<ApiKeyEnv>
+): Promise<Response> {
+	try {
+		const body = await c.req.json().catch(() => ({}));
+		const { username: requestedUsername } = body as { username?: string };
+		// An API key always talks to its owner's bot
+		const apiKey = c.get('apiKey');
+
+		if (!requestedUsername && !apiKey) {
+			return c.json({ error: 'username is required' }, 400);
+		}
+
+		const owner = await resolveChatbotOwner(c.env.DB, apiKey ? { userId: apiKey.userId } : { username: requestedUsername });
+		if (!owner) {
+			return c.json({ error: 'Chatbot owner not found' }, 404);
+		}
+		// The widget CORS check ran against the query owner; the bot is chosen by the body
+		if (!isOriginAllowed(c, owner.settings)) {
+			return forbiddenOriginResponse(c);
+		}
+
+		const username = owner.profile?.username ?? requestedUsername ?? '';
+
+		const conversationId = crypto.randomUUID();
+		const createdAt = new Date().toISOString();
+
+		await c.env.DB.prepare('INSERT INTO Conversations (conversation_id, user_id, created_at) VALUES (?, ?, ?)')
+			.bind(conversationId, owner.ownerId, createdAt)
+			.run();
+
+		console.log(`[CONVERSATION] Created conversation ${conversationId} for chatbot ${username}`);
+
+		const conversation: Conversation = {
+			conversationId,
+			username,
+			messages: [],
+			createdAt,
+		};
+
+		return c.json(conversation, 201);
+	} catch (error) {
+		console.error('[CONVERSATION] Error creating conversation:', error);
+		const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+		return c.json({ error: 'Failed to create conversation', details: errorMessage }, 500);
+	}
+}
+
+/**
+ * Handle GET /api/chatbot/conversations/:id
+ * Returns the conversation with its most recent messages so it can be resumed
+ */
+export async function handleGetConversation(
+	c: Context<ApiKeyEnv>
+): Promise<Response> {
+	const conversationId = c.req.param('id');
+
+	if (!conversationId) {
+		return c.json({ error: 'Conversation id is required' }, 400);
+	}
+
+	try {
+		const conversation = await getConversationById(c.env.DB, conversationId);
+		if (!conversation || !isConversationVisible(c, conversation)) {
+			return c.json({ error: 'Conversation not found' }, 404);
+		}
+		if (!isOriginAllowed(c, await getBotSettings(c.env.DB, conversation.user_id))) {
+			return forbiddenOriginResponse(c);
+		}
+
+		const messages = await getRecentMessages(c.env.DB, conversationId, MAX_RESUME_MESSAGES);
+
+		const response: Conversation = {
+			conversationId: conversation.conversation_id,
+			username: conversation.user_name,
+			messages,
+			createdAt: conversation.created_at,
+			modifiedAt: conversation.modified_at || undefined,
+		};
+
+		return c.json(response);
+	} catch (error) {
+		console.error('[CONVERSATION] Error fetching conversation:', error);
+		const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+		return c.json({ error: 'Failed to fetch conversation', details: errorMessage }, 500);
+	}
+}
+
+/**
+ * Validate a posted conversation message and load what the RAG pipeline needs
+ * @returns The pipeline input, or an error response
+ */
+async function loadConversationQuery(
+	c: Context<ApiKeyEnv>
+): Promise<Response | { conversationId: string; input: ChatbotQueryInput }> {
+	const conversationId = c.req.param('id');
+
+	if (!conversationId) {
+		return c.json({ error: 'Conversation id is required' }, 400);
+	}
+
+	const body = await c.req.json().catch(() => ({}));
+	const { text } = body as { text?: string };
+	const question = text?.trim() || '';
+
+	if (!question) {
+		return c.json({ error: 'Question is required' }, 400);
+	}
+
+	const conversation = await getConversationById(c.env.DB, conversationId);
+	if (!conversation || !isConversationVisible(c, conversation)) {
+		return c.json({ error: 'Conversation not found' }, 404);
+	}
+
+	const owner = await resolveChatbotOwner(c.env.DB, { userId: conversation.user_id });
+	if (!owner) {
+		return c.json({ error: 'Chatbot owner not found' }, 404);
+	}
+	if (!isOriginAllowed(c, owner.settings)) {
+		return forbiddenOriginResponse(c);
+	}
+
+	const limited = await checkBotRateLimit(c.env, owner.ownerId);
+	if (limited) {
+		return rateLimitResponse(c, limited);
+	}
+
+	const history = await getRecentMessages(c.env.DB, conversationId, MAX_HISTORY_TURNS);
+
+	return {
+		conversationId,
+		input: {
+			question,
+			owner,
+			history: history.map((message) => ({ role: message.role, content: message.content })),
+		},
+	};
+}
+
+/**
+ * Handle POST /api/chatbot/conversations/:id/messages
+ * Answers a question using the RAG pipeline with prior turns as context
+ */
+export async function handlePostConversationMessage(
+	c: Context<ApiKeyEnv>
+): Promise<Response> {
+	const startedAt = Date.now();
+	try {
+		const loaded = await loadConversationQuery(c);
+		if (loaded instanceof Response) {
+			return loaded;
+		}
+
+		const { conversationId, input } = loaded;
+		const result = await runChatbotQuery(c.env, input);
+		trackUnansweredQuestion(c, input.owner.ownerId, input.question, result);
+
+		const { userMessage, assistantMessage } = await appendConversationTurn(
+			c.env.DB,
+			conversationId,
+			input.question,
+			result.answer,
+			result.citations,
+			result.contextFaqIds
+		);
+		trackQueryEvent(c, {
+			userId: input.owner.ownerId,
+			conversationId,
+			messageId: assistantMessage.id,
+			startedAt,
+			contextUsed: result.contextUsed,
+			faqIds: result.contextFaqIds,
+			citations: result.citations,
+			confidence: result.confidence,
+		});
+
+		// Check if debug mode is enabled
+		const debug = c.req.query('debug') === 'true';
+
+		return c.json({
+			conversationId,
+			userMessage,
+			assistantMessage,
+			...toChatbotResponse(result, debug),
+		});
+	} catch (error) {
+		return chatbotErrorResponse(c, error);
+	}
+}
+
+/**
+ * Handle POST /api/chatbot/conversations/:id/messages/stream
+ * Same as posting a message, but the answer is streamed over Server-Sent Events.
+ * The turn is stored once generation finishes (or with the partial answer if the visitor cancels).
+ */
+export async function handlePostConversationMessageStream(
+	c: Context<ApiKeyEnv>
+): Promise<Response> {
+	const startedAt = Date.now();
+	try {
+		const loaded = await loadConversationQuery(c);
+		if (loaded instanceof Response) {
+			return loaded;
+		}
+
+		const { conversationId, input } = loaded;
+
+		// Retrieval runs before the stream opens so failures still return a JSON error
+		const prepared = await prepareChatbotQuery(c.env, input);
+
+		return streamChatbotAnswer(c, prepared, {
+			debug: c.req.query('debug') === 'true',
+			onComplete: async (answer, { aborted, citations }) => {
+				if (!answer) {
+					return;
+				}
+
+				const faqIds = prepared.sources.map((source) => source.faqId);
+				const saveTurn = appendConversationTurn(c.env.DB, conversationId, input.question, answer, citations, faqIds);
+				if (aborted) {
+					// The response is gone; keep the worker alive until the turn is stored
+					c.executionCtx.waitUntil(saveTurn.catch((error) => console.error('[CONVERSATION] Error saving cancelled turn:', error)));
+					return;
+				}
+
+				trackUnansweredQuestion(c, input.owner.ownerId, input.question, prepared);
+				const { userMessage, assistantMessage } = await saveTurn;
+				trackQueryEvent(c, {
+					userId: input.owner.ownerId,
+					conversationId,
+					messageId: assistantMessage.id,
+					startedAt,
+					contextUsed: prepared.contextUsed,
+					faqIds,
+					citations,
+					confidence: prepared.confidence,
+				});
+				return { conversationId, userMessage, assistantMessage };
+			},
+		});
+	} catch (error) {
+		return chatbotErrorResponse(c, error);
+	}
+}
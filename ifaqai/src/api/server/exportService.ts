@@ -0,0 +1,153 @@
+/**
+ * Export service
+ * Produces a downloadable copy of an owner's knowledge base: a versioned JSON
+ * archive (profile, bot settings, FAQs, conversations) and CSV files.
+ * The JSON archive and the FAQ CSV can be fed back into the FAQ import.
+ */
+
+import type { Context } from 'hono';
+import type { ExportedFaq, KnowledgeBaseExport } from '../types';
+import type { AuthEnv, AuthUser } from './authMiddleware';
+import { getBotSettings } from './botSettingsService';
+import { getOwnerConversations } from './conversationService';
+
+export const EXPORT_FORMAT = 'ifaqai-export';
+// Bump when the archive layout changes, and teach the import to read older versions
+export const EXPORT_VERSION = 1;
+
+/**
+ * Quote a CSV field when it contains a delimiter, quote or line break
+ */
+function toCsvField(value: string | number | null | undefined): string {
+	const text = value === null || value === undefined ? '' : String(value);
+	return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(rows: Array<Array<string | number | null | undefined>>): string {
+	return rows.map((row) => row.map(toCsvField).join(',')).join('\r\n') + '\r\n';
+}
+
+function getExportFileName(user: AuthUser, extension: string, suffix = ''): string {
+	const date = new Date().toISOString().slice(0, 10);
+	return `ifaqai-${user.username || user.userId}${suffix}-${date}.${extension}`;
+}
+
+function attachment(c: Context<AuthEnv>, body: string, contentType: string, fileName: string): Response {
+	return c.body(body, 200, {
+		'Content-Type': contentType,
+		'Content-Disposition': `attachment; filename="${fileName}"`,
+	});
+}
+
+async function getExportedFaqs(db: D1Database, userId: string | number): Promise<ExportedFaq[]> {
+	const { results } = await db
+		.prepare('SELECT faq_id, question, answer, created_at, modified_at FROM FAQs WHERE user_id = ? ORDER BY faq_id')
+		.bind(userId)
+		.all<{ faq_id: number; question: string; answer: string; created_at: string; modified_at: string | null }>();
+
+	return (results || []).map((faq) => ({
+		id: faq.faq_id.toString(),
+		question: faq.question,
+		answer: faq.answer,
+		createdAt: faq.created_at,
+		...(faq.modified_at && { modifiedAt: faq.modified_at }),
+	}));
+}
+
+/**
+ * Build the JSON archive of an owner's knowledge base
+ */
+export async function buildKnowledgeBaseExport(db: D1Database, user: AuthUser): Promise<KnowledgeBaseExport> {
+	const { pendingEmbeddingModel: _pending, ...botSettings } = await getBotSettings(db, user.userId);
+
+	return {
+		format: EXPORT_FORMAT,
+		version: EXPORT_VERSION,
+		exportedAt: new Date().toISOString(),
+		profile: {
+			username: user.username,
+			name: user.name,
+			email: user.email,
+			...(user.bio && { bio: user.bio }),
+			minRelevanceScore: user.minRelevanceScore ?? null,
+			rerankEnabled: user.rerankEnabled ?? false,
+			...(user.createdAt && { createdAt: user.createdAt }),
+		},
+		botSettings,
+		faqs: await getExportedFaqs(db, user.userId),
+		conversations: await getOwnerConversations(db, user.userId),
+	};
+}
+
+/**
+ * Handle GET /api/export
+ * Downloads the authenticated user's knowledge base as a JSON archive
+ */
+export async function handleExportJson(c: Context<AuthEnv>): Promise<Response> {
+	try {
+		const user = c.get('authUser');
+		const archive = await buildKnowledgeBaseExport(c.env.DB, user);
+
+		console.log(`[EXPORT] User ${user.userId}: ${archive.faqs.length} FAQs, ${archive.conversations.length} conversations`);
+
+		return attachment(c, JSON.stringify(archive, null, 2), 'application/json; charset=utf-8', getExportFileName(user, 'json'));
+	} catch (error) {
+		console.error('[EXPORT] Error exporting knowledge base:', error);
+		const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+		return c.json({ error: 'Failed to export knowledge base', details: errorMessage }, 500);
+	}
+}
+
+/**
+ * Handle GET /api/export/faqs.csv
+ * Columns: question, answer, created_at, modified_at (importable as CSV)
+ */
+export async function handleExportFaqsCsv(c: Context<AuthEnv>): Promise<Response> {
+	try {
+		const user = c.get('authUser');
+		const faqs = await getExportedFaqs(c.env.DB, user.userId);
+		const csv = toCsv([
+			['question', 'answer', 'created_at', 'modified_at'],
+			...faqs.map((faq) => [faq.question, faq.answer, faq.createdAt, faq.modifiedAt]),
+		]);
+
+		return attachment(c, csv, 'text/csv; charset=utf-8', getExportFileName(user, 'csv', '-faqs'));
+	} catch (error) {
+		console.error('[EXPORT] Error exporting FAQs:', error);
+		const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+		return c.json({ error: 'Failed to export FAQs', details: errorMessage }, 500);
+	}
+}
+
+/**
+ * Handle GET /api/export/conversations.csv
+ * One row per message, with the FAQs it cited and the visitor's feedback
+ */
+export async function handleExportConversationsCsv(c: Context<AuthEnv>): Promise<Response> {
+	try {
+		const user = c.get('authUser');
+		const conversations = await getOwnerConversations(c.env.DB, user.userId);
+		const rows = conversations.flatMap((conversation) =>
+			conversation.messages.map((message) => [
+				conversation.conversationId,
+				message.id,
+				message.role,
+				message.content,
+				message.createdAt,
+				(message.citations || []).map((citation) => citation.faqId).join(' '),
+				message.feedback?.rating,
+				message.feedback?.comment,
+			])
+		);
+		const csv = toCsv([
+			['conversation_id', 'message_id', 'role', 'content', 'created_at', 'cited_faq_ids', 'feedback_rating', 'feedback_comment'],
+			...rows,
+		]);
+
+		return attachment(c, csv, 'text/csv; charset=utf-8', getExportFileName(user, 'csv', '-conversations'));
+	} catch (error) {
+		console.error('[EXPORT] Error exporting conversations:', error);
+		const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+		return c.json({ error: 'Failed to export conversations', details: errorMessage }, 500);
+	}
+}
@@ -0,0 +1,390 @@
+/**
+ * FAQ import service
+ * Parses bulk FAQ files (CSV, JSON, Markdown) into a validated preview and
+ * starts a single FaqImportWorkflow that ingests them in batches
+ */
+
+import type { Context } from 'hono';
+import type { FaqImportError, FaqImportFormat, FaqImportItem, FaqImportPreview, FaqImportStatus } from '../types';
+import type { AuthEnv } from './authMiddleware';
+import { EXPORT_FORMAT, EXPORT_VERSION } from './exportService';
+
+interface DbFaqImport {
+	import_id: string;
+	status: FaqImportStatus['status'];
+	total: number;
+	processed: number;
+	error: string | null;
+	created_at: string;
+}
+
+const FAQ_IMPORT_FORMATS: FaqImportFormat[] = ['csv', 'json', 'markdown'];
+// Keeps the workflow payload well under the 1 MiB limit
+const MAX_IMPORT_BYTES = 512 * 1024;
+const MAX_IMPORT_FAQS = 1000;
+const MAX_QUESTION_CHARS = 1000;
+const MAX_ANSWER_CHARS = 10000;
+
+type ParsedRow = { row: number; question: unknown; answer: unknown };
+
+/**
+ * Split CSV text into records, honouring quoted fields (with "" escapes and line breaks)
+ */
+export function parseCsvRecords(content: string): { records: Array<{ line: number; fields: string[] }>; error?: FaqImportError } {
+	const records: Array<{ line: number; fields: string[] }> = [];
+	let fields: string[] = [];
+	let field = '';
+	let inQuotes = false;
+	let line = 1;
+	let recordLine = 1;
+	let quoteLine = 1;
+
+	const endRecord = () => {
+		fields.push(field);
+		if (fields.some((value) => value.trim() !== '')) {
+			records.push({ line: recordLine, fields });
+		}
+		fields = [];
+		field = '';
+	};
+
+	for (let i = 0; i < content.length; i++) {
+		const char = content[i];
+
+		if (inQuotes) {
+			if (char === '"' && content[i + 1] === '"') {
+				field += '"';
+				i++;
+			} else if (char === '"') {
+				inQuotes = false;
+			} else {
+				if (char === '\n') line++;
+				field += char;
+			}
+			continue;
+		}
+
+		if (char === '"') {
+			inQuotes = true;
+			quoteLine = line;
+		} else if (char === ',') {
+			fields.push(field);
+			field = '';
+		} else if (char === '\n') {
+			endRecord();
+			line++;
+			recordLine = line;
+		} else if (char !== '\r') {
+			field += char;
+		}
+	}
+
+	if (inQuotes) {
+		return { records, error: { row: quoteLine, message: 'Unterminated quoted field' } };
+	}
+	endRecord();
+
+	return { records };
+}
+
+function parseCsv(content: string): { rows: ParsedRow[]; errors: FaqImportError[] } {
+	const { records, error } = parseCsvRecords(content);
+	if (error) {
+		return { rows: [], errors: [error] };
+	}
+
+	const rows: ParsedRow[] = [];
+	const errors: FaqImportError[] = [];
+
+	// Optional header row; with a header the columns are found by name and
+	// extra columns (such as the timestamps of an export) are ignored
+	const [first] = records;
+	const header = first ? first.fields.map((field) => field.trim().toLowerCase()) : [];
+	const hasHeader = header.includes('question') && header.includes('answer');
+	const questionColumn = hasHeader ? header.indexOf('question') : 0;
+	const answerColumn = hasHeader ? header.indexOf('answer') : 1;
+
+	for (const record of hasHeader ? records.slice(1) : records) {
+		if (!hasHeader && record.fields.length !== 2) {
+			errors.push({
+				row: record.line,
+				message: `Expected 2 columns (question,answer), found ${record.fields.length}. Quote fields that contain commas`,
+			});
+			continue;
+		}
+		rows.push({ row: record.line, question: record.fields[questionColumn], answer: record.fields[answerColumn] });
+	}
+
+	return { rows, errors };
+}
+
+function parseJson(content: string): { rows: ParsedRow[]; errors: FaqImportError[] } {
+	let data: unknown;
+	try {
+		data = JSON.parse(content);
+	} catch (error) {
+		return { rows: [], errors: [{ row: 1, message: `Invalid JSON: ${error instanceof Error ? error.message : 'parse error'}` }] };
+	}
+
+	// A knowledge base export: import its FAQs
+	if (data && typeof data === 'object' && (data as { format?: unknown }).format === EXPORT_FORMAT) {
+		const archive = data as { version?: unknown; faqs?: unknown };
+		if (typeof archive.version !== 'number' || archive.version > EXPORT_VERSION) {
+			return { rows: [], errors: [{ row: 1, message: `Unsupported export version: ${String(archive.version)}` }] };
+		}
+		data = archive.faqs;
+	}
+
+	if (!Array.isArray(data)) {
+		return { rows: [], errors: [{ row: 1, message: 'Expected a JSON array of { "question", "answer" } objects or an ifaqai export' }] };
+	}
+
+	const rows: ParsedRow[] = [];
+	const errors: FaqImportError[] = [];
+	data.forEach((entry, index) => {
+		if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+			errors.push({ row: index + 1, message: 'Expected an object with question and answer' });
+			return;
+		}
+		const { question, answer } = entry as { question?: unknown; answer?: unknown };
+		rows.push({ row: index + 1, question, answer });
+	});
+
+	return { rows, errors };
+}
+
+/**
+ * Markdown: every `## ` heading is a question, the text up to the next heading its answer
+ * Text before the first question and `# ` title headings are ignored
+ */
+export function parseMarkdown(content: string): { rows: ParsedRow[]; errors: FaqImportError[] } {
+	const rows: ParsedRow[] = [];
+	let current: { row: number; question: string; lines: string[] } | null = null;
+
+	const flush = () => {
+		if (current) {
+			rows.push({ row: current.row, question: current.question, answer: current.lines.join('\n') });
+		}
+		current = null;
+	};
+
+	content.split(/\r?\n/).forEach((text, index) => {
+		const question = text.match(/^##(?!#)\s+(.*?)\s*#*\s*$/);
+		if (question) {
+			flush();
+			current = { row: index + 1, question: question[1], lines: [] };
+		} else if (/^#(?!#)\s/.test(text)) {
+			flush();
+		} else if (current) {
+			current.lines.push(text);
+		}
+	});
+	flush();
+
+	if (rows.length === 0) {
+		return { rows, errors: [{ row: 1, message: 'No "## " question headings found' }] };
+	}
+
+	return { rows, errors: [] };
+}
+
+/**
+ * Key used to detect duplicate questions (case, spacing and trailing punctuation ignored)
+ */
+function normalizeQuestion(question: string): string {
+	return question.toLowerCase().replace(/\s+/g, ' ').replace(/[\s?!.]+$/, '').trim();
+}
+
+/**
+ * Parse and validate an import file against the owner's existing FAQs
+ */
+export function buildImportPreview(format: FaqImportFormat, content: string, existingQuestions: string[]): FaqImportPreview {
+	const parsed = format === 'csv' ? parseCsv(content) : format === 'json' ? parseJson(content) : parseMarkdown(content);
+	const errors = [...parsed.errors];
+	const items: FaqImportItem[] = [];
+	const existing = new Set(existingQuestions.map(normalizeQuestion));
+	const seen = new Set<string>();
+
+	for (const { row, question, answer } of parsed.rows) {
+		if (typeof question !== 'string' || !question.trim()) {
+			errors.push({ row, message: 'Question is required' });
+			continue;
+		}
+		if (typeof answer !== 'string' || !answer.trim()) {
+			errors.push({ row, message: 'Answer is required' });
+			continue;
+		}
+		if (question.trim().length > MAX_QUESTION_CHARS) {
+			errors.push({ row, message: `Question must be at most ${MAX_QUESTION_CHARS} characters` });
+			continue;
+		}
+		if (answer.trim().length > MAX_ANSWER_CHARS) {
+			errors.push({ row, message: `Answer must be at most ${MAX_ANSWER_CHARS} characters` });
+			continue;
+		}
+
+		const key = normalizeQuestion(question);
+		const item: FaqImportItem = { row, question: question.trim(), answer: answer.trim() };
+		if (existing.has(key)) {
+			item.duplicateOf = 'existing';
+		} else if (seen.has(key)) {
+			item.duplicateOf = 'file';
+		}
+		seen.add(key);
+		items.push(item);
+	}
+
+	if (items.length > MAX_IMPORT_FAQS) {
+		errors.push({ row: items[MAX_IMPORT_FAQS].row, message: `At most ${MAX_IMPORT_FAQS} FAQs can be imported at once` });
+	}
+
+	errors.sort((a, b) => a.row - b.row);
+	return { format, items, errors };
+}
+
+/**
+ * Validate the import request body and build its preview
+ * @returns The preview, or an error response
+ */
+async function loadImportPreview(c: Context<AuthEnv>): Promise<Response | { preview: FaqImportPreview; body: Record<string, unknown> }> {
+	const body = (await c.req.json().catch(() => ({}))) as Record<string, unknown>;
+	const { format, content } = body as { format?: FaqImportFormat; content?: unknown };
+
+	if (!format || !FAQ_IMPORT_FORMATS.includes(format)) {
+		return c.json({ error: `format must be one of: ${FAQ_IMPORT_FORMATS.join(', ')}` }, 400);
+	}
+	if (typeof content !== 'string' || !content.trim()) {
+		return c.json({ error: 'content is required' }, 400);
+	}
+	if (new TextEncoder().encode(content).length > MAX_IMPORT_BYTES) {
+		return c.json({ error: `content must be at most ${MAX_IMPORT_BYTES / 1024} KB` }, 400);
+	}
+
+	const userId = c.get('authUser').userId;
+	const { results } = await c.env.DB.prepare('SELECT question FROM FAQs WHERE user_id = ?')
+		.bind(userId)
+		.all<{ question: string }>();
+
+	return {
+		preview: buildImportPreview(format, content, (results || []).map((row) => row.question)),
+		body,
+	};
+}
+
+/**
+ * Handle POST /api/faqs/import/preview
+ * Parses an import file and reports validation errors and duplicates without importing
+ */
+export async function handlePreviewFaqImport(c: Context<AuthEnv>): Promise<Response> {
+	try {
+		const loaded = await loadImportPreview(c);
+		if (loaded instanceof Response) {
+			return loaded;
+		}
+		return c.json(loaded.preview);
+	} catch (error) {
+		console.error('[IMPORT] Error previewing import:', error);
+		const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+		return c.json({ error: 'Failed to preview import', details: errorMessage }, 500);
+	}
+}
+
+/**
+ * Handle POST /api/faqs/import
+ * Starts the FaqImportWorkflow for a valid import file
+ * Duplicates are skipped unless skipDuplicates is false
+ */
+export async function handleStartFaqImport(c: Context<AuthEnv>): Promise<Response> {
+	try {
+		const loaded = await loadImportPreview(c);
+		if (loaded instanceof Response) {
+			return loaded;
+		}
+
+		const { preview, body } = loaded;
+		if (preview.errors.length > 0) {
+			return c.json({ error: 'Import has validation errors', errors: preview.errors }, 400);
+		}
+
+		const skipDuplicates = body.skipDuplicates !== false;
+		const faqs = preview.items
+			.filter((item) => !(skipDuplicates && item.duplicateOf))
+			.map(({ question, answer }) => ({ question, answer }));
+
+		if (faqs.length === 0) {
+			return c.json({ error: 'No new FAQs to import' }, 400);
+		}
+
+		const userId = c.get('authUser').userId;
+		const importId = crypto.randomUUID();
+
+		// The progress row exists before the workflow can update it
+		await c.env.DB.prepare('INSERT INTO FaqImports (import_id, user_id, format, total, created_at) VALUES (?, ?, ?, ?, ?)')
+			.bind(importId, userId, preview.format, faqs.length, new Date().toISOString())
+			.run();
+
+		try {
+			await c.env.FAQ_IMPORT_WORKFLOW.create({ id: importId, params: { userId, faqs } });
+		} catch (error) {
+			await c.env.DB.prepare('DELETE FROM FaqImports WHERE import_id = ?').bind(importId).run();
+			throw error;
+		}
+
+		console.log(`[IMPORT] Import ${importId} started: ${faqs.length} FAQs (${preview.items.length - faqs.length} duplicates skipped)`);
+
+		return c.json(
+			{
+				message: 'FAQ import started',
+				importId,
+				total: faqs.length,
+				skipped: preview.items.length - faqs.length,
+				status: 'running',
+			},
+			201
+		);
+	} catch (error) {
+		console.error('[IMPORT] Error starting import:', error);
+		const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+		return c.json({ error: 'Failed to start import', details: errorMessage }, 500);
+	}
+}
+
+/**
+ * Handle GET /api/faqs/import/:importId
+ * Returns the progress of one of the authenticated user's imports
+ */
+export async function handleGetFaqImportStatus(c: Context<AuthEnv>): Promise<Response> {
+	const importId = c.req.param('importId');
+
+	if (!importId) {
+		return c.json({ error: 'Import id is required' }, 400);
+	}
+
+	try {
+		const userId = c.get('authUser').userId;
+		const row = await c.env.DB.prepare(
+			'SELECT import_id, status, total, processed, error, created_at FROM FaqImports WHERE import_id = ? AND user_id = ?'
+		)
+			.bind(importId, userId)
+			.first<DbFaqImport>();
+
+		if (!row) {
+			return c.json({ error: 'Import not found' }, 404);
+		}
+
+		const status: FaqImportStatus = {
+			importId: row.import_id,
+			status: row.status,
+			total: row.total,
+			processed: row.processed,
+			...(row.error && { error: row.error }),
+			createdAt: row.created_at,
+		};
+
+		return c.json(status);
+	} catch (error) {
+		console.error('[IMPORT] Error fetching import status:', error);
+		const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+		return c.json({ error: 'Failed to fetch import status', details: errorMessage }, 500);
+	}
+}
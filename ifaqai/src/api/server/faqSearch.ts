@@ -0,0 +1,125 @@
+/**
+ * Keyword retrieval over the FAQs_fts full-text index,
+ * reciprocal-rank fusion with the Vectorize results and optional reranking
+ * Embeddings miss exact product names, error codes and acronyms; FTS5 catches them
+ */
+
+import { RERANKER_MODEL } from './models';
+
+// Common words that would match nearly every FAQ
+const STOPWORDS = new Set([
+	'a', 'about', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'do', 'does', 'for', 'from',
+	'how', 'i', 'if', 'in', 'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or', 'so', 'that', 'the', 'their',
+	'there', 'this', 'to', 'was', 'we', 'what', 'when', 'where', 'which', 'who', 'why', 'will', 'with',
+	'you', 'your',
+]);
+
+const MAX_QUERY_TERMS = 16;
+
+// Standard RRF constant; dampens the weight of top ranks so neither list dominates
+export const RRF_K = 60;
+
+/**
+ * Build an FTS5 MATCH expression from free text
+ * Every term is quoted so user input can never be parsed as FTS syntax,
+ * and terms are OR-ed so partial keyword overlap still ranks
+ * @returns The expression, or null if the text has no searchable terms
+ */
+export function buildFtsQuery(text: string): string | null {
+	const tokens = text.toLowerCase().match(/[\p{L}\p{N}]+(?:[-_.][\p{L}\p{N}]+)*/gu) || [];
+	const terms = [...new Set(tokens)].filter((token) => !STOPWORDS.has(token) && (token.length > 1 || /\d/.test(token)));
+
+	if (terms.length === 0) {
+		return null;
+	}
+
+	return terms
+		.slice(0, MAX_QUERY_TERMS)
+		.map((term) => `"${term}"`)
+		.join(' OR ');
+}
+
+/**
+ * Search an owner's FAQs by keyword, best BM25 match first
+ * Question text is weighted above answer text
+ * @returns FAQ ids as strings (same form as Vectorize ids)
+ */
+export async function searchFaqsByKeyword(
+	db: D1Database,
+	userId: string | number,
+	text: string,
+	limit: number
+): Promise<string[]> {
+	const ftsQuery = buildFtsQuery(text);
+	if (!ftsQuery) {
+		return [];
+	}
+
+	const { results } = await db
+		.prepare(
+			`SELECT f.faq_id
+			FROM FAQs_fts
+			JOIN FAQs f ON f.faq_id = FAQs_fts.rowid
+			WHERE FAQs_fts MATCH ? AND f.user_id = ?
+			ORDER BY bm25(FAQs_fts, 2.0, 1.0)
+			LIMIT ?`
+		)
+		.bind(ftsQuery, userId, limit)
+		.all<{ faq_id: number }>();
+
+	return (results || []).map((row) => row.faq_id.toString());
+}
+
+/**
+ * Merge ranked id lists with reciprocal-rank fusion: score = sum of 1 / (k + rank)
+ * @returns Ids with their fused score, best first
+ */
+export function fuseRankings(rankings: string[][], k = RRF_K): Array<{ faqId: string; score: number }> {
+	const scores = new Map<string, number>();
+
+	for (const ranking of rankings) {
+		ranking.forEach((faqId, index) => {
+			scores.set(faqId, (scores.get(faqId) || 0) + 1 / (k + index + 1));
+		});
+	}
+
+	return [...scores.entries()]
+		.map(([faqId, score]) => ({ faqId, score }))
+		.sort((a, b) => b.score - a.score);
+}
+
+// The generated Workers AI types omit the reranker's query field
+interface RerankerInput {
+	query: string;
+	contexts: Array<{ text: string }>;
+	top_k?: number;
+}
+
+/**
+ * Rescore question/FAQ pairs with the cross-encoder reranker
+ * @returns Ids with their rerank score, best first
+ */
+export async function rerankFaqs(
+	ai: Ai,
+	query: string,
+	candidates: Array<{ faqId: string; text: string }>
+): Promise<Array<{ faqId: string; score: number }>> {
+	if (candidates.length === 0) {
+		return [];
+	}
+
+	const input: RerankerInput = {
+		query,
+		contexts: candidates.map((candidate) => ({ text: candidate.text })),
+	};
+	const output = await ai.run(RERANKER_MODEL, input as unknown as Ai_Cf_Baai_Bge_Reranker_Base_Input);
+
+	if (!output.response) {
+		throw new Error('Reranker returned no scores');
+	}
+
+	return output.response
+		.filter((entry) => entry.id !== undefined && candidates[entry.id] !== undefined)
+		.map((entry) => ({ faqId: candidates[entry.id as number].faqId, score: entry.score ?? 0 }))
+		.sort((a, b) => b.score - a.score);
+}
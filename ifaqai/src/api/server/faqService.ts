@@ -1,6 +1,8 @@
 import type { Context } from 'hono';
 import type { Env } from '../../types/env';
 import type { FAQ } from '../types';
+import type { AuthEnv } from './authMiddleware';
+import { deleteFaqVectors, upsertFaqVectors } from './indexingService';
 
 interface DbFaq {
 	faq_id: number;
@@ -58,7 +60,7 @@ async function getFaqById(db: D1Database, faqId: string | number): Promise<DbFaq
 }
 
 export async function handleUpdateFAQ(
-	c: Context<{ Bindings: Env }>
+	c: Context<AuthEnv>
 ): Promise<Response> {
 	const faqId = c.req.param('id');
 
@@ -67,17 +69,14 @@ export async function handleUpdateFAQ(
 	}
 
 	try {
+		// Ownership comes from the authenticated user, never from the request body
+		const userId = c.get('authUser').userId;
 		const body = await c.req.json().catch(() => ({}));
-		const { userId, question, answer } = body as {
-			userId?: number | string;
+		const { question, answer } = body as {
 			question?: string;
 			answer?: string;
 		};
 
-		if (!userId) {
-			return c.json({ error: 'userId is required' }, 400);
-		}
-
 		if (!question?.trim() || !answer?.trim()) {
 			return c.json({ error: 'Question and answer are required' }, 400);
 		}
@@ -104,28 +103,14 @@ export async function handleUpdateFAQ(
 			return c.json({ error: 'FAQ not found after update' }, 404);
 		}
 
-		// Re-generate embedding
-		const embedding = await c.env.AI.run('@cf/baai/bge-base-en-v1.5', {
-			text: `${question} ${answer}`,
-		});
-
-		const values = embedding.data?.[0];
-		if (!values) {
-			return c.json({ error: 'Failed to generate embedding' }, 500);
+		// Re-generate embedding with the bot's model (and the reindex target, if one is running)
+		try {
+			await upsertFaqVectors(c.env, [{ faqId, userId, question: question.trim(), answer: answer.trim() }]);
+		} catch (embeddingError) {
+			const errorMessage = embeddingError instanceof Error ? embeddingError.message : 'Unknown error';
+			return c.json({ error: 'Failed to generate embedding', details: errorMessage }, 500);
 		}
 
-		await c.env.VECTOR_INDEX.upsert([
-			{
-				id: faqId.toString(),
-				values,
-				metadata: {
-					userId: userId.toString(),
-					question: question.trim(),
-					answer: answer.trim(),
-				},
-			},
-		]);
-
 		return c.json(mapDbFaq(updatedFaq));
 	} catch (error) {
 		console.error('Error updating FAQ:', error);
@@ -135,7 +120,7 @@ export async function handleUpdateFAQ(
 }
 
 export async function handleDeleteFAQ(
-	c: Context<{ Bindings: Env }>
+	c: Context<AuthEnv>
 ): Promise<Response> {
 	const faqId = c.req.param('id');
 
@@ -144,12 +129,7 @@ export async function handleDeleteFAQ(
 	}
 
 	try {
-		const body = await c.req.json().catch(() => ({}));
-		const { userId } = body as { userId?: number | string };
-
-		if (!userId) {
-			return c.json({ error: 'userId is required' }, 400);
-		}
+		const userId = c.get('authUser').userId;
 
 		console.log(`[DELETE FAQ] Starting deletion for FAQ ID: ${faqId}, User ID: ${userId}`);
 
@@ -170,8 +150,8 @@ export async function handleDeleteFAQ(
 
 		// Step 2: Delete from Vectorize first (before D1) to ensure we have the ID
 		try {
-			const vectorDeleteResult = await c.env.VECTOR_INDEX.deleteByIds([faqId.toString()]);
-			console.log(`[DELETE FAQ] Vectorize deletion result:`, vectorDeleteResult);
+			await deleteFaqVectors(c.env, [faqId]);
+			console.log(`[DELETE FAQ] Deleted vectors for FAQ ${faqId} from Vectorize`);
 		} catch (vectorError) {
 			console.error(`[DELETE FAQ] Error deleting from Vectorize:`, vectorError);
 			// Continue with D1 deletion even if Vectorize fails
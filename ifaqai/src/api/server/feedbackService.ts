@@ -0,0 +1,177 @@
+/**
+ * Feedback service
+ * Stores visitors' thumbs up/down on bot answers and aggregates it per FAQ,
+ * so owners can see which FAQs lead to unhelpful answers
+ */
+
+import type { Context } from 'hono';
+import type { Env } from '../../types/env';
+import type { ChatbotCitation, FaqFeedbackSummary, FeedbackRating, MessageFeedback } from '../types';
+import type { AuthEnv } from './authMiddleware';
+import { getBotSettings } from './botSettingsService';
+import { forbiddenOriginResponse, isOriginAllowed } from './widgetCors';
+
+interface DbFeedbackMessage {
+	message_id: number;
+	user_id: number;
+	role: string;
+	citations: string | null;
+	faq_ids: string | null;
+}
+
+const FEEDBACK_RATINGS: FeedbackRating[] = ['up', 'down'];
+const MAX_COMMENT_CHARS = 500;
+const RECENT_COMMENTS_PER_FAQ = 3;
+
+/**
+ * FAQs a rating is attributed to: the ones the answer cited,
+ * or every context FAQ when the answer cited none
+ */
+function getRatedFaqIds(message: DbFeedbackMessage): number[] {
+	const citations = message.citations ? (JSON.parse(message.citations) as ChatbotCitation[]) : [];
+	if (citations.length > 0) {
+		return [...new Set(citations.map((citation) => Number(citation.faqId)))];
+	}
+	return message.faq_ids ? (JSON.parse(message.faq_ids) as number[]) : [];
+}
+
+/**
+ * Handle PUT /api/chatbot/conversations/:id/messages/:messageId/feedback
+ * Records (or replaces) a visitor's rating of an assistant message
+ */
+export async function handleSubmitMessageFeedback(c: Context<{ Bindings: Env }>): Promise<Response> {
+	const conversationId = c.req.param('id');
+	const messageId = c.req.param('messageId');
+
+	if (!conversationId || !messageId) {
+		return c.json({ error: 'Conversation id and message id are required' }, 400);
+	}
+
+	try {
+		const body = await c.req.json().catch(() => ({}));
+		const { rating, comment } = body as { rating?: FeedbackRating; comment?: unknown };
+
+		if (!rating || !FEEDBACK_RATINGS.includes(rating)) {
+			return c.json({ error: `rating must be one of: ${FEEDBACK_RATINGS.join(', ')}` }, 400);
+		}
+		if (comment !== undefined && comment !== null && typeof comment !== 'string') {
+			return c.json({ error: 'comment must be a string' }, 400);
+		}
+		const trimmedComment = typeof comment === 'string' ? comment.trim() : '';
+		if (trimmedComment.length > MAX_COMMENT_CHARS) {
+			return c.json({ error: `comment must be at most ${MAX_COMMENT_CHARS} characters` }, 400);
+		}
+
+		const message = await c.env.DB.prepare(
+			`SELECT m.message_id, c.user_id, m.role, m.citations, m.faq_ids
+			FROM Messages m JOIN Conversations c ON c.conversation_id = m.conversation_id
+			WHERE m.message_id = ? AND m.conversation_id = ?`
+		)
+			.bind(messageId, conversationId)
+			.first<DbFeedbackMessage>();
+
+		if (!message) {
+			return c.json({ error: 'Message not found' }, 404);
+		}
+		if (!isOriginAllowed(c, await getBotSettings(c.env.DB, message.user_id))) {
+			return forbiddenOriginResponse(c);
+		}
+		if (message.role !== 'assistant') {
+			return c.json({ error: 'Only bot answers can be rated' }, 400);
+		}
+
+		const ratingValue = rating === 'up' ? 1 : -1;
+		const now = new Date().toISOString();
+		const faqIds = getRatedFaqIds(message);
+
+		await c.env.DB.batch([
+			c.env.DB.prepare(
+				`INSERT INTO MessageFeedback (message_id, conversation_id, rating, comment, created_at)
+				VALUES (?, ?, ?, ?, ?)
+				ON CONFLICT(message_id) DO UPDATE SET
+					rating = excluded.rating,
+					comment = excluded.comment,
+					modified_at = ?`
+			).bind(message.message_id, conversationId, ratingValue, trimmedComment || null, now, now),
+			c.env.DB.prepare('DELETE FROM FaqFeedback WHERE message_id = ?').bind(message.message_id),
+			// Only FAQs that still exist and belong to the conversation's bot are credited
+			c.env.DB.prepare(
+				`INSERT INTO FaqFeedback (message_id, faq_id, rating)
+				SELECT ?, f.faq_id, ?
+				FROM FAQs f
+				WHERE f.faq_id IN (SELECT value FROM json_each(?))
+					AND f.user_id = (SELECT user_id FROM Conversations WHERE conversation_id = ?)`
+			).bind(message.message_id, ratingValue, JSON.stringify(faqIds), conversationId),
+		]);
+
+		console.log(`[FEEDBACK] Message ${messageId} rated ${rating}, attributed to FAQs ${faqIds.join(', ') || '(none)'}`);
+
+		const feedback: MessageFeedback = {
+			rating,
+			comment: trimmedComment || undefined,
+			createdAt: now,
+		};
+
+		return c.json(feedback);
+	} catch (error) {
+		console.error('[FEEDBACK] Error saving feedback:', error);
+		const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+		return c.json({ error: 'Failed to save feedback', details: errorMessage }, 500);
+	}
+}
+
+/**
+ * Handle GET /api/faqs/feedback
+ * Returns helpfulness per FAQ of the authenticated user (only FAQs with feedback)
+ */
+export async function handleGetFaqFeedback(c: Context<AuthEnv>): Promise<Response> {
+	try {
+		const userId = c.get('authUser').userId;
+
+		const { results: totals } = await c.env.DB.prepare(
+			`SELECT ff.faq_id,
+				SUM(CASE WHEN ff.rating > 0 THEN 1 ELSE 0 END) AS helpful,
+				SUM(CASE WHEN ff.rating < 0 THEN 1 ELSE 0 END) AS not_helpful
+			FROM FaqFeedback ff
+			JOIN FAQs f ON f.faq_id = ff.faq_id
+			WHERE f.user_id = ?
+			GROUP BY ff.faq_id`
+		)
+			.bind(userId)
+			.all<{ faq_id: number; helpful: number; not_helpful: number }>();
+
+		const { results: comments } = await c.env.DB.prepare(
+			`SELECT ff.faq_id, mf.comment
+			FROM FaqFeedback ff
+			JOIN MessageFeedback mf ON mf.message_id = ff.message_id
+			JOIN FAQs f ON f.faq_id = ff.faq_id
+			WHERE f.user_id = ? AND ff.rating < 0 AND mf.comment IS NOT NULL
+			ORDER BY COALESCE(mf.modified_at, mf.created_at) DESC`
+		)
+			.bind(userId)
+			.all<{ faq_id: number; comment: string }>();
+
+		const recentComments = new Map<number, string[]>();
+		for (const row of comments || []) {
+			const faqComments = recentComments.get(row.faq_id) || [];
+			if (faqComments.length < RECENT_COMMENTS_PER_FAQ) {
+				faqComments.push(row.comment);
+			}
+			recentComments.set(row.faq_id, faqComments);
+		}
+
+		const summaries: FaqFeedbackSummary[] = (totals || []).map((row) => ({
+			faqId: row.faq_id.toString(),
+			helpful: row.helpful,
+			notHelpful: row.not_helpful,
+			helpfulness: row.helpful / (row.helpful + row.not_helpful),
+			recentComments: recentComments.get(row.faq_id) || [],
+		}));
+
+		return c.json(summaries);
+	} catch (error) {
+		console.error('[FEEDBACK] Error fetching FAQ feedback:', error);
+		const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+		return c.json({ error: 'Failed to fetch FAQ feedback', details: errorMessage }, 500);
+	}
+}
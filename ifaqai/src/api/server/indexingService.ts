@@ -0,0 +1,163 @@
+/**
+ * Indexing service
+ * The one place that embeds FAQs and writes or deletes their vectors, used by
+ * the FAQ routes, the admin routes, the reconciler and every workflow, so the
+ * metadata shape, batching and error handling are the same everywhere.
+ * Functions take only the bindings they use, so they can be called with fakes.
+ */
+
+import type { Env } from '../../types/env';
+import { getBotSettings } from './botSettingsService';
+import {
+	DEFAULT_EMBEDDING_MODEL,
+	EMBEDDING_MODELS,
+	generateEmbeddings,
+	getVectorIndex,
+	MAX_EMBEDDING_BATCH_SIZE,
+	type EmbeddingModelInfo,
+	type VectorIndexBinding,
+} from './models';
+import { getFaqEmbeddingModels, getFaqEmbeddingText, getFaqVectorId, toFaqVector, type FaqVectorSource } from './vectorIndex';
+
+export type VectorIndexEnv = Pick<Env, VectorIndexBinding>;
+export type IndexingEnv = Pick<Env, 'DB' | 'AI'> & VectorIndexEnv;
+
+// Vector ids per deleteByIds call
+export const VECTOR_DELETE_BATCH_SIZE = 100;
+
+function getRequiredVectorIndex(env: VectorIndexEnv, model: EmbeddingModelInfo): Vectorize {
+	const index = getVectorIndex(env, model);
+	if (!index) {
+		throw new Error(`Vectorize binding ${model.indexBinding} for ${model.id} is not configured`);
+	}
+	return index;
+}
+
+/**
+ * Embed FAQs with a model, MAX_EMBEDDING_BATCH_SIZE per request
+ * @returns One vector per FAQ, in order
+ */
+export async function embedMany(
+	ai: Ai,
+	faqs: Array<Pick<FaqVectorSource, 'question' | 'answer'>>,
+	model: EmbeddingModelInfo = DEFAULT_EMBEDDING_MODEL
+): Promise<number[][]> {
+	const embeddings: number[][] = [];
+	for (let i = 0; i < faqs.length; i += MAX_EMBEDDING_BATCH_SIZE) {
+		const texts = faqs.slice(i, i + MAX_EMBEDDING_BATCH_SIZE).map(getFaqEmbeddingText);
+		embeddings.push(...(await generateEmbeddings(ai, texts, model)));
+	}
+	return embeddings;
+}
+
+/**
+ * Embed one FAQ with a model
+ */
+export async function embedFaq(
+	ai: Ai,
+	faq: Pick<FaqVectorSource, 'question' | 'answer'>,
+	model: EmbeddingModelInfo = DEFAULT_EMBEDDING_MODEL
+): Promise<number[]> {
+	const [values] = await embedMany(ai, [faq], model);
+	return values;
+}
+
+/**
+ * Embed FAQs and upsert their vectors
+ * @param models Models to index with; defaults to each owner's models (two while a reindex is running)
+ * @returns Number of vectors written
+ */
+export async function upsertFaqVectors(env: IndexingEnv, faqs: FaqVectorSource[], models?: EmbeddingModelInfo[]): Promise<number> {
+	const faqsByModel = new Map<EmbeddingModelInfo, FaqVectorSource[]>();
+
+	if (models) {
+		for (const model of models) {
+			faqsByModel.set(model, faqs);
+		}
+	} else {
+		const modelsByOwner = new Map<string, EmbeddingModelInfo[]>();
+		for (const faq of faqs) {
+			const owner = faq.userId.toString();
+			let ownerModels = modelsByOwner.get(owner);
+			if (!ownerModels) {
+				ownerModels = getFaqEmbeddingModels(await getBotSettings(env.DB, faq.userId));
+				modelsByOwner.set(owner, ownerModels);
+			}
+			for (const model of ownerModels) {
+				const modelFaqs = faqsByModel.get(model) || [];
+				modelFaqs.push(faq);
+				faqsByModel.set(model, modelFaqs);
+			}
+		}
+	}
+
+	let written = 0;
+	for (const [model, modelFaqs] of faqsByModel) {
+		if (modelFaqs.length === 0) continue;
+
+		const index = getRequiredVectorIndex(env, model);
+		const embeddings = await embedMany(env.AI, modelFaqs, model);
+		await index.upsert(modelFaqs.map((faq, i) => toFaqVector(faq, embeddings[i], model)));
+		written += modelFaqs.length;
+	}
+	return written;
+}
+
+/**
+ * Delete FAQs' vectors from every configured index
+ * @param models Models whose vectors are deleted; defaults to every embedding model
+ */
+export async function deleteFaqVectors(
+	env: VectorIndexEnv,
+	faqIds: Array<number | string>,
+	models: EmbeddingModelInfo[] = EMBEDDING_MODELS
+): Promise<void> {
+	const idsByIndex = new Map<Vectorize, string[]>();
+
+	for (const model of models) {
+		const index = getVectorIndex(env, model);
+		if (!index) continue;
+
+		const ids = idsByIndex.get(index) || [];
+		ids.push(...faqIds.map((faqId) => getFaqVectorId(faqId, model)));
+		idsByIndex.set(index, ids);
+	}
+
+	for (const [index, ids] of idsByIndex) {
+		for (let i = 0; i < ids.length; i += VECTOR_DELETE_BATCH_SIZE) {
+			await index.deleteByIds(ids.slice(i, i + VECTOR_DELETE_BATCH_SIZE));
+		}
+	}
+}
+
+/**
+ * Re-embed an owner's FAQs in id order
+ * Pass afterFaqId and limit to process one page (e.g. per workflow step)
+ * @returns FAQs processed and the last FAQ id, to continue from
+ */
+export async function reindexUser(
+	env: IndexingEnv,
+	userId: number | string,
+	options: { models?: EmbeddingModelInfo[]; afterFaqId?: number; limit?: number } = {}
+): Promise<{ count: number; lastFaqId: number }> {
+	const { results } = await env.DB.prepare(
+		`SELECT faq_id, question, answer FROM FAQs
+		WHERE user_id = ? AND faq_id > ?
+		ORDER BY faq_id
+		LIMIT ?`
+	)
+		.bind(userId, options.afterFaqId ?? 0, options.limit ?? -1)
+		.all<{ faq_id: number; question: string; answer: string }>();
+	const faqs = results || [];
+
+	await upsertFaqVectors(
+		env,
+		faqs.map((faq) => ({ faqId: faq.faq_id, userId, question: faq.question, answer: faq.answer })),
+		options.models
+	);
+
+	return {
+		count: faqs.length,
+		lastFaqId: faqs.length > 0 ? faqs[faqs.length - 1].faq_id : options.afterFaqId ?? 0,
+	};
+}
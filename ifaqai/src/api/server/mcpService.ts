@@ -0,0 +1,368 @@
+/**
+ * Model Context Protocol server for a bot's knowledge base
+ * AI agents connect to /api/mcp/:username with the streamable HTTP transport
+ * and get tools to search the bot's FAQs, list them and ask the bot.
+ *
+ * The server is stateless: every POST carries one JSON-RPC message (or a batch)
+ * and gets a JSON response, so no Mcp-Session-Id is issued and there is no
+ * server-initiated SSE stream (GET returns 405).
+ */
+
+import type { Context } from 'hono';
+import type { ApiKeyEnv } from './authMiddleware';
+import { resolveChatbotOwner, retrieveFaqs, runChatbotQuery, type ChatbotOwner } from './chatbotService';
+import { checkBotRateLimit, checkIpRateLimit } from './rateLimiter';
+import { trackUnansweredQuestion } from './unansweredService';
+import { trackQueryEvent } from './analyticsService';
+import { forbiddenOriginResponse, isOriginAllowed } from './widgetCors';
+
+// Newest first; a client asking for another version is offered the newest
+const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26'];
+const SERVER_VERSION = '1.0.0';
+
+const MAX_QUERY_CHARS = 1000;
+const MAX_SEARCH_RESULTS = 10;
+const DEFAULT_SEARCH_RESULTS = 5;
+const MAX_LIST_LIMIT = 100;
+const DEFAULT_LIST_LIMIT = 50;
+
+// JSON-RPC error codes
+const PARSE_ERROR = -32700;
+const INVALID_REQUEST = -32600;
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+const INTERNAL_ERROR = -32603;
+
+interface JsonRpcMessage {
+	jsonrpc?: string;
+	id?: string | number | null;
+	method?: string;
+	params?: Record<string, unknown>;
+}
+
+interface JsonRpcResponse {
+	jsonrpc: '2.0';
+	id: string | number | null;
+	result?: unknown;
+	error?: { code: number; message: string };
+}
+
+interface McpToolResult {
+	content: Array<{ type: 'text'; text: string }>;
+	structuredContent?: Record<string, unknown>;
+	isError?: boolean;
+}
+
+interface McpTool {
+	name: string;
+	title: string;
+	description: string;
+	inputSchema: Record<string, unknown>;
+	call: (c: Context<ApiKeyEnv>, owner: ChatbotOwner, args: Record<string, unknown>) => Promise<McpToolResult>;
+}
+
+function rpcResult(id: JsonRpcResponse['id'], result: unknown): JsonRpcResponse {
+	return { jsonrpc: '2.0', id, result };
+}
+
+function rpcError(id: JsonRpcResponse['id'], code: number, message: string): JsonRpcResponse {
+	return { jsonrpc: '2.0', id, error: { code, message } };
+}
+
+function toolResult(data: Record<string, unknown>, text = JSON.stringify(data, null, 2)): McpToolResult {
+	return { content: [{ type: 'text', text }], structuredContent: data };
+}
+
+/**
+ * Tool execution error, reported in the result so the calling model can see it
+ */
+function toolError(message: string): McpToolResult {
+	return { content: [{ type: 'text', text: message }], isError: true };
+}
+
+/**
+ * An integer argument within [1, max], or the default when omitted
+ * @returns The value, or null when it is invalid
+ */
+function getLimitArgument(value: unknown, defaultValue: number, max: number): number | null {
+	if (value === undefined) {
+		return defaultValue;
+	}
+	return Number.isInteger(value) && (value as number) >= 1 && (value as number) <= max ? (value as number) : null;
+}
+
+function getTextArgument(args: Record<string, unknown>, name: string): string | null {
+	const value = args[name];
+	return typeof value === 'string' && value.trim() && value.length <= MAX_QUERY_CHARS ? value.trim() : null;
+}
+
+/**
+ * Apply the chatbot rate limits to tools that call Workers AI
+ * Like the chatbot routes, API key requests are only limited per bot
+ * @returns A tool error when a limit is exceeded
+ */
+async function checkToolRateLimit(c: Context<ApiKeyEnv>, owner: ChatbotOwner): Promise<McpToolResult | null> {
+	const limited =
+		(!c.get('apiKey') && (await checkIpRateLimit(c.env.DB, c.req.header('CF-Connecting-IP') || 'unknown'))) ||
+		(await checkBotRateLimit(c.env, owner.ownerId));
+
+	if (!limited) {
+		return null;
+	}
+
+	console.warn(`[MCP] ${limited.reason} exceeded for bot ${owner.ownerId}, retry after ${limited.retryAfter}s`);
+	const reason =
+		limited.reason === 'daily_quota'
+			? 'This chatbot has reached its daily question limit'
+			: limited.reason === 'bot_rate_limit'
+				? 'This chatbot is receiving too many questions right now'
+				: 'Too many questions, please slow down';
+	return toolError(`${reason}. Try again in ${limited.retryAfter} seconds.`);
+}
+
+const TOOLS: McpTool[] = [
+	{
+		name: 'search_faqs',
+		title: 'Search FAQs',
+		description:
+			"Search the bot's knowledge base for FAQs relevant to a query (semantic and keyword search). Returns the matching questions and answers, most relevant first.",
+		inputSchema: {
+			type: 'object',
+			properties: {
+				query: { type: 'string', description: 'What to search for', maxLength: MAX_QUERY_CHARS },
+				limit: { type: 'integer', description: 'Maximum FAQs to return', minimum: 1, maximum: MAX_SEARCH_RESULTS, default: DEFAULT_SEARCH_RESULTS },
+			},
+			required: ['query'],
+		},
+		call: async (c, owner, args) => {
+			const query = getTextArgument(args, 'query');
+			const limit = getLimitArgument(args.limit, DEFAULT_SEARCH_RESULTS, MAX_SEARCH_RESULTS);
+			if (!query) {
+				return toolError(`query must be a non-empty string of at most ${MAX_QUERY_CHARS} characters`);
+			}
+			if (limit === null) {
+				return toolError(`limit must be an integer between 1 and ${MAX_SEARCH_RESULTS}`);
+			}
+
+			const limited = await checkToolRateLimit(c, owner);
+			if (limited) {
+				return limited;
+			}
+
+			const { faqs } = await retrieveFaqs(c.env, owner, query, limit);
+			return toolResult({ faqs });
+		},
+	},
+	{
+		name: 'ask_bot',
+		title: 'Ask the bot',
+		description:
+			"Ask the bot a question. It answers from its knowledge base in its owner's voice, citing the FAQs it used as [n] markers.",
+		inputSchema: {
+			type: 'object',
+			properties: {
+				question: { type: 'string', description: 'The question to ask', maxLength: MAX_QUERY_CHARS },
+			},
+			required: ['question'],
+		},
+		call: async (c, owner, args) => {
+			const startedAt = Date.now();
+			const question = getTextArgument(args, 'question');
+			if (!question) {
+				return toolError(`question must be a non-empty string of at most ${MAX_QUERY_CHARS} characters`);
+			}
+
+			const limited = await checkToolRateLimit(c, owner);
+			if (limited) {
+				return limited;
+			}
+
+			const result = await runChatbotQuery(c.env, { question, owner });
+			trackUnansweredQuestion(c, owner.ownerId, question, result);
+			trackQueryEvent(c, {
+				userId: owner.ownerId,
+				startedAt,
+				contextUsed: result.contextUsed,
+				faqIds: result.contextFaqIds,
+				citations: result.citations,
+				confidence: result.confidence,
+			});
+
+			return toolResult({ answer: result.answer, citations: result.citations }, result.answer);
+		},
+	},
+	{
+		name: 'list_faqs',
+		title: 'List FAQs',
+		description: "List the FAQs in the bot's knowledge base, newest first. Use offset to page through them.",
+		inputSchema: {
+			type: 'object',
+			properties: {
+				limit: { type: 'integer', description: 'Maximum FAQs to return', minimum: 1, maximum: MAX_LIST_LIMIT, default: DEFAULT_LIST_LIMIT },
+				offset: { type: 'integer', description: 'FAQs to skip', minimum: 0, default: 0 },
+			},
+		},
+		call: async (c, owner, args) => {
+			const limit = getLimitArgument(args.limit, DEFAULT_LIST_LIMIT, MAX_LIST_LIMIT);
+			const offset = args.offset === undefined ? 0 : args.offset;
+			if (limit === null) {
+				return toolError(`limit must be an integer between 1 and ${MAX_LIST_LIMIT}`);
+			}
+			if (!Number.isInteger(offset) || (offset as number) < 0) {
+				return toolError('offset must be a non-negative integer');
+			}
+
+			const [total, page] = await c.env.DB.batch<{ count?: number; faq_id?: number; question?: string; answer?: string }>([
+				c.env.DB.prepare('SELECT COUNT(*) AS count FROM FAQs WHERE user_id = ?').bind(owner.ownerId),
+				c.env.DB.prepare('SELECT faq_id, question, answer FROM FAQs WHERE user_id = ? ORDER BY created_at DESC LIMIT ? OFFSET ?').bind(
+					owner.ownerId,
+					limit,
+					offset
+				),
+			]);
+
+			return toolResult({
+				total: total.results?.[0]?.count ?? 0,
+				offset,
+				faqs: (page.results || []).map((faq) => ({ faqId: String(faq.faq_id), question: faq.question, answer: faq.answer })),
+			});
+		},
+	},
+];
+
+async function callTool(c: Context<ApiKeyEnv>, owner: ChatbotOwner, message: JsonRpcMessage): Promise<JsonRpcResponse> {
+	const id = message.id ?? null;
+	const name = message.params?.name;
+	const args = message.params?.arguments ?? {};
+	const tool = TOOLS.find((candidate) => candidate.name === name);
+
+	if (!tool) {
+		return rpcError(id, INVALID_PARAMS, `Unknown tool: ${String(name)}`);
+	}
+	if (typeof args !== 'object' || Array.isArray(args) || args === null) {
+		return rpcError(id, INVALID_PARAMS, 'arguments must be an object');
+	}
+
+	console.log(`[MCP] Calling ${tool.name} for bot ${owner.ownerId}`);
+	try {
+		return rpcResult(id, await tool.call(c, owner, args as Record<string, unknown>));
+	} catch (error) {
+		console.error(`[MCP] Error in tool ${tool.name}:`, error);
+		return rpcResult(id, toolError(`Failed to run ${tool.name}: ${error instanceof Error ? error.message : 'Unknown error'}`));
+	}
+}
+
+/**
+ * Answer one JSON-RPC message
+ * @returns The response, or null for notifications and client responses
+ */
+async function handleMessage(c: Context<ApiKeyEnv>, owner: ChatbotOwner, message: JsonRpcMessage): Promise<JsonRpcResponse | null> {
+	if (!message || typeof message !== 'object' || message.jsonrpc !== '2.0') {
+		return rpcError(null, INVALID_REQUEST, 'Invalid JSON-RPC message');
+	}
+	if (typeof message.method !== 'string') {
+		// A response to a server request; this server never sends any
+		return null;
+	}
+
+	const isNotification = message.id === undefined || message.id === null;
+	if (isNotification) {
+		return null;
+	}
+
+	const id = message.id ?? null;
+	switch (message.method) {
+		case 'initialize': {
+			const requested = message.params?.protocolVersion;
+			const name = owner.profile?.name || owner.profile?.username;
+			return rpcResult(id, {
+				protocolVersion:
+					typeof requested === 'string' && SUPPORTED_PROTOCOL_VERSIONS.includes(requested) ? requested : SUPPORTED_PROTOCOL_VERSIONS[0],
+				capabilities: { tools: {} },
+				serverInfo: { name: 'ifaqai', title: `${name}'s FAQ bot`, version: SERVER_VERSION },
+				instructions: `Knowledge base of ${name}. Use search_faqs to look up FAQs, list_faqs to browse them, and ask_bot for a written answer in ${name}'s voice.`,
+			});
+		}
+		case 'ping':
+			return rpcResult(id, {});
+		case 'tools/list':
+			return rpcResult(id, { tools: TOOLS.map(({ call, ...definition }) => definition) });
+		case 'tools/call':
+			return callTool(c, owner, message);
+		default:
+			return rpcError(id, METHOD_NOT_FOUND, `Method not found: ${message.method}`);
+	}
+}
+
+/**
+ * Handle POST /api/mcp/:username
+ * Streamable HTTP transport: the body is a JSON-RPC message or batch. Requests
+ * get an application/json response; notifications alone get 202.
+ *
+ * An API key (optional, chat:query) only reaches its owner's bot. Browser
+ * requests must come from the bot's allowedOrigins, which also guards against
+ * DNS rebinding as the transport requires.
+ */
+export async function handleMcpRequest(c: Context<ApiKeyEnv>): Promise<Response> {
+	const username = c.req.param('username');
+	if (!username) {
+		return c.json({ error: 'Username parameter is required' }, 400);
+	}
+
+	const protocolVersion = c.req.header('MCP-Protocol-Version');
+	if (protocolVersion && !SUPPORTED_PROTOCOL_VERSIONS.includes(protocolVersion)) {
+		return c.json(
+			{ error: 'Unsupported MCP protocol version', details: `Supported versions: ${SUPPORTED_PROTOCOL_VERSIONS.join(', ')}` },
+			400
+		);
+	}
+
+	let body: unknown;
+	try {
+		body = await c.req.json();
+	} catch {
+		return c.json(rpcError(null, PARSE_ERROR, 'Parse error'), 400);
+	}
+
+	try {
+		const owner = await resolveChatbotOwner(c.env.DB, { username });
+		const apiKey = c.get('apiKey');
+		if (!owner || (apiKey && owner.ownerId.toString() !== apiKey.userId.toString())) {
+			return c.json({ error: 'Chatbot owner not found' }, 404);
+		}
+
+		if (!isOriginAllowed(c, owner.settings)) {
+			return forbiddenOriginResponse(c);
+		}
+
+		const messages = Array.isArray(body) ? body : [body];
+		if (messages.length === 0) {
+			return c.json(rpcError(null, INVALID_REQUEST, 'Empty batch'), 400);
+		}
+
+		const responses: JsonRpcResponse[] = [];
+		for (const message of messages) {
+			const response = await handleMessage(c, owner, message as JsonRpcMessage);
+			if (response) {
+				responses.push(response);
+			}
+		}
+
+		if (responses.length === 0) {
+			return c.body(null, 202);
+		}
+		return c.json(Array.isArray(body) ? responses : responses[0]);
+	} catch (error) {
+		console.error('[MCP] Error handling request:', error);
+		return c.json(rpcError(null, INTERNAL_ERROR, error instanceof Error ? error.message : 'Unknown error'), 500);
+	}
+}
+
+/**
+ * Handle GET and DELETE /api/mcp/:username
+ * The server is stateless, so there is no SSE stream to open and no session to end
+ */
+export function handleMcpMethodNotAllowed(c: Context): Response {
+	c.header('Allow', 'POST');
+	return c.json({ error: 'Method not allowed', details: 'This MCP server only accepts POST requests' }, 405);
+}
@@ -0,0 +1,147 @@
+/**
+ * Workers AI model registry
+ * Single place listing the chat, embedding and reranker models bots can use
+ */
+
+import type { Env } from '../../types/env';
+
+export interface ChatModelInfo {
+	id: string;
+	label: string;
+	/** Upper bound accepted for a bot's max_tokens setting */
+	maxOutputTokens: number;
+}
+
+/**
+ * Vectorize bindings, one index per embedding dimension
+ */
+export type VectorIndexBinding = 'VECTOR_INDEX' | 'VECTOR_INDEX_1024';
+
+export interface EmbeddingModelInfo {
+	id: string;
+	/** Short name used in vector ids and namespaces */
+	key: string;
+	label: string;
+	dimensions: number;
+	indexBinding: VectorIndexBinding;
+}
+
+export const CHAT_MODELS: ChatModelInfo[] = [
+	{ id: '@cf/meta/llama-3-8b-instruct', label: 'Llama 3 8B Instruct', maxOutputTokens: 2048 },
+	{ id: '@cf/meta/llama-3.1-8b-instruct', label: 'Llama 3.1 8B Instruct', maxOutputTokens: 2048 },
+	{ id: '@cf/meta/llama-3.3-70b-instruct-fp8-fast', label: 'Llama 3.3 70B Instruct (fast)', maxOutputTokens: 2048 },
+	{ id: '@cf/mistralai/mistral-small-3.1-24b-instruct', label: 'Mistral Small 3.1 24B Instruct', maxOutputTokens: 2048 },
+	{ id: '@cf/google/gemma-3-12b-it', label: 'Gemma 3 12B Instruct', maxOutputTokens: 2048 },
+];
+
+export const EMBEDDING_MODELS: EmbeddingModelInfo[] = [
+	{ id: '@cf/baai/bge-base-en-v1.5', key: 'bge-base', label: 'BGE Base (English)', dimensions: 768, indexBinding: 'VECTOR_INDEX' },
+	{ id: '@cf/baai/bge-large-en-v1.5', key: 'bge-large', label: 'BGE Large (English)', dimensions: 1024, indexBinding: 'VECTOR_INDEX_1024' },
+	{ id: '@cf/baai/bge-m3', key: 'bge-m3', label: 'BGE M3 (multilingual)', dimensions: 1024, indexBinding: 'VECTOR_INDEX_1024' },
+];
+
+export const DEFAULT_CHAT_MODEL = CHAT_MODELS[0];
+export const DEFAULT_EMBEDDING_MODEL = EMBEDDING_MODELS[0];
+export const RERANKER_MODEL = '@cf/baai/bge-reranker-base';
+
+// The Workers AI bindings are typed per model id; registry ids are validated,
+// so calls use the default model's literal type to keep input/output types
+type ChatModelId = '@cf/meta/llama-3-8b-instruct';
+type EmbeddingModelId = '@cf/baai/bge-base-en-v1.5';
+
+/**
+ * Look up a chat model, falling back to the default for unknown or missing ids
+ */
+export function getChatModel(id?: string | null): ChatModelInfo {
+	return CHAT_MODELS.find((model) => model.id === id) ?? DEFAULT_CHAT_MODEL;
+}
+
+/**
+ * Look up an embedding model, falling back to the default for unknown or missing ids
+ */
+export function getEmbeddingModel(id?: string | null): EmbeddingModelInfo {
+	return EMBEDDING_MODELS.find((model) => model.id === id) ?? DEFAULT_EMBEDDING_MODEL;
+}
+
+export function isChatModel(id: unknown): boolean {
+	return CHAT_MODELS.some((model) => model.id === id);
+}
+
+export function isEmbeddingModel(id: unknown): boolean {
+	return EMBEDDING_MODELS.some((model) => model.id === id);
+}
+
+/**
+ * The Vectorize index holding an embedding model's vectors
+ * @returns The index, or undefined if its binding is not configured in this deployment
+ */
+export function getVectorIndex(env: Pick<Env, VectorIndexBinding>, model: EmbeddingModelInfo): Vectorize | undefined {
+	return env[model.indexBinding];
+}
+
+// Texts the embedding models accept in one request
+export const MAX_EMBEDDING_BATCH_SIZE = 100;
+
+/**
+ * Embed several texts in one request with a registry embedding model
+ * @returns One vector per text, in order
+ */
+export async function generateEmbeddings(
+	ai: Ai,
+	texts: string[],
+	model: EmbeddingModelInfo = DEFAULT_EMBEDDING_MODEL
+): Promise<number[][]> {
+	if (texts.length > MAX_EMBEDDING_BATCH_SIZE) {
+		throw new Error(`At most ${MAX_EMBEDDING_BATCH_SIZE} texts can be embedded at once`);
+	}
+
+	const embeddings = await ai.run(model.id as EmbeddingModelId, { text: texts });
+
+	// Check if it's an async response
+	if ('request_id' in embeddings) {
+		throw new Error('Async embedding not supported');
+	}
+
+	// Type guard: check if it has data property
+	const values = 'data' in embeddings && embeddings.data ? embeddings.data : null;
+	if (!values || values.length !== texts.length) {
+		throw new Error('Embedding generation returned no data');
+	}
+
+	return values;
+}
+
+/**
+ * Embed text with a registry embedding model
+ */
+export async function generateEmbedding(
+	ai: Ai,
+	text: string,
+	model: EmbeddingModelInfo = DEFAULT_EMBEDDING_MODEL
+): Promise<number[]> {
+	const [values] = await generateEmbeddings(ai, [text], model);
+	return values;
+}
+
+/**
+ * Run a registry chat model (non-streaming)
+ */
+export async function runChatModel(
+	ai: Ai,
+	model: ChatModelInfo,
+	input: { messages: Array<{ role: string; content: string }>; temperature?: number; max_tokens?: number }
+): Promise<string | undefined> {
+	const output = await ai.run(model.id as ChatModelId, input);
+	return 'response' in output ? output.response : undefined;
+}
+
+/**
+ * Run a registry chat model as a stream of Workers AI SSE chunks
+ */
+export async function streamChatModel(
+	ai: Ai,
+	model: ChatModelInfo,
+	input: { messages: Array<{ role: string; content: string }>; temperature?: number; max_tokens?: number }
+): Promise<ReadableStream<Uint8Array>> {
+	return (await ai.run(model.id as ChatModelId, { ...input, stream: true })) as ReadableStream<Uint8Array>;
+}
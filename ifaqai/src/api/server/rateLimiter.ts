@@ -0,0 +1,178 @@
+/**
+ * Chatbot rate limiting
+ * Every answered question costs an embedding call and an LLM call, so the
+ * routes that answer questions are throttled per visitor IP and per bot, and
+ * each bot has a daily quota. Counters are fixed-window rows in D1
+ * (RateLimitCounters), incremented atomically with an upsert, so limits also
+ * work under wrangler dev / miniflare.
+ *
+ * Limiting fails open: if D1 cannot be reached the request is answered.
+ */
+
+import type { Context } from 'hono';
+import { createMiddleware } from 'hono/factory';
+import type { Env } from '../../types/env';
+import type { RateLimitReason } from '../types';
+import type { ApiKeyEnv } from './authMiddleware';
+
+// Questions per visitor IP per minute (API key requests are not limited per IP)
+export const IP_LIMIT_PER_MINUTE = 20;
+// Questions per bot per minute, across all visitors
+export const BOT_LIMIT_PER_MINUTE = 60;
+// Questions per bot per UTC day, unless CHAT_DAILY_QUOTA or a ChatQuotas row says otherwise
+export const DEFAULT_DAILY_CHAT_QUOTA = 1000;
+
+const MINUTE_SECONDS = 60;
+const DAY_SECONDS = 24 * 60 * 60;
+
+export interface RateLimitExceeded {
+	reason: RateLimitReason;
+	limit: number;
+	/** Seconds until the window resets */
+	retryAfter: number;
+}
+
+/**
+ * Count one request in the current window of a counter
+ * The statement returns the window's count including this request
+ */
+function countRequest(db: D1Database, counterKey: string, windowSeconds: number, nowSeconds: number): D1PreparedStatement {
+	const windowStart = Math.floor(nowSeconds / windowSeconds) * windowSeconds;
+	return db
+		.prepare(
+			`INSERT INTO RateLimitCounters (counter_key, window_start, count, expires_at) VALUES (?, ?, 1, ?)
+			ON CONFLICT (counter_key, window_start) DO UPDATE SET count = count + 1
+			RETURNING count`
+		)
+		.bind(counterKey, windowStart, windowStart + windowSeconds);
+}
+
+function secondsUntilWindowEnd(windowSeconds: number, nowSeconds: number): number {
+	return Math.max(1, Math.ceil(windowSeconds - (nowSeconds % windowSeconds)));
+}
+
+/**
+ * Default daily quota from CHAT_DAILY_QUOTA, or DEFAULT_DAILY_CHAT_QUOTA when unset or invalid
+ */
+export function getDefaultDailyQuota(env: Pick<Env, 'CHAT_DAILY_QUOTA'>): number {
+	const configured = Number(env.CHAT_DAILY_QUOTA);
+	return env.CHAT_DAILY_QUOTA && Number.isInteger(configured) && configured >= 0 ? configured : DEFAULT_DAILY_CHAT_QUOTA;
+}
+
+/**
+ * An owner's daily quota: their ChatQuotas override, or the default
+ */
+export async function getDailyQuota(env: Pick<Env, 'DB' | 'CHAT_DAILY_QUOTA'>, userId: string | number): Promise<{ dailyLimit: number; isDefault: boolean }> {
+	const row = await env.DB.prepare('SELECT daily_limit FROM ChatQuotas WHERE user_id = ?').bind(userId).first<{ daily_limit: number }>();
+	return row ? { dailyLimit: row.daily_limit, isDefault: false } : { dailyLimit: getDefaultDailyQuota(env), isDefault: true };
+}
+
+/**
+ * Questions asked of a bot today (UTC), including rejected ones
+ */
+export async function getQuestionsToday(db: D1Database, userId: string | number): Promise<number> {
+	const today = Math.floor(Date.now() / 1000 / DAY_SECONDS) * DAY_SECONDS;
+	const row = await db
+		.prepare('SELECT count FROM RateLimitCounters WHERE counter_key = ? AND window_start = ?')
+		.bind(`bot-day:${userId}`, today)
+		.first<{ count: number }>();
+	return row?.count ?? 0;
+}
+
+/**
+ * Count a question against a bot's per-minute limit and daily quota
+ * @returns Which limit was exceeded, or null if the question may be answered
+ */
+export async function checkBotRateLimit(env: Env, ownerId: string | number): Promise<RateLimitExceeded | null> {
+	const nowSeconds = Date.now() / 1000;
+
+	try {
+		const [minute, day, quota] = await env.DB.batch<{ count?: number; daily_limit?: number }>([
+			countRequest(env.DB, `bot:${ownerId}`, MINUTE_SECONDS, nowSeconds),
+			countRequest(env.DB, `bot-day:${ownerId}`, DAY_SECONDS, nowSeconds),
+			env.DB.prepare('SELECT daily_limit FROM ChatQuotas WHERE user_id = ?').bind(ownerId),
+		]);
+
+		const dailyLimit = quota.results?.[0]?.daily_limit ?? getDefaultDailyQuota(env);
+		if ((day.results?.[0]?.count ?? 0) > dailyLimit) {
+			return { reason: 'daily_quota', limit: dailyLimit, retryAfter: secondsUntilWindowEnd(DAY_SECONDS, nowSeconds) };
+		}
+		if ((minute.results?.[0]?.count ?? 0) > BOT_LIMIT_PER_MINUTE) {
+			return { reason: 'bot_rate_limit', limit: BOT_LIMIT_PER_MINUTE, retryAfter: secondsUntilWindowEnd(MINUTE_SECONDS, nowSeconds) };
+		}
+		return null;
+	} catch (error) {
+		console.error(`[RATE LIMIT] Error checking limits of bot ${ownerId}:`, error);
+		return null;
+	}
+}
+
+/**
+ * 429 response with a Retry-After header
+ */
+export function rateLimitResponse(c: Context, exceeded: RateLimitExceeded): Response {
+	console.warn(`[RATE LIMIT] ${exceeded.reason} exceeded (limit ${exceeded.limit}), retry after ${exceeded.retryAfter}s`);
+	c.header('Retry-After', exceeded.retryAfter.toString());
+
+	const details =
+		exceeded.reason === 'daily_quota'
+			? 'This chatbot has reached its daily question limit'
+			: exceeded.reason === 'bot_rate_limit'
+				? 'This chatbot is receiving too many questions right now'
+				: 'Too many questions, please slow down';
+
+	return c.json({ error: 'Too many requests', details, reason: exceeded.reason, retryAfter: exceeded.retryAfter }, 429);
+}
+
+/**
+ * Count a question against a visitor IP's per-minute limit
+ * @returns The exceeded limit, or null if the question may be answered
+ */
+export async function checkIpRateLimit(db: D1Database, ip: string): Promise<RateLimitExceeded | null> {
+	const nowSeconds = Date.now() / 1000;
+
+	try {
+		const count = await countRequest(db, `ip:${ip}`, MINUTE_SECONDS, nowSeconds).first<number>('count');
+		if ((count ?? 0) > IP_LIMIT_PER_MINUTE) {
+			return { reason: 'ip_rate_limit', limit: IP_LIMIT_PER_MINUTE, retryAfter: secondsUntilWindowEnd(MINUTE_SECONDS, nowSeconds) };
+		}
+		return null;
+	} catch (error) {
+		console.error('[RATE LIMIT] Error checking IP limit:', error);
+		return null;
+	}
+}
+
+/**
+ * Per-IP limit for the routes that answer questions
+ * Runs before any retrieval or LLM work; requests with an API key are only
+ * limited per bot (see checkBotRateLimit)
+ */
+export const chatIpRateLimit = createMiddleware<ApiKeyEnv>(async (c, next) => {
+	if (c.get('apiKey')) {
+		await next();
+		return;
+	}
+
+	const limited = await checkIpRateLimit(c.env.DB, c.req.header('CF-Connecting-IP') || 'unknown');
+	if (limited) {
+		return rateLimitResponse(c, limited);
+	}
+
+	await next();
+});
+
+/**
+ * Delete counters whose window has ended (run by the cron trigger)
+ */
+export async function pruneRateLimitCounters(db: D1Database): Promise<void> {
+	try {
+		const { meta } = await db
+			.prepare('DELETE FROM RateLimitCounters WHERE expires_at < ?')
+			.bind(Math.floor(Date.now() / 1000))
+			.run();
+		console.log(`[RATE LIMIT] Pruned ${meta.changes ?? 0} expired counters`);
+	} catch (error) {
+		console.error('[RATE LIMIT] Error pruning counters:', error);
+	}
+}
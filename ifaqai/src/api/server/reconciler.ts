@@ -0,0 +1,254 @@
+/**
+ * D1 ↔ Vectorize reconciliation
+ * FAQ writes touch D1 and Vectorize separately (deletes tolerate Vectorize
+ * failures, updates re-embed after D1, workflows can fail between steps), so the
+ * two stores drift. The reconciler walks the FAQ id range, compares each FAQ with
+ * its vectors and repairs missing, orphaned and stale vectors.
+ *
+ * Vectorize cannot list an index, so ids are probed with getByIds: every id up to
+ * the highest FAQ id ever assigned, which also covers vectors of deleted FAQs.
+ */
+
+import type { Env } from '../../types/env';
+import type { ReconciliationIssue } from '../types';
+import { getBotSettings } from './botSettingsService';
+import { EMBEDDING_MODELS, getVectorIndex, type EmbeddingModelInfo } from './models';
+import { getFaqEmbeddingModels, getFaqVectorId, getOwnerNamespace, type FaqVectorSource } from './vectorIndex';
+import { deleteFaqVectors, upsertFaqVectors } from './indexingService';
+
+// FAQ ids checked per workflow step, at least
+export const RECONCILE_ID_RANGE = 100;
+// Chunk steps per run at most; larger id spaces get wider chunks so a run stays
+// well under the Workflows per-instance step limit
+export const RECONCILE_MAX_CHUNKS = 500;
+// Issues kept in a run's report; counters cover every issue
+export const RECONCILE_MAX_REPORTED_ISSUES = 500;
+// Ids per getByIds call
+const VECTOR_FETCH_BATCH_SIZE = 20;
+
+export type ReconciliationTrigger = 'cron' | 'admin';
+
+export interface ReconcileRangeResult {
+	checked: number;
+	missing: number;
+	orphaned: number;
+	stale: number;
+	repaired: number;
+	issues: ReconciliationIssue[];
+}
+
+/**
+ * Highest FAQ id ever assigned (FAQs uses AUTOINCREMENT, so deleted ids are never reused)
+ */
+export async function getMaxFaqId(db: D1Database): Promise<number> {
+	const row = await db
+		.prepare(
+			`SELECT COALESCE(
+				(SELECT seq FROM sqlite_sequence WHERE name = 'FAQs'),
+				(SELECT MAX(faq_id) FROM FAQs),
+				0
+			) AS max_id`
+		)
+		.first<{ max_id: number }>();
+	return row?.max_id ?? 0;
+}
+
+/**
+ * FAQ ids per chunk so that checking ids 1..maxFaqId takes at most RECONCILE_MAX_CHUNKS steps
+ */
+export function getReconcileIdRange(maxFaqId: number): number {
+	return Math.max(RECONCILE_ID_RANGE, Math.ceil(maxFaqId / RECONCILE_MAX_CHUNKS));
+}
+
+async function getVectors(index: Vectorize, ids: string[]): Promise<VectorizeVector[]> {
+	const vectors: VectorizeVector[] = [];
+	for (let i = 0; i < ids.length; i += VECTOR_FETCH_BATCH_SIZE) {
+		vectors.push(...(await index.getByIds(ids.slice(i, i + VECTOR_FETCH_BATCH_SIZE))));
+	}
+	return vectors;
+}
+
+function isStale(vector: VectorizeVector, faq: FaqVectorSource, model: EmbeddingModelInfo): boolean {
+	const metadata = vector.metadata || {};
+	return (
+		metadata.userId !== faq.userId.toString() ||
+		metadata.question !== faq.question ||
+		metadata.answer !== faq.answer ||
+		(vector.namespace !== undefined && vector.namespace !== getOwnerNamespace(faq.userId, model))
+	);
+}
+
+/**
+ * Reconcile the FAQ ids firstId..lastId (inclusive) across every configured index
+ * In dry-run mode issues are only reported
+ */
+export async function reconcileFaqRange(env: Env, firstId: number, lastId: number, dryRun: boolean): Promise<ReconcileRangeResult> {
+	const { results } = await env.DB.prepare('SELECT faq_id, user_id, question, answer FROM FAQs WHERE faq_id BETWEEN ? AND ?')
+		.bind(firstId, lastId)
+		.all<{ faq_id: number; user_id: number; question: string; answer: string }>();
+
+	const faqs = new Map<string, FaqVectorSource>(
+		(results || []).map((faq) => [
+			faq.faq_id.toString(),
+			{ faqId: faq.faq_id, userId: faq.user_id, question: faq.question, answer: faq.answer },
+		])
+	);
+
+	// Models each owner's FAQs must be indexed with
+	const expectedModels = new Map<string, string[]>();
+	for (const faq of faqs.values()) {
+		const owner = faq.userId.toString();
+		if (!expectedModels.has(owner)) {
+			const settings = await getBotSettings(env.DB, faq.userId);
+			expectedModels.set(owner, getFaqEmbeddingModels(settings).map((model) => model.id));
+		}
+	}
+
+	const result: ReconcileRangeResult = { checked: lastId - firstId + 1, missing: 0, orphaned: 0, stale: 0, repaired: 0, issues: [] };
+	const report = (issue: ReconciliationIssue) => {
+		result[issue.type]++;
+		result.issues.push(issue);
+	};
+
+	for (const model of EMBEDDING_MODELS) {
+		const index = getVectorIndex(env, model);
+		if (!index) {
+			continue;
+		}
+
+		const ids: string[] = [];
+		for (let faqId = firstId; faqId <= lastId; faqId++) {
+			ids.push(getFaqVectorId(faqId, model));
+		}
+		const vectors = new Map((await getVectors(index, ids)).map((vector) => [vector.id, vector]));
+
+		const orphanFaqIds: number[] = [];
+		const reembed: FaqVectorSource[] = [];
+
+		for (let faqId = firstId; faqId <= lastId; faqId++) {
+			const faq = faqs.get(faqId.toString());
+			const vectorId = getFaqVectorId(faqId, model);
+			const vector = vectors.get(vectorId);
+			const expected = faq ? expectedModels.get(faq.userId.toString())!.includes(model.id) : false;
+
+			if (vector && (!faq || !expected)) {
+				report({ type: 'orphaned', faqId: faqId.toString(), embeddingModel: model.id, ...(faq && { userId: faq.userId.toString() }) });
+				orphanFaqIds.push(faqId);
+			} else if (faq && expected && !vector) {
+				report({ type: 'missing', faqId: faqId.toString(), embeddingModel: model.id, userId: faq.userId.toString() });
+				reembed.push(faq);
+			} else if (faq && vector && isStale(vector, faq, model)) {
+				report({ type: 'stale', faqId: faqId.toString(), embeddingModel: model.id, userId: faq.userId.toString() });
+				reembed.push(faq);
+			}
+		}
+
+		if (dryRun) {
+			continue;
+		}
+
+		if (orphanFaqIds.length > 0) {
+			await deleteFaqVectors(env, orphanFaqIds, [model]);
+			result.repaired += orphanFaqIds.length;
+		}
+		// Upserting by the same id replaces stale vectors
+		result.repaired += await upsertFaqVectors(env, reembed, [model]);
+	}
+
+	return result;
+}
+
+/**
+ * Record a reconciliation run and start its ReconcileWorkflow
+ * @returns The run id, which is also the workflow instance id
+ */
+export async function startReconciliation(
+	env: Env,
+	options: { trigger: ReconciliationTrigger; dryRun: boolean; requestedBy?: number | string }
+): Promise<string> {
+	const runId = crypto.randomUUID();
+
+	await env.DB.prepare('INSERT INTO ReconciliationRuns (run_id, trigger, requested_by, dry_run, created_at) VALUES (?, ?, ?, ?, ?)')
+		.bind(runId, options.trigger, options.requestedBy ?? null, options.dryRun ? 1 : 0, new Date().toISOString())
+		.run();
+
+	try {
+		await env.RECONCILE_WORKFLOW.create({ id: runId, params: { dryRun: options.dryRun } });
+	} catch (error) {
+		await env.DB.prepare('DELETE FROM ReconciliationRuns WHERE run_id = ?').bind(runId).run();
+		throw error;
+	}
+
+	return runId;
+}
+
+// Workflow instance statuses that can still finish a run
+const LIVE_INSTANCE_STATUSES: InstanceStatus['status'][] = ['queued', 'running', 'paused', 'waiting', 'waitingForPause'];
+// A run without progress for this long is abandoned, whatever its instance reports (each chunk records progress)
+const RECONCILE_STALLED_AFTER_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * Whether a run recorded as running can still finish
+ * If its workflow instance ended without recording it (terminated, or stopped by
+ * the platform's limits) or it stalled, the run is marked failed so it no longer
+ * blocks the cron trigger.
+ */
+async function isRunInProgress(env: Env, run: { run_id: string; created_at: string; modified_at: string | null }): Promise<boolean> {
+	let instance: WorkflowInstance | null = null;
+	let status: InstanceStatus['status'] = 'unknown';
+	try {
+		const runInstance = await env.RECONCILE_WORKFLOW.get(run.run_id);
+		instance = runInstance;
+		status = (await runInstance.status()).status;
+	} catch (error) {
+		console.error(`[RECONCILE] Error reading workflow status of run ${run.run_id}:`, error);
+	}
+
+	const lastProgressAt = Date.parse(run.modified_at || run.created_at);
+	const stalled = !Number.isNaN(lastProgressAt) && Date.now() - lastProgressAt > RECONCILE_STALLED_AFTER_MS;
+	const live = LIVE_INSTANCE_STATUSES.includes(status);
+
+	if (live && !stalled) {
+		return true;
+	}
+	// Without a status (lookup failed) only the progress timestamp can tell
+	if (status === 'unknown' && !stalled) {
+		return true;
+	}
+
+	if (live && instance) {
+		await instance.terminate().catch((error) => console.error(`[RECONCILE] Error terminating stalled run ${run.run_id}:`, error));
+	}
+
+	const reason = stalled ? `Run made no progress for ${RECONCILE_STALLED_AFTER_MS / 3_600_000} hours` : `Workflow instance ended as ${status}`;
+	await env.DB.prepare("UPDATE ReconciliationRuns SET status = 'failed', error = ?, modified_at = ? WHERE run_id = ? AND status = 'running'")
+		.bind(reason, new Date().toISOString(), run.run_id)
+		.run();
+	console.warn(`[RECONCILE] Marked run ${run.run_id} failed: ${reason}`);
+	return false;
+}
+
+/**
+ * Cron trigger: repair drift, unless a run is still in progress
+ */
+export async function handleScheduledReconciliation(env: Env): Promise<void> {
+	try {
+		const { results } = await env.DB.prepare("SELECT run_id, created_at, modified_at FROM ReconciliationRuns WHERE status = 'running'").all<{
+			run_id: string;
+			created_at: string;
+			modified_at: string | null;
+		}>();
+
+		for (const run of results || []) {
+			if (await isRunInProgress(env, run)) {
+				console.log(`[RECONCILE] Skipping scheduled run, ${run.run_id} is still running`);
+				return;
+			}
+		}
+
+		const runId = await startReconciliation(env, { trigger: 'cron', dryRun: false });
+		console.log(`[RECONCILE] Scheduled run ${runId} started`);
+	} catch (error) {
+		console.error('[RECONCILE] Error starting scheduled run:', error);
+	}
+}
@@ -5,9 +5,28 @@
 import { Hono } from 'hono';
 import type { Env } from '../../types/env';
 import { handleAuthEndpoint } from './authHandler';
+import { allowApiKey, requireApiKey, requireIdentity, requireUser, requireUserOrApiKey } from './authMiddleware';
 import { handleGetCurrentUser, handleGetUserByUsername, handleCreateUser } from './userService';
 import { handleGetFAQs, handleUpdateFAQ, handleDeleteFAQ } from './faqService';
-import { handleChatbotQuery } from './chatbotService';
+import { handleGetBotSettings, handleUpdateBotSettings, handleGetPublicBotSettings, handleGetModels } from './botSettingsService';
+import { handleChatbotQuery, handleChatbotStream } from './chatbotService';
+import {
+	handleCreateConversation,
+	handleGetConversation,
+	handlePostConversationMessage,
+	handlePostConversationMessageStream,
+} from './conversationService';
+import { handleGetUnansweredQuestions, handleCreateFaqFromCluster, handleDismissCluster } from './unansweredService';
+import { handleSubmitMessageFeedback, handleGetFaqFeedback } from './feedbackService';
+import { handleGetAnalytics } from './analyticsService';
+import { handlePreviewFaqImport, handleStartFaqImport, handleGetFaqImportStatus } from './faqImportService';
+import { handleExportJson, handleExportFaqsCsv, handleExportConversationsCsv } from './exportService';
+import { handleListApiKeys, handleCreateApiKey, handleRevokeApiKey } from './apiKeyService';
+import { handleChatCompletions, handleListChatCompletionModels } from './chatCompletionsService';
+import { handleMcpRequest, handleMcpMethodNotAllowed } from './mcpService';
+import { adminRoutes } from './adminRoutes';
+import { widgetCors } from './widgetCors';
+import { chatIpRateLimit } from './rateLimiter';
 
 const app = new Hono<{ Bindings: Env }>();
 
@@ -22,17 +41,30 @@ app.get('/random', (c) => {
 
 // Auth routes
 app.get('/auth/me', async (c) => {
-	return handleAuthEndpoint(c.req.raw);
+	return handleAuthEndpoint(c.req.raw, c.env);
 });
 
 // User routes
-app.get('/users/me', handleGetCurrentUser);
+app.get('/users/me', requireIdentity, handleGetCurrentUser);
+app.get('/users/me/bot-settings', requireUser, handleGetBotSettings);
+app.put('/users/me/bot-settings', requireUser, handleUpdateBotSettings);
+// API keys can only be managed from the dashboard (Access login), not with another key
+app.get('/users/me/api-keys', requireUser, handleListApiKeys);
+app.post('/users/me/api-keys', requireUser, handleCreateApiKey);
+app.delete('/users/me/api-keys/:keyId', requireUser, handleRevokeApiKey);
 app.get('/users/:username', handleGetUserByUsername);
+app.use('/users/:username/bot-settings', widgetCors);
+app.get('/users/:username/bot-settings', handleGetPublicBotSettings);
 
-app.post('/users', handleCreateUser);
+app.post('/users', requireIdentity, handleCreateUser);
+
+// Model registry - chat and embedding models selectable in bot settings
+app.get('/models', handleGetModels);
 
 // FAQ routes
 app.get('/faqs', handleGetFAQs);
+// Registered before /faqs/:workflowId so "feedback" is not taken for a workflow id
+app.get('/faqs/feedback', requireUser, handleGetFaqFeedback);
 
 app.get('/faqs/:workflowId', async (c) => {
 	const workflowId = c.req.param('workflowId');
@@ -45,9 +77,11 @@ app.get('/faqs/:workflowId', async (c) => {
 	}
 });
 
-app.post('/faqs', async (c) => {
+app.post('/faqs', requireUserOrApiKey('faqs:write'), async (c) => {
 	try {
-		const { userId, question, answer } = await c.req.json();
+		const { question, answer } = await c.req.json();
+		// The FAQ is always created for the authenticated user
+		const userId = c.get('authUser').userId;
 		
 		console.log('FAQ creation request:', { userId, question, answer });
 		
@@ -55,10 +89,6 @@ app.post('/faqs', async (c) => {
 			return c.text('Missing question or answer', 400);
 		}
 		
-		if (!userId) {
-			return c.text('Missing userId', 400);
-		}
-		
 		console.log('Creating workflow instance...');
 		const workflowInstance = await c.env.FAQ_WORKFLOW.create({
 			params: {
@@ -89,291 +119,57 @@ app.post('/faqs', async (c) => {
 	}
 });
 
-app.put('/faqs/:id', handleUpdateFAQ);
-app.delete('/faqs/:id', handleDeleteFAQ);
-
-// Chatbot route - RAG-based query using Vectorize and LLM
-app.get('/chatbot', handleChatbotQuery);
-
-// Admin/Utility routes
-app.post('/admin/clear-vectorize', async (c) => {
-	try {
-		// Get all FAQ IDs from D1
-		const stmt = c.env.DB.prepare('SELECT faq_id FROM FAQs');
-		const { results } = await stmt.all<{ faq_id: number }>();
-
-		if (!results || results.length === 0) {
-			return c.json({ 
-				message: 'No FAQs found in D1 database',
-				deletedCount: 0 
-			});
-		}
-
-		const faqIds = results.map(row => row.faq_id.toString());
-		console.log(`[CLEAR VECTORIZE] Found ${faqIds.length} FAQs in D1, deleting from Vectorize...`);
-
-		// Delete all vectors from Vectorize in batches (Vectorize may have limits)
-		const batchSize = 100; // Delete in batches of 100
-		let deletedCount = 0;
-		let errors: string[] = [];
-
-		for (let i = 0; i < faqIds.length; i += batchSize) {
-			const batch = faqIds.slice(i, i + batchSize);
-			try {
-				const result = await c.env.VECTOR_INDEX.deleteByIds(batch);
-				console.log(`[CLEAR VECTORIZE] Deleted batch ${Math.floor(i / batchSize) + 1}:`, result);
-				deletedCount += batch.length;
-			} catch (error) {
-				const errorMsg = error instanceof Error ? error.message : 'Unknown error';
-				console.error(`[CLEAR VECTORIZE] Error deleting batch:`, errorMsg);
-				errors.push(`Batch ${Math.floor(i / batchSize) + 1}: ${errorMsg}`);
-			}
-		}
-
-		return c.json({
-			message: 'Vectorize database cleared',
-			totalFAQs: faqIds.length,
-			deletedCount,
-			errors: errors.length > 0 ? errors : undefined,
-		});
-	} catch (error) {
-		console.error('[CLEAR VECTORIZE] Error:', error);
-		const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-		return c.json({ 
-			error: 'Failed to clear Vectorize database',
-			details: errorMessage 
-		}, 500);
-	}
-});
-
-// Clear Vectorize for a specific user
-app.post('/admin/clear-vectorize/:userId', async (c) => {
-	try {
-		const userId = c.req.param('userId');
-
-		if (!userId) {
-			return c.json({ error: 'userId is required' }, 400);
-		}
-
-		// Get all FAQ IDs for this user from D1
-		const stmt = c.env.DB.prepare('SELECT faq_id FROM FAQs WHERE user_id = ?').bind(userId);
-		const { results } = await stmt.all<{ faq_id: number }>();
-
-		if (!results || results.length === 0) {
-			return c.json({ 
-				message: `No FAQs found for user ${userId}`,
-				deletedCount: 0 
-			});
-		}
-
-		const faqIds = results.map(row => row.faq_id.toString());
-		console.log(`[CLEAR VECTORIZE] Found ${faqIds.length} FAQs for user ${userId}, deleting from Vectorize...`);
-
-		// Delete all vectors from Vectorize in batches
-		const batchSize = 100;
-		let deletedCount = 0;
-		let errors: string[] = [];
+app.put('/faqs/:id', requireUserOrApiKey('faqs:write'), handleUpdateFAQ);
+app.delete('/faqs/:id', requireUserOrApiKey('faqs:write'), handleDeleteFAQ);
 
-		for (let i = 0; i < faqIds.length; i += batchSize) {
-			const batch = faqIds.slice(i, i + batchSize);
-			try {
-				const result = await c.env.VECTOR_INDEX.deleteByIds(batch);
-				console.log(`[CLEAR VECTORIZE] Deleted batch ${Math.floor(i / batchSize) + 1} for user ${userId}:`, result);
-				deletedCount += batch.length;
-			} catch (error) {
-				const errorMsg = error instanceof Error ? error.message : 'Unknown error';
-				console.error(`[CLEAR VECTORIZE] Error deleting batch for user ${userId}:`, errorMsg);
-				errors.push(`Batch ${Math.floor(i / batchSize) + 1}: ${errorMsg}`);
-			}
-		}
+// Bulk FAQ import - preview a CSV/JSON/Markdown file, then ingest it with one workflow
+app.post('/faqs/import/preview', requireUser, handlePreviewFaqImport);
+app.post('/faqs/import', requireUser, handleStartFaqImport);
+app.get('/faqs/import/:importId', requireUser, handleGetFaqImportStatus);
 
-		return c.json({
-			message: `Vectorize database cleared for user ${userId}`,
-			userId,
-			totalFAQs: faqIds.length,
-			deletedCount,
-			errors: errors.length > 0 ? errors : undefined,
-		});
-	} catch (error) {
-		console.error(`[CLEAR VECTORIZE] Error for user ${c.req.param('userId')}:`, error);
-		const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-		return c.json({ 
-			error: 'Failed to clear Vectorize database',
-			details: errorMessage 
-		}, 500);
-	}
-});
+// Unanswered question routes - chatbot questions the knowledge base could not answer
+app.get('/unanswered-questions', requireUser, handleGetUnansweredQuestions);
+app.post('/unanswered-questions/:clusterId/faq', requireUser, handleCreateFaqFromCluster);
+app.post('/unanswered-questions/:clusterId/dismiss', requireUser, handleDismissCluster);
 
-// Retrain embeddings for all FAQs (all users)
-app.post('/admin/retrain-embeddings', async (c) => {
-	try {
-		// Get all FAQs from D1
-		const stmt = c.env.DB.prepare('SELECT faq_id, user_id, question, answer FROM FAQs ORDER BY faq_id');
-		const { results } = await stmt.all<{ faq_id: number; user_id: number; question: string; answer: string }>();
+// Export routes - downloadable copy of the owner's knowledge base
+app.get('/export', requireUser, handleExportJson);
+app.get('/export/faqs.csv', requireUser, handleExportFaqsCsv);
+app.get('/export/conversations.csv', requireUser, handleExportConversationsCsv);
 
-		if (!results || results.length === 0) {
-			return c.json({ 
-				message: 'No FAQs found in D1 database',
-				retrainedCount: 0 
-			});
-		}
+// Analytics route - aggregated chatbot usage for the owner's dashboard
+app.get('/analytics', requireUser, handleGetAnalytics);
 
-		console.log(`[RETRAIN EMBEDDINGS] Found ${results.length} FAQs, regenerating embeddings...`);
+// Chatbot routes are also called by the embeddable widget from the owner's allowed origins
+app.use('/chatbot/*', widgetCors);
 
-		let retrainedCount = 0;
-		let errors: Array<{ faqId: number; error: string }> = [];
+// Anonymous, or an owner's backend with a chat:query API key (which pins the owner's bot)
+const chatApiKey = allowApiKey('chat:query');
 
-		// Process FAQs one by one to avoid overwhelming the AI service
-		for (const faq of results) {
-			try {
-				// Generate embedding from question and answer
-				const text = `${faq.question} ${faq.answer}`;
-				const embeddings = await c.env.AI.run('@cf/baai/bge-base-en-v1.5', {
-					text: text,
-				});
-
-				// Check if it's an async response
-				if ('request_id' in embeddings) {
-					throw new Error('Async embedding not supported');
-				}
-
-				// Type guard: check if it has data property
-				let vectors: number[] | null = null;
-				if ('data' in embeddings && embeddings.data) {
-					vectors = embeddings.data[0] || null;
-				}
-
-				if (!vectors) {
-					throw new Error('Embedding generation returned no data');
-				}
-
-				// Upsert to Vectorize
-				await c.env.VECTOR_INDEX.upsert([
-					{
-						id: faq.faq_id.toString(),
-						values: vectors,
-						metadata: {
-							userId: faq.user_id.toString(),
-							question: faq.question,
-							answer: faq.answer,
-						},
-					},
-				]);
-
-				retrainedCount++;
-				console.log(`[RETRAIN EMBEDDINGS] Retrained FAQ ${faq.faq_id} (${retrainedCount}/${results.length})`);
-			} catch (error) {
-				const errorMsg = error instanceof Error ? error.message : 'Unknown error';
-				console.error(`[RETRAIN EMBEDDINGS] Error retraining FAQ ${faq.faq_id}:`, errorMsg);
-				errors.push({ faqId: faq.faq_id, error: errorMsg });
-			}
-		}
-
-		return c.json({
-			message: 'Embedding retraining completed',
-			totalFAQs: results.length,
-			retrainedCount,
-			failedCount: errors.length,
-			errors: errors.length > 0 ? errors : undefined,
-		});
-	} catch (error) {
-		console.error('[RETRAIN EMBEDDINGS] Error:', error);
-		const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-		return c.json({ 
-			error: 'Failed to retrain embeddings',
-			details: errorMessage 
-		}, 500);
-	}
-});
-
-// Retrain embeddings for a specific user
-app.post('/admin/retrain-embeddings/:userId', async (c) => {
-	try {
-		const userId = c.req.param('userId');
-
-		if (!userId) {
-			return c.json({ error: 'userId is required' }, 400);
-		}
-
-		// Get all FAQs for this user from D1
-		const stmt = c.env.DB.prepare('SELECT faq_id, user_id, question, answer FROM FAQs WHERE user_id = ? ORDER BY faq_id').bind(userId);
-		const { results } = await stmt.all<{ faq_id: number; user_id: number; question: string; answer: string }>();
-
-		if (!results || results.length === 0) {
-			return c.json({ 
-				message: `No FAQs found for user ${userId}`,
-				retrainedCount: 0 
-			});
-		}
-
-		console.log(`[RETRAIN EMBEDDINGS] Found ${results.length} FAQs for user ${userId}, regenerating embeddings...`);
-
-		let retrainedCount = 0;
-		let errors: Array<{ faqId: number; error: string }> = [];
-
-		// Process FAQs one by one
-		for (const faq of results) {
-			try {
-				// Generate embedding from question and answer
-				const text = `${faq.question} ${faq.answer}`;
-				const embeddings = await c.env.AI.run('@cf/baai/bge-base-en-v1.5', {
-					text: text,
-				});
-
-				// Check if it's an async response
-				if ('request_id' in embeddings) {
-					throw new Error('Async embedding not supported');
-				}
-
-				// Type guard: check if it has data property
-				let vectors: number[] | null = null;
-				if ('data' in embeddings && embeddings.data) {
-					vectors = embeddings.data[0] || null;
-				}
-
-				if (!vectors) {
-					throw new Error('Embedding generation returned no data');
-				}
-
-				// Upsert to Vectorize
-				await c.env.VECTOR_INDEX.upsert([
-					{
-						id: faq.faq_id.toString(),
-						values: vectors,
-						metadata: {
-							userId: faq.user_id.toString(),
-							question: faq.question,
-							answer: faq.answer,
-						},
-					},
-				]);
-
-				retrainedCount++;
-				console.log(`[RETRAIN EMBEDDINGS] Retrained FAQ ${faq.faq_id} for user ${userId} (${retrainedCount}/${results.length})`);
-			} catch (error) {
-				const errorMsg = error instanceof Error ? error.message : 'Unknown error';
-				console.error(`[RETRAIN EMBEDDINGS] Error retraining FAQ ${faq.faq_id} for user ${userId}:`, errorMsg);
-				errors.push({ faqId: faq.faq_id, error: errorMsg });
-			}
-		}
-
-		return c.json({
-			message: `Embedding retraining completed for user ${userId}`,
-			userId,
-			totalFAQs: results.length,
-			retrainedCount,
-			failedCount: errors.length,
-			errors: errors.length > 0 ? errors : undefined,
-		});
-	} catch (error) {
-		console.error(`[RETRAIN EMBEDDINGS] Error for user ${c.req.param('userId')}:`, error);
-		const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-		return c.json({ 
-			error: 'Failed to retrain embeddings',
-			details: errorMessage 
-		}, 500);
-	}
-});
+// Chatbot route - RAG-based query using Vectorize and LLM
+// Routes that answer questions are rate limited per IP here, and per bot once the owner is known
+app.get('/chatbot', chatApiKey, chatIpRateLimit, handleChatbotQuery);
+app.get('/chatbot/stream', chatApiKey, chatIpRateLimit, handleChatbotStream);
+
+// Chatbot conversation routes - multi-turn chat with server-side history
+app.post('/chatbot/conversations', chatApiKey, handleCreateConversation);
+app.get('/chatbot/conversations/:id', chatApiKey, handleGetConversation);
+app.post('/chatbot/conversations/:id/messages', chatApiKey, chatIpRateLimit, handlePostConversationMessage);
+app.post('/chatbot/conversations/:id/messages/stream', chatApiKey, chatIpRateLimit, handlePostConversationMessageStream);
+app.put('/chatbot/conversations/:id/messages/:messageId/feedback', handleSubmitMessageFeedback);
+
+// OpenAI-compatible routes - owners' backends call their bot with OpenAI client libraries (chat:query API key required)
+app.get('/v1/models', requireApiKey('chat:query'), handleListChatCompletionModels);
+app.post('/v1/chat/completions', requireApiKey('chat:query'), handleChatCompletions);
+
+// MCP route - AI agents use a bot's knowledge base as tools (streamable HTTP transport)
+// Browser clients are limited to the bot's allowed origins; an API key pins the owner's bot
+app.use('/mcp/*', widgetCors);
+app.post('/mcp/:username', chatApiKey, handleMcpRequest);
+app.on(['GET', 'DELETE'], '/mcp/:username', handleMcpMethodNotAllowed);
+
+// Admin/Utility routes (admin role required)
+app.route('/admin', adminRoutes);
 
 export const apiRoutes = app;
 
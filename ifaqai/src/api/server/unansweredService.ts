@@ -0,0 +1,309 @@
+/**
+ * Unanswered question service
+ * Logs chatbot questions the knowledge base could not answer, groups
+ * near-duplicates into clusters by embedding similarity, and lets owners
+ * turn a cluster into a new FAQ through the FAQWorkflow
+ */
+
+import type { Context } from 'hono';
+import type { Env } from '../../types/env';
+import type { UnansweredQuestionCluster, UnansweredReason } from '../types';
+import type { AuthEnv } from './authMiddleware';
+import { generateEmbedding } from './models';
+
+interface DbQuestionCluster {
+	cluster_id: number;
+	user_id: number;
+	representative_question: string;
+	centroid: string;
+	question_count: number;
+	status: 'open' | 'converted' | 'dismissed';
+	last_asked_at: string;
+}
+
+// Cosine similarity above which a question joins an existing cluster
+export const CLUSTER_SIMILARITY_THRESHOLD = 0.85;
+const MAX_CLUSTERS_COMPARED = 200;
+const MAX_QUESTION_CHARS = 1000;
+const SAMPLE_QUESTIONS_PER_CLUSTER = 5;
+
+/**
+ * How well retrieval matched a question
+ * topScore is the best vector similarity among the context FAQs (null when
+ * only keyword search matched); rerank scores are not used because they are
+ * not on the same scale as minRelevanceScore
+ */
+export interface RetrievalConfidence {
+	topScore: number | null;
+	minRelevanceScore: number;
+}
+
+// A top similarity this close above the relevance threshold is a borderline match
+export const LOW_CONFIDENCE_MARGIN = 0.05;
+
+/**
+ * Decide whether a chatbot answer leaves the question unanswered
+ * @returns The reason to log it, or null if the knowledge base answered it
+ */
+export function getUnansweredReason(result: { contextUsed: boolean; confidence: RetrievalConfidence }): UnansweredReason | null {
+	if (!result.contextUsed) {
+		return 'no_match';
+	}
+	// Context was retrieved but no FAQ is clearly similar to the question
+	const { topScore, minRelevanceScore } = result.confidence;
+	if (topScore === null || topScore < minRelevanceScore + LOW_CONFIDENCE_MARGIN) {
+		return 'low_confidence';
+	}
+	return null;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+	let dot = 0;
+	let normA = 0;
+	let normB = 0;
+	for (let i = 0; i < Math.min(a.length, b.length); i++) {
+		dot += a[i] * b[i];
+		normA += a[i] * a[i];
+		normB += b[i] * b[i];
+	}
+	return normA === 0 || normB === 0 ? 0 : dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * Log an unanswered question and add it to the most similar open cluster (or a new one)
+ * Clustering always uses the default embedding model, so clusters stay comparable
+ * when the bot's own embedding model changes
+ */
+export async function recordUnansweredQuestion(
+	env: Env,
+	userId: string | number,
+	question: string,
+	reason: UnansweredReason
+): Promise<void> {
+	const text = question.trim().slice(0, MAX_QUESTION_CHARS);
+	if (!text) {
+		return;
+	}
+
+	const embedding = await generateEmbedding(env.AI, text);
+
+	const { results } = await env.DB.prepare(
+		`SELECT cluster_id, centroid, question_count FROM QuestionClusters
+		WHERE user_id = ? AND status = 'open'
+		ORDER BY last_asked_at DESC
+		LIMIT ?`
+	)
+		.bind(userId, MAX_CLUSTERS_COMPARED)
+		.all<Pick<DbQuestionCluster, 'cluster_id' | 'centroid' | 'question_count'>>();
+
+	let best: { cluster: Pick<DbQuestionCluster, 'cluster_id' | 'centroid' | 'question_count'>; centroid: number[]; similarity: number } | null = null;
+	for (const cluster of results || []) {
+		const centroid = JSON.parse(cluster.centroid) as number[];
+		const similarity = cosineSimilarity(embedding, centroid);
+		if (similarity >= CLUSTER_SIMILARITY_THRESHOLD && (!best || similarity > best.similarity)) {
+			best = { cluster, centroid, similarity };
+		}
+	}
+
+	const now = new Date().toISOString();
+	let clusterId: number;
+
+	if (best) {
+		// Running mean keeps the centroid representative as the cluster grows
+		const count = best.cluster.question_count;
+		const centroid = best.centroid.map((value, i) => (value * count + embedding[i]) / (count + 1));
+		await env.DB.prepare(
+			'UPDATE QuestionClusters SET centroid = ?, question_count = question_count + 1, last_asked_at = ? WHERE cluster_id = ?'
+		)
+			.bind(JSON.stringify(centroid), now, best.cluster.cluster_id)
+			.run();
+		clusterId = best.cluster.cluster_id;
+		console.log(`[UNANSWERED] Question added to cluster ${clusterId} (similarity ${best.similarity.toFixed(3)})`);
+	} else {
+		const insertResult = await env.DB.prepare(
+			`INSERT INTO QuestionClusters (user_id, representative_question, centroid, question_count, created_at, last_asked_at)
+			VALUES (?, ?, ?, 1, ?, ?)`
+		)
+			.bind(userId, text, JSON.stringify(embedding), now, now)
+			.run();
+		clusterId = insertResult.meta.last_row_id;
+		console.log(`[UNANSWERED] Question started cluster ${clusterId}`);
+	}
+
+	await env.DB.prepare(
+		'INSERT INTO UnansweredQuestions (user_id, cluster_id, question, reason, created_at) VALUES (?, ?, ?, ?, ?)'
+	)
+		.bind(userId, clusterId, text, reason, now)
+		.run();
+}
+
+/**
+ * Log the question in the background if the answer did not come from the knowledge base
+ */
+export function trackUnansweredQuestion<E extends { Bindings: Env }>(
+	c: Context<E>,
+	userId: string | number,
+	question: string,
+	result: { contextUsed: boolean; confidence: RetrievalConfidence }
+): void {
+	const reason = getUnansweredReason(result);
+	if (!reason) {
+		return;
+	}
+
+	c.executionCtx.waitUntil(
+		recordUnansweredQuestion(c.env, userId, question, reason).catch((error) =>
+			console.error('[UNANSWERED] Error recording unanswered question:', error)
+		)
+	);
+}
+
+async function getOwnedCluster(db: D1Database, clusterId: string, userId: string | number): Promise<DbQuestionCluster | null> {
+	return db
+		.prepare(
+			'SELECT cluster_id, user_id, representative_question, centroid, question_count, status, last_asked_at FROM QuestionClusters WHERE cluster_id = ? AND user_id = ?'
+		)
+		.bind(clusterId, userId)
+		.first<DbQuestionCluster>();
+}
+
+/**
+ * Handle GET /api/unanswered-questions
+ * Returns the authenticated user's open clusters, most asked first
+ */
+export async function handleGetUnansweredQuestions(c: Context<AuthEnv>): Promise<Response> {
+	try {
+		const userId = c.get('authUser').userId;
+
+		const { results: clusters } = await c.env.DB.prepare(
+			`SELECT cluster_id, representative_question, question_count, last_asked_at FROM QuestionClusters
+			WHERE user_id = ? AND status = 'open'
+			ORDER BY question_count DESC, last_asked_at DESC`
+		)
+			.bind(userId)
+			.all<Pick<DbQuestionCluster, 'cluster_id' | 'representative_question' | 'question_count' | 'last_asked_at'>>();
+
+		const { results: questions } = await c.env.DB.prepare(
+			`SELECT q.cluster_id, q.question FROM UnansweredQuestions q
+			JOIN QuestionClusters qc ON qc.cluster_id = q.cluster_id
+			WHERE q.user_id = ? AND qc.status = 'open'
+			ORDER BY q.created_at DESC`
+		)
+			.bind(userId)
+			.all<{ cluster_id: number; question: string }>();
+
+		const samples = new Map<number, string[]>();
+		for (const row of questions || []) {
+			const clusterSamples = samples.get(row.cluster_id) || [];
+			const isDuplicate = clusterSamples.some((sample) => sample.toLowerCase() === row.question.toLowerCase());
+			if (!isDuplicate && clusterSamples.length < SAMPLE_QUESTIONS_PER_CLUSTER) {
+				clusterSamples.push(row.question);
+			}
+			samples.set(row.cluster_id, clusterSamples);
+		}
+
+		const response: UnansweredQuestionCluster[] = (clusters || []).map((cluster) => ({
+			id: cluster.cluster_id.toString(),
+			representativeQuestion: cluster.representative_question,
+			questionCount: cluster.question_count,
+			sampleQuestions: samples.get(cluster.cluster_id) || [],
+			lastAskedAt: cluster.last_asked_at,
+		}));
+
+		return c.json(response);
+	} catch (error) {
+		console.error('[UNANSWERED] Error fetching unanswered questions:', error);
+		const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+		return c.json({ error: 'Failed to fetch unanswered questions', details: errorMessage }, 500);
+	}
+}
+
+/**
+ * Handle POST /api/unanswered-questions/:clusterId/faq
+ * Starts the FAQWorkflow with the cluster's question (or an edited one) and the owner's answer
+ */
+export async function handleCreateFaqFromCluster(c: Context<AuthEnv>): Promise<Response> {
+	const clusterId = c.req.param('clusterId');
+
+	if (!clusterId) {
+		return c.json({ error: 'Cluster ID is required' }, 400);
+	}
+
+	try {
+		const userId = c.get('authUser').userId;
+		const body = await c.req.json().catch(() => ({}));
+		const { question, answer } = body as { question?: string; answer?: string };
+
+		if (!answer?.trim()) {
+			return c.json({ error: 'Answer is required' }, 400);
+		}
+
+		const cluster = await getOwnedCluster(c.env.DB, clusterId, userId);
+		if (!cluster) {
+			return c.json({ error: 'Unanswered question not found' }, 404);
+		}
+		if (cluster.status !== 'open') {
+			return c.json({ error: `Unanswered question was already ${cluster.status}` }, 409);
+		}
+
+		const workflowInstance = await c.env.FAQ_WORKFLOW.create({
+			params: {
+				userId,
+				question: question?.trim() || cluster.representative_question,
+				answer: answer.trim(),
+			},
+		});
+
+		await c.env.DB.prepare("UPDATE QuestionClusters SET status = 'converted', faq_workflow_id = ? WHERE cluster_id = ?")
+			.bind(workflowInstance.id, cluster.cluster_id)
+			.run();
+
+		console.log(`[UNANSWERED] Cluster ${clusterId} converted, FAQ workflow ${workflowInstance.id}`);
+
+		return c.json(
+			{
+				message: 'FAQ creation started',
+				workflowId: workflowInstance.id,
+				status: 'pending',
+			},
+			201
+		);
+	} catch (error) {
+		console.error('[UNANSWERED] Error creating FAQ from cluster:', error);
+		const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+		return c.json({ error: 'Failed to create FAQ', details: errorMessage }, 500);
+	}
+}
+
+/**
+ * Handle POST /api/unanswered-questions/:clusterId/dismiss
+ * Hides a cluster without creating an FAQ; similar questions start a new cluster
+ */
+export async function handleDismissCluster(c: Context<AuthEnv>): Promise<Response> {
+	const clusterId = c.req.param('clusterId');
+
+	if (!clusterId) {
+		return c.json({ error: 'Cluster ID is required' }, 400);
+	}
+
+	try {
+		const userId = c.get('authUser').userId;
+		const cluster = await getOwnedCluster(c.env.DB, clusterId, userId);
+		if (!cluster) {
+			return c.json({ error: 'Unanswered question not found' }, 404);
+		}
+
+		await c.env.DB.prepare("UPDATE QuestionClusters SET status = 'dismissed' WHERE cluster_id = ?")
+			.bind(cluster.cluster_id)
+			.run();
+
+		return c.json({
+			message: 'Unanswered question dismissed',
+			dismissedId: clusterId,
+		});
+	} catch (error) {
+		console.error('[UNANSWERED] Error dismissing cluster:', error);
+		const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+		return c.json({ error: 'Failed to dismiss unanswered question', details: errorMessage }, 500);
+	}
+}
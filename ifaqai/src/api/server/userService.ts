@@ -5,7 +5,8 @@
 
 import type { Context } from 'hono';
 import type { Env } from '../../types/env';
-import type { User, DbUser, FAQ } from '../types';
+import type { User, DbUser, FAQ, UserRole } from '../types';
+import type { IdentityEnv } from './authMiddleware';
 
 /**
  * Convert database user to application user
@@ -24,6 +25,9 @@ function dbUserToUser(dbUser: DbUser): User {
     firstName: firstName || undefined,
     lastName: lastName || undefined,
     bio: dbUser.user_bio || undefined,
+    role: dbUser.role || 'user',
+    minRelevanceScore: dbUser.min_relevance_score ?? null,
+    rerankEnabled: Boolean(dbUser.rerank_enabled),
     faqs: [], // FAQs will be loaded separately if needed
     createdAt: dbUser.created_at,
     modifiedAt: dbUser.modified_at || undefined,
@@ -154,6 +158,39 @@ export async function getUserByUsername(
   }
 }
 
+/**
+ * Get user from D1 database by id
+ * @param db - D1 database binding
+ * @param userId - User id
+ * @returns User object or null if not found
+ */
+export async function getUserById(db: D1Database, userId: string | number): Promise<User | null> {
+  const result = await db.prepare('SELECT * FROM Users WHERE user_id = ?').bind(userId).first<DbUser>();
+  return result ? dbUserToUser(result) : null;
+}
+
+/**
+ * Set a user's role in D1 database
+ * @param db - D1 database binding
+ * @param userId - User id
+ * @param role - Role to assign
+ */
+export async function setUserRole(
+  db: D1Database,
+  userId: string | number,
+  role: UserRole
+): Promise<void> {
+  const modifiedAt = new Date().toISOString();
+  const { meta } = await db
+    .prepare('UPDATE Users SET role = ?, modified_at = ? WHERE user_id = ?')
+    .bind(role, modifiedAt, userId)
+    .run();
+
+  if (!meta.changes) {
+    throw new Error(`No user found with id ${userId}`);
+  }
+}
+
 /**
  * Create or update user in D1 database
  * @param db - D1 database binding
@@ -174,11 +211,14 @@ export async function upsertUser(db: D1Database, user: User): Promise<User> {
       const lastName = user.lastName || (nameParts.length > 1 ? nameParts.slice(1).join(' ') : '');
       const modifiedAt = new Date().toISOString();
       const userBio = user.bio || null;
+      // Profile updates that omit the chatbot settings keep the current ones
+      const minRelevanceScore = user.minRelevanceScore !== undefined ? user.minRelevanceScore : existingUser.minRelevanceScore ?? null;
+      const rerankEnabled = (user.rerankEnabled ?? existingUser.rerankEnabled) ? 1 : 0;
       
       // 5.a write the user update to the database
       console.log('Updating user in database...');
-      const sql = `UPDATE Users SET user_name = ?, first_name = ?, last_name = ?, user_bio = ?, modified_at = ? WHERE email = ?`;
-      const sqlParams = [user.username, firstName, lastName, userBio, modifiedAt, user.email];
+      const sql = `UPDATE Users SET user_name = ?, first_name = ?, last_name = ?, user_bio = ?, min_relevance_score = ?, rerank_enabled = ?, modified_at = ? WHERE email = ?`;
+      const sqlParams = [user.username, firstName, lastName, userBio, minRelevanceScore, rerankEnabled, modifiedAt, user.email];
       console.log('SQL query:', sql);
       console.log('SQL parameters:', sqlParams);
       const { meta } = await db.prepare(sql).bind(...sqlParams).run();
@@ -200,11 +240,13 @@ export async function upsertUser(db: D1Database, user: User): Promise<User> {
       const lastName = user.lastName || (nameParts.length > 1 ? nameParts.slice(1).join(' ') : '');
       const createdAt = new Date().toISOString();
       const userBio = user.bio || null;
+      const minRelevanceScore = user.minRelevanceScore ?? null;
+      const rerankEnabled = user.rerankEnabled ? 1 : 0;
       
       // 5.a write the user to the database
       console.log('Inserting user into database...');
-      const sql = `INSERT INTO Users (email, user_name, first_name, last_name, user_bio, created_at) VALUES (?, ?, ?, ?, ?, ?)`;
-      const sqlParams = [user.email, user.username, firstName, lastName, userBio, createdAt];
+      const sql = `INSERT INTO Users (email, user_name, first_name, last_name, user_bio, min_relevance_score, rerank_enabled, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`;
+      const sqlParams = [user.email, user.username, firstName, lastName, userBio, minRelevanceScore, rerankEnabled, createdAt];
       console.log('SQL query:', sql);
       console.log('SQL parameters:', sqlParams);
       const { meta } = await db.prepare(sql).bind(...sqlParams).run();
@@ -232,14 +274,12 @@ export async function upsertUser(db: D1Database, user: User): Promise<User> {
 /**
  * Handle GET /api/users/me endpoint
  * Returns current user based on email from ZeroTrust authentication
- * Filters by email column in Users table
+ * The email always comes from the verified identity, never from the query string
  */
 export async function handleGetCurrentUser(
-  c: Context<{ Bindings: Env }>
+  c: Context<IdentityEnv>
 ): Promise<Response> {
-  // Extract email from query parameter (required for filtering)
-  const email = c.req.query('email');
-  const userId = c.req.query('userId');
+  const email = c.get('identity').email;
   
   // Check if database is available
   if (!c.env.DB) {
@@ -251,23 +291,7 @@ export async function handleGetCurrentUser(
   }
 
   try {
-    let user: User | null = null;
-    
-    // Support both email and userId queries
-    if (email) {
-      user = await getUserByEmail(c.env.DB, email, { includeFaqs: true });
-    } else if (userId) {
-      const stmt = c.env.DB.prepare('SELECT * FROM Users WHERE user_id = ?').bind(userId);
-      const result = await stmt.first<DbUser>();
-      if (result) {
-        user = dbUserToUser(result);
-        if (user.userId !== undefined && user.userId !== null) {
-          user.faqs = await getFAQsByUserId(c.env.DB, user.userId);
-        }
-      }
-    } else {
-      return c.json({ error: 'Email or userId parameter is required' }, 400);
-    }
+    const user = await getUserByEmail(c.env.DB, email, { includeFaqs: true });
     
     if (!user) {
       return c.json({ error: 'User not found' }, 404);
@@ -339,16 +363,28 @@ export async function handleGetUserByUsername(
 
 /**
  * Handle POST /api/users endpoint
- * Creates or updates a user in the database
+ * Creates or updates the authenticated user in the database
  */
 export async function handleCreateUser(
-  c: Context<{ Bindings: Env }>
+  c: Context<IdentityEnv>
 ): Promise<Response> {
   try {
     const user = await c.req.json() as User;
-    
-    if (!user.email) {
-      return c.json({ error: 'Email is required' }, 400);
+
+    // Users can only create or update their own record
+    user.email = c.get('identity').email;
+    delete user.userId;
+
+    if (
+      user.minRelevanceScore !== undefined &&
+      user.minRelevanceScore !== null &&
+      (typeof user.minRelevanceScore !== 'number' || user.minRelevanceScore < 0 || user.minRelevanceScore > 1)
+    ) {
+      return c.json({ error: 'minRelevanceScore must be a number between 0 and 1' }, 400);
+    }
+
+    if (user.rerankEnabled !== undefined && typeof user.rerankEnabled !== 'boolean') {
+      return c.json({ error: 'rerankEnabled must be a boolean' }, 400);
     }
 
     // Check if database is available
@@ -0,0 +1,82 @@
+/**
+ * Helpers for FAQ vectors stored in Vectorize
+ * Every owner's vectors live in their own namespace, so chatbot queries
+ * only search that owner's FAQs instead of filtering a global topK.
+ * Vectors from different embedding models are never mixed: each model gets
+ * its own namespace and vector ids, in the index matching its dimensions
+ */
+
+import type { BotSettings } from '../types';
+import { DEFAULT_EMBEDDING_MODEL, getEmbeddingModel, type EmbeddingModelInfo } from './models';
+
+export interface FaqVectorSource {
+	faqId: number | string;
+	userId: number | string;
+	question: string;
+	answer: string;
+}
+
+/**
+ * Vectorize namespace holding a user's FAQ vectors for an embedding model
+ * The default model keeps the original `user-<id>` namespace
+ */
+export function getOwnerNamespace(
+	userId: number | string,
+	model: EmbeddingModelInfo = DEFAULT_EMBEDDING_MODEL
+): string {
+	return model.id === DEFAULT_EMBEDDING_MODEL.id ? `user-${userId}` : `user-${userId}-${model.key}`;
+}
+
+/**
+ * Vector id of an FAQ for an embedding model
+ * Ids are unique across an index, so models sharing an index need distinct ids
+ */
+export function getFaqVectorId(faqId: number | string, model: EmbeddingModelInfo = DEFAULT_EMBEDDING_MODEL): string {
+	return model.id === DEFAULT_EMBEDDING_MODEL.id ? faqId.toString() : `${faqId}:${model.key}`;
+}
+
+/**
+ * FAQ id encoded in a vector id
+ */
+export function getFaqIdFromVectorId(vectorId: string): string {
+	return vectorId.split(':')[0];
+}
+
+/**
+ * Build the Vectorize record for an FAQ embedding
+ */
+export function toFaqVector(
+	faq: FaqVectorSource,
+	values: number[],
+	model: EmbeddingModelInfo = DEFAULT_EMBEDDING_MODEL
+): VectorizeVector {
+	return {
+		id: getFaqVectorId(faq.faqId, model),
+		values,
+		namespace: getOwnerNamespace(faq.userId, model),
+		metadata: {
+			userId: faq.userId.toString(),
+			question: faq.question,
+			answer: faq.answer,
+		},
+	};
+}
+
+/**
+ * Embedding models an owner's FAQs must be indexed with:
+ * the active model, plus the target model while a reindex is in progress
+ */
+export function getFaqEmbeddingModels(settings: Pick<BotSettings, 'embeddingModel' | 'pendingEmbeddingModel'>): EmbeddingModelInfo[] {
+	const models = [getEmbeddingModel(settings.embeddingModel)];
+	if (settings.pendingEmbeddingModel && settings.pendingEmbeddingModel !== models[0].id) {
+		models.push(getEmbeddingModel(settings.pendingEmbeddingModel));
+	}
+	return models;
+}
+
+/**
+ * Text embedded for an FAQ (question and answer together for better semantic search)
+ */
+export function getFaqEmbeddingText(faq: Pick<FaqVectorSource, 'question' | 'answer'>): string {
+	return `${faq.question} ${faq.answer}`;
+}
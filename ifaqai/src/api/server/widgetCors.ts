@@ -0,0 +1,99 @@
+/**
+ * CORS for the embeddable chat widget
+ * widget.js runs on the bot owner's website and calls the public chatbot API
+ * cross-origin. A request is allowed when its Origin is in the owner's
+ * allowedOrigins bot setting; other origins get no CORS headers, so browsers
+ * block them. Same-origin requests (the app itself) are unaffected.
+ */
+
+import type { Context, MiddlewareHandler } from 'hono';
+import { cors } from 'hono/cors';
+import type { Env } from '../../types/env';
+import type { BotSettings } from '../types';
+import { getBotSettings } from './botSettingsService';
+import { getUserByUsername } from './userService';
+
+const CONVERSATION_PATH = /\/chatbot\/conversations\/([^/]+)/;
+const BOT_SETTINGS_PATH = /\/users\/([^/]+)\/bot-settings$/;
+const MCP_PATH = /\/mcp\/([^/]+)$/;
+
+/**
+ * The bot owner a widget request is for, read from the same place the route's handler reads it:
+ * the conversation in the path (query parameters are ignored there), the :username of the
+ * public bot settings or MCP route, or else ?userId= / ?username=. The widget adds those to
+ * every request so preflights can be checked too; conversation creation reads its owner from
+ * the body, which preflights cannot see, so its handler checks the origin again.
+ */
+async function getRequestOwnerId(c: Context<{ Bindings: Env }>): Promise<string | number | null> {
+	const conversationId = c.req.path.match(CONVERSATION_PATH)?.[1];
+	if (conversationId) {
+		const conversation = await c.env.DB.prepare('SELECT user_id FROM Conversations WHERE conversation_id = ?')
+			.bind(decodeURIComponent(conversationId))
+			.first<{ user_id: number }>();
+		return conversation?.user_id ?? null;
+	}
+
+	const pathUsername = c.req.path.match(BOT_SETTINGS_PATH)?.[1] ?? c.req.path.match(MCP_PATH)?.[1];
+	const userId = pathUsername ? undefined : c.req.query('userId');
+	if (userId) {
+		return userId;
+	}
+
+	const username = pathUsername ?? c.req.query('username');
+	if (username) {
+		const owner = await getUserByUsername(c.env.DB, decodeURIComponent(username), { includeFaqs: false });
+		return owner?.userId ?? null;
+	}
+
+	return null;
+}
+
+/**
+ * Whether a request may act on a bot, judged by its Origin
+ * Requests without an Origin (servers, agents) and same-origin requests always may;
+ * cross-origin browser requests only from the bot's allowedOrigins.
+ */
+export function isOriginAllowed(c: Context, settings: Pick<BotSettings, 'allowedOrigins'> | undefined): boolean {
+	const origin = c.req.header('Origin');
+	return !origin || origin === new URL(c.req.url).origin || Boolean(settings?.allowedOrigins?.includes(origin));
+}
+
+/**
+ * 403 for a cross-origin request the bot does not allow
+ * Handlers return this after resolving the bot they act on, because CORS headers
+ * only stop browsers from reading responses, not the request from running
+ */
+export function forbiddenOriginResponse(c: Context): Response {
+	console.warn(`[WIDGET CORS] Rejected origin ${c.req.header('Origin')} for ${c.req.path}`);
+	return c.json({ error: 'Forbidden', details: 'Origin is not allowed for this bot' }, 403);
+}
+
+async function getAllowedOrigin(origin: string, c: Context<{ Bindings: Env }>): Promise<string | null> {
+	if (!origin || origin === new URL(c.req.url).origin) {
+		return null;
+	}
+
+	try {
+		const ownerId = await getRequestOwnerId(c);
+		if (ownerId === null) {
+			return null;
+		}
+
+		const settings = await getBotSettings(c.env.DB, ownerId);
+		return settings.allowedOrigins?.includes(origin) ? origin : null;
+	} catch (error) {
+		console.error('[WIDGET CORS] Error checking origin:', error);
+		return null;
+	}
+}
+
+/**
+ * CORS middleware for the public chatbot routes the widget uses (and the MCP route)
+ */
+export const widgetCors: MiddlewareHandler<{ Bindings: Env }> = cors({
+	origin: getAllowedOrigin,
+	allowMethods: ['GET', 'POST', 'PUT', 'OPTIONS'],
+	allowHeaders: ['Content-Type', 'Accept', 'MCP-Protocol-Version'],
+	exposeHeaders: ['Retry-After'],
+	maxAge: 600,
+});
@@ -2,6 +2,8 @@
  * Shared types for API requests and responses
  */
 
+export type UserRole = 'user' | 'admin';
+
 /**
  * Database User schema (matches D1 table structure)
  */
@@ -12,6 +14,9 @@ export interface DbUser {
   first_name: string;
   last_name: string;
   user_bio?: string | null;
+  role?: UserRole | null;
+  min_relevance_score?: number | null;
+  rerank_enabled?: number | null;
   created_at: string; // ISO timestamp
   modified_at?: string | null; // ISO timestamp
 }
@@ -28,6 +33,9 @@ export interface User {
   email: string;
   password?: string;
   bio?: string;
+  role?: UserRole;
+  minRelevanceScore?: number | null; // Chatbot similarity threshold (0-1), null = default
+  rerankEnabled?: boolean; // Rerank retrieved FAQs with a cross-encoder before answering
   faqs: FAQ[];
   createdAt?: string;
   modifiedAt?: string;
@@ -44,6 +52,124 @@ export interface FAQ {
   id: string;
 }
 
+/**
+ * Bulk FAQ import
+ */
+export type FaqImportFormat = 'csv' | 'json' | 'markdown';
+
+export interface FaqImportItem {
+  row: number; // Line number (CSV, Markdown) or 1-based array position (JSON)
+  question: string;
+  answer: string;
+  duplicateOf?: 'file' | 'existing'; // Same question earlier in the file or already in the FAQs
+}
+
+export interface FaqImportError {
+  row: number;
+  message: string;
+}
+
+export interface FaqImportPreview {
+  format: FaqImportFormat;
+  items: FaqImportItem[];
+  errors: FaqImportError[];
+}
+
+export interface FaqImportStatus {
+  importId: string;
+  status: 'running' | 'completed' | 'failed';
+  total: number;
+  processed: number;
+  error?: string;
+  createdAt: string;
+}
+
+export interface IngestionJobStatus {
+  jobId: string;
+  /** Owner whose FAQs are re-embedded; absent when the job covers every owner */
+  userId?: string;
+  status: 'running' | 'completed' | 'failed';
+  total: number;
+  processed: number;
+  error?: string;
+  createdAt: string;
+}
+
+export interface ReconciliationIssue {
+  /**
+   * missing: the FAQ has no vector for a model it should be indexed with
+   * orphaned: the vector has no FAQ, or belongs to a model the bot does not use
+   * stale: the vector's owner, question or answer no longer matches D1
+   */
+  type: 'missing' | 'orphaned' | 'stale';
+  faqId: string;
+  embeddingModel: string;
+  userId?: string;
+}
+
+export interface ReconciliationRun {
+  runId: string;
+  trigger: 'cron' | 'admin';
+  dryRun: boolean;
+  status: 'running' | 'completed' | 'failed';
+  checked: number;
+  missing: number;
+  orphaned: number;
+  stale: number;
+  repaired: number;
+  /** First issues found (see RECONCILE_MAX_REPORTED_ISSUES); omitted from run lists */
+  issues?: ReconciliationIssue[];
+  error?: string;
+  createdAt: string;
+  modifiedAt?: string;
+}
+
+/**
+ * What an API key may do
+ * chat:query: ask the owner's bot (chatbot and conversation routes)
+ * faqs:write: create, update and delete the owner's FAQs
+ */
+export type ApiKeyScope = 'chat:query' | 'faqs:write';
+
+/**
+ * An owner's API key as listed in the dashboard (the key itself is never returned again)
+ */
+export interface ApiKey {
+  keyId: string;
+  name: string;
+  /** First characters of the key, to tell keys apart */
+  prefix: string;
+  scopes: ApiKeyScope[];
+  createdAt: string;
+  lastUsedAt?: string;
+  revokedAt?: string;
+}
+
+/**
+ * Response from creating an API key, the only time the full key is shown
+ */
+export interface CreatedApiKey extends ApiKey {
+  key: string;
+}
+
+/**
+ * Why a chatbot request was rejected with 429
+ * ip_rate_limit: the visitor asked too often; bot_rate_limit: the bot is asked too often
+ * across all visitors; daily_quota: the bot used up its questions for the day (UTC)
+ */
+export type RateLimitReason = 'ip_rate_limit' | 'bot_rate_limit' | 'daily_quota';
+
+/**
+ * An owner's daily chatbot quota (admin routes)
+ */
+export interface ChatQuota {
+  userId: string;
+  dailyLimit: number;
+  /** True when the owner has no override and gets CHAT_DAILY_QUOTA */
+  isDefault: boolean;
+  usedToday: number;
+}
+
 export interface LoginCredentials {
   email: string;
   password: string;
@@ -67,3 +193,202 @@ export interface UpdateUserData {
   faqs?: FAQ[];
 }
 
+
+export type BotTone = 'professional' | 'friendly' | 'casual' | 'formal';
+
+/**
+ * Per-bot persona configuration (BotSettings table)
+ */
+export interface BotSettings {
+  tone: BotTone;
+  personaInstructions?: string;
+  greetingMessage?: string;
+  fallbackMessage?: string; // Said when the knowledge base has nothing relevant
+  maxAnswerWords?: number | null;
+  chatModel?: string; // Workers AI text-generation model id (see GET /api/models)
+  temperature?: number | null;
+  maxTokens?: number | null;
+  embeddingModel?: string; // Active embedding model; changing it starts a reindex
+  pendingEmbeddingModel?: string; // Read-only: target model while a reindex is running
+  allowedOrigins?: string[]; // Origins whose pages may embed the chat widget; omitted on update keeps the current list
+  modifiedAt?: string;
+}
+
+export interface ChatModelOption {
+  id: string;
+  label: string;
+  maxOutputTokens: number;
+}
+
+export interface EmbeddingModelOption {
+  id: string;
+  label: string;
+  dimensions: number;
+  available: boolean; // False when the Vectorize index for its dimensions is not bound
+}
+
+/**
+ * Models bots can be configured with (GET /api/models)
+ */
+export interface ModelCatalog {
+  chatModels: ChatModelOption[];
+  embeddingModels: EmbeddingModelOption[];
+  defaultChatModel: string;
+  defaultEmbeddingModel: string;
+}
+
+/**
+ * Bot settings visitors can see (used by the chat page)
+ */
+export type PublicBotSettings = Pick<BotSettings, 'greetingMessage'>;
+
+/**
+ * Why a chatbot question was logged as unanswered
+ * no_match: retrieval found no relevant FAQ; low_confidence: FAQs were found but none is clearly similar to the question
+ */
+export type UnansweredReason = 'no_match' | 'low_confidence';
+
+/**
+ * Near-duplicate unanswered questions, grouped by embedding similarity
+ */
+export interface UnansweredQuestionCluster {
+  id: string;
+  representativeQuestion: string; // First question asked in the cluster
+  questionCount: number;
+  sampleQuestions: string[]; // Most recent distinct phrasings
+  lastAskedAt: string;
+}
+
+export type ChatMessageRole = 'user' | 'assistant';
+
+/**
+ * A knowledge-base FAQ cited in a chatbot answer
+ * marker is the [n] number the answer uses to refer to it
+ */
+export interface ChatbotCitation {
+  marker: number;
+  faqId: string;
+  question: string;
+  score: number | null; // Rerank score when reranked, otherwise vector similarity (null for keyword-only matches)
+}
+
+/**
+ * A stored chatbot conversation turn
+ */
+export interface ConversationMessage {
+  id: string;
+  role: ChatMessageRole;
+  content: string;
+  citations?: ChatbotCitation[];
+  feedback?: MessageFeedback; // Visitor rating of an assistant message
+  createdAt: string;
+}
+
+export type FeedbackRating = 'up' | 'down';
+
+/**
+ * A visitor's rating of one bot answer
+ */
+export interface MessageFeedback {
+  rating: FeedbackRating;
+  comment?: string;
+  createdAt: string;
+}
+
+/**
+ * Visitor feedback on the answers that used an FAQ (owner dashboard)
+ */
+export interface FaqFeedbackSummary {
+  faqId: string;
+  helpful: number;
+  notHelpful: number;
+  helpfulness: number; // helpful / (helpful + notHelpful), 0-1
+  recentComments: string[]; // Latest comments left with a thumbs down
+}
+
+/**
+ * Knowledge base export (GET /api/export)
+ * Versioned so imports can recognise and migrate older archives
+ */
+export interface KnowledgeBaseExport {
+  format: 'ifaqai-export';
+  version: number;
+  exportedAt: string;
+  profile: {
+    username: string;
+    name: string;
+    email: string;
+    bio?: string;
+    minRelevanceScore: number | null;
+    rerankEnabled: boolean;
+    createdAt?: string;
+  };
+  botSettings: Omit<BotSettings, 'pendingEmbeddingModel'>;
+  faqs: ExportedFaq[];
+  conversations: ExportedConversation[];
+}
+
+export interface ExportedFaq {
+  id: string;
+  question: string;
+  answer: string;
+  createdAt: string;
+  modifiedAt?: string;
+}
+
+export interface ExportedConversation {
+  conversationId: string;
+  createdAt: string;
+  modifiedAt?: string;
+  messages: ConversationMessage[];
+}
+
+/**
+ * Aggregated chatbot usage over a date range (GET /api/analytics)
+ */
+export interface BotAnalytics {
+  from: string; // YYYY-MM-DD, inclusive
+  to: string; // YYYY-MM-DD, inclusive
+  totalQuestions: number;
+  answeredQuestions: number; // Answered from the FAQs (not logged as unanswered)
+  answerRate: number | null; // 0-1, null without questions
+  medianLatencyMs: number | null;
+  feedback: { helpful: number; notHelpful: number };
+  questionsOverTime: Array<{ date: string; questions: number; answered: number }>;
+  topFaqs: Array<{ faqId: string; question: string; hits: number; citations: number }>;
+  unusedFaqs: Array<{ faqId: string; question: string }>; // Not used as context in the range
+}
+
+export interface Conversation {
+  conversationId: string;
+  username: string;
+  messages: ConversationMessage[];
+  createdAt: string;
+  modifiedAt?: string;
+}
+
+/**
+ * Response from the chatbot endpoints
+ */
+export interface ChatbotAnswer {
+  answer: string;
+  contextUsed: boolean;
+  faqsUsed: number;
+  citations: ChatbotCitation[];
+  debug?: Record<string, any>;
+}
+
+export interface ConversationReply extends ChatbotAnswer {
+  conversationId: string;
+  userMessage: ConversationMessage;
+  assistantMessage: ConversationMessage;
+}
+
+/**
+ * Server-Sent Events emitted by the streaming chatbot endpoints
+ */
+export type ChatbotStreamEvent =
+  | { event: 'retrieval'; data: Omit<ChatbotAnswer, 'answer' | 'citations'> }
+  | { event: 'token'; data: { token: string } }
+  | { event: 'done'; data: ChatbotAnswer & Partial<Omit<ConversationReply, keyof ChatbotAnswer>> }
+  | { event: 'error'; data: { error: string; details?: string } };
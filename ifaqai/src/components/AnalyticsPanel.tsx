@@ -0,0 +1,171 @@
+import { useState } from 'react';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from './ui/chart';
+import { BarChart3, Loader2 } from 'lucide-react';
+import { useAnalytics } from '../hooks/useAnalytics';
+
+interface AnalyticsPanelProps {
+  userId?: string | number;
+}
+
+const RANGE_OPTIONS = [
+  { days: 7, label: 'Last 7 days' },
+  { days: 30, label: 'Last 30 days' },
+  { days: 90, label: 'Last 90 days' },
+];
+
+const chartConfig = {
+  answered: { label: 'Answered', color: 'var(--chart-2)' },
+  unanswered: { label: 'Unanswered', color: 'var(--chart-1)' },
+} satisfies ChartConfig;
+
+function formatLatency(ms: number | null): string {
+  if (ms === null) return '–';
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
+
+function StatCard({ title, value, description }: { title: string; value: string; description?: string }) {
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardDescription>{title}</CardDescription>
+        <CardTitle className="text-2xl">{value}</CardTitle>
+      </CardHeader>
+      {description && (
+        <CardContent>
+          <p className="text-xs text-gray-500">{description}</p>
+        </CardContent>
+      )}
+    </Card>
+  );
+}
+
+export function AnalyticsPanel({ userId }: AnalyticsPanelProps) {
+  const [days, setDays] = useState(30);
+  const { analytics, isLoading } = useAnalytics(userId, days);
+
+  const chartData = (analytics?.questionsOverTime || []).map((day) => ({
+    date: day.date,
+    answered: day.answered,
+    unanswered: day.questions - day.answered,
+  }));
+  const feedbackTotal = analytics ? analytics.feedback.helpful + analytics.feedback.notHelpful : 0;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-semibold">Analytics</h2>
+          <p className="text-sm text-gray-600">How visitors use your bot and which FAQs answer their questions.</p>
+        </div>
+        <Select value={days.toString()} onValueChange={(value) => setDays(Number(value))}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {RANGE_OPTIONS.map((option) => (
+              <SelectItem key={option.days} value={option.days.toString()}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading || !analytics ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+        </div>
+      ) : analytics.totalQuestions === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-gray-500">
+            <BarChart3 className="w-10 h-10 mx-auto mb-3 text-gray-300" />
+            <p>No questions in this period yet. Share your bot to start collecting analytics.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+            <StatCard title="Questions" value={analytics.totalQuestions.toString()} />
+            <StatCard
+              title="Answer rate"
+              value={analytics.answerRate === null ? '–' : `${Math.round(analytics.answerRate * 100)}%`}
+              description={`${analytics.answeredQuestions} answered from your FAQs`}
+            />
+            <StatCard title="Median latency" value={formatLatency(analytics.medianLatencyMs)} />
+            <StatCard
+              title="Visitor feedback"
+              value={feedbackTotal === 0 ? '–' : `${Math.round((analytics.feedback.helpful / feedbackTotal) * 100)}% helpful`}
+              description={`${analytics.feedback.helpful} up, ${analytics.feedback.notHelpful} down`}
+            />
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Questions over time</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={chartConfig} className="aspect-auto h-64 w-full">
+                <BarChart data={chartData}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="date" tickLine={false} axisLine={false} tickFormatter={(date: string) => date.slice(5)} />
+                  <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Bar dataKey="answered" stackId="questions" fill="var(--color-answered)" />
+                  <Bar dataKey="unanswered" stackId="questions" fill="var(--color-unanswered)" radius={[4, 4, 0, 0]} />
+                </BarChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+
+          <div className="grid gap-4 md:grid-cols-2">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Top FAQs</CardTitle>
+                <CardDescription>FAQs most often used to answer questions</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {analytics.topFaqs.length === 0 ? (
+                  <p className="text-sm text-gray-500">No FAQs were used in this period.</p>
+                ) : (
+                  <ul className="space-y-2">
+                    {analytics.topFaqs.map((faq) => (
+                      <li key={faq.faqId} className="flex items-start justify-between gap-2 text-sm">
+                        <span>{faq.question}</span>
+                        <Badge variant="secondary" className="shrink-0">
+                          {faq.hits} {faq.hits === 1 ? 'hit' : 'hits'}
+                        </Badge>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Unused FAQs</CardTitle>
+                <CardDescription>FAQs no answer used in this period</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {analytics.unusedFaqs.length === 0 ? (
+                  <p className="text-sm text-gray-500">Every FAQ was used at least once.</p>
+                ) : (
+                  <ul className="list-disc pl-5 text-sm text-gray-600 space-y-1">
+                    {analytics.unusedFaqs.map((faq) => (
+                      <li key={faq.faqId}>{faq.question}</li>
+                    ))}
+                  </ul>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
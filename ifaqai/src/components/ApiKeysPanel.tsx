@@ -0,0 +1,169 @@
+import { useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Badge } from './ui/badge';
+import { Checkbox } from './ui/checkbox';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Copy, KeyRound, Loader2, Plus } from 'lucide-react';
+import { toast } from 'sonner';
+import { useApiKeys } from '../hooks/useApiKeys';
+import type { ApiKeyScope } from '../api/types';
+
+interface ApiKeysPanelProps {
+  userId?: string | number;
+}
+
+const SCOPE_OPTIONS: { scope: ApiKeyScope; label: string; description: string }[] = [
+  { scope: 'chat:query', label: 'chat:query', description: 'Ask your bot through the chatbot, conversation and OpenAI-compatible APIs' },
+  { scope: 'faqs:write', label: 'faqs:write', description: 'Create, update and delete your FAQs' },
+];
+
+export function ApiKeysPanel({ userId }: ApiKeysPanelProps) {
+  const { apiKeys, isLoading, createdKey, createApiKey, dismissCreatedKey, revokeApiKey, isCreating } = useApiKeys(userId);
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(['chat:query']);
+
+  const toggleScope = (scope: ApiKeyScope, checked: boolean) => {
+    setScopes((current) => (checked ? [...current, scope] : current.filter((s) => s !== scope)));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || scopes.length === 0) return;
+    createApiKey({ name: name.trim(), scopes }, { onSuccess: () => setName('') });
+  };
+
+  const handleCopy = async (key: string) => {
+    try {
+      await navigator.clipboard.writeText(key);
+      toast.success('API key copied');
+    } catch {
+      toast.error('Could not copy the API key');
+    }
+  };
+
+  const handleRevoke = (keyId: string, keyName: string) => {
+    if (window.confirm(`Revoke "${keyName}"? Requests using this key will stop working.`)) {
+      revokeApiKey(keyId);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h2 className="text-xl font-semibold">API Keys</h2>
+        <p className="text-sm text-gray-600">
+          Call your bot from your own backend. Send the key as <code>Authorization: Bearer &lt;key&gt;</code>.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Create a key</CardTitle>
+          <CardDescription>Keys can only do what their scopes allow. Keep them secret, never put them in a web page.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="api-key-name">Name</Label>
+              <Input
+                id="api-key-name"
+                placeholder="e.g. Production backend"
+                value={name}
+                maxLength={100}
+                onChange={(e) => setName(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Scopes</Label>
+              {SCOPE_OPTIONS.map((option) => (
+                <div key={option.scope} className="flex items-start gap-2">
+                  <Checkbox
+                    id={`api-key-scope-${option.scope}`}
+                    checked={scopes.includes(option.scope)}
+                    onCheckedChange={(checked) => toggleScope(option.scope, checked === true)}
+                  />
+                  <div className="grid gap-0.5">
+                    <Label htmlFor={`api-key-scope-${option.scope}`} className="font-mono text-sm">
+                      {option.label}
+                    </Label>
+                    <p className="text-xs text-gray-500">{option.description}</p>
+                  </div>
+                </div>
+              ))}
+            </div>
+            <Button type="submit" disabled={isCreating || !name.trim() || scopes.length === 0}>
+              {isCreating ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Plus className="w-4 h-4 mr-2" />}
+              Create Key
+            </Button>
+          </form>
+
+          {createdKey && (
+            <div className="mt-4 rounded border border-amber-200 bg-amber-50 p-3 space-y-2">
+              <p className="text-sm font-medium text-amber-800">
+                Copy "{createdKey.name}" now. You won't be able to see it again.
+              </p>
+              <div className="flex items-start gap-2">
+                <code className="bg-white px-3 py-2 rounded border text-xs flex-1 break-all">{createdKey.key}</code>
+                <Button variant="outline" size="sm" onClick={() => handleCopy(createdKey.key)}>
+                  <Copy className="w-4 h-4 mr-2" />
+                  Copy
+                </Button>
+              </div>
+              <Button variant="ghost" size="sm" onClick={() => dismissCreatedKey()}>
+                Done
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+        </div>
+      ) : apiKeys.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-gray-500">
+            <KeyRound className="w-10 h-10 mx-auto mb-3 text-gray-300" />
+            <p>No API keys yet.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent className="divide-y p-0">
+            {apiKeys.map((apiKey) => (
+              <div key={apiKey.keyId} className="flex items-center justify-between gap-4 px-6 py-4">
+                <div className="space-y-1 min-w-0">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <span className="font-medium">{apiKey.name}</span>
+                    <code className="text-xs text-gray-500">{apiKey.prefix}…</code>
+                    {apiKey.revokedAt && <Badge variant="secondary">Revoked</Badge>}
+                  </div>
+                  <div className="flex gap-1 flex-wrap">
+                    {apiKey.scopes.map((scope) => (
+                      <Badge key={scope} variant="outline" className="font-mono">
+                        {scope}
+                      </Badge>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    Created {new Date(apiKey.createdAt).toLocaleDateString()} ·{' '}
+                    {apiKey.lastUsedAt ? `Last used ${new Date(apiKey.lastUsedAt).toLocaleString()}` : 'Never used'}
+                    {apiKey.revokedAt && ` · Revoked ${new Date(apiKey.revokedAt).toLocaleDateString()}`}
+                  </p>
+                </div>
+                {!apiKey.revokedAt && (
+                  <Button variant="outline" size="sm" onClick={() => handleRevoke(apiKey.keyId, apiKey.name)}>
+                    Revoke
+                  </Button>
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,241 @@
+import { useEffect, useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Textarea } from './ui/textarea';
+import { Label } from './ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Loader2, RefreshCw, Save } from 'lucide-react';
+import { useBotSettings } from '../hooks/useBotSettings';
+import type { BotTone } from '../api/types';
+
+interface BotSettingsPanelProps {
+  userId?: string | number;
+}
+
+const TONE_OPTIONS: Array<{ value: BotTone; label: string }> = [
+  { value: 'professional', label: 'Professional' },
+  { value: 'friendly', label: 'Friendly' },
+  { value: 'casual', label: 'Casual' },
+  { value: 'formal', label: 'Formal' },
+];
+
+export function BotSettingsPanel({ userId }: BotSettingsPanelProps) {
+  const { settings, models, isLoading, saveSettings, isSaving } = useBotSettings(userId);
+
+  const [tone, setTone] = useState<BotTone>('professional');
+  const [personaInstructions, setPersonaInstructions] = useState('');
+  const [greetingMessage, setGreetingMessage] = useState('');
+  const [fallbackMessage, setFallbackMessage] = useState('');
+  const [maxAnswerWords, setMaxAnswerWords] = useState('');
+  const [chatModel, setChatModel] = useState('');
+  const [temperature, setTemperature] = useState('');
+  const [maxTokens, setMaxTokens] = useState('');
+  const [embeddingModel, setEmbeddingModel] = useState('');
+  const [allowedOrigins, setAllowedOrigins] = useState('');
+
+  // Load saved settings into the form
+  useEffect(() => {
+    if (!settings) return;
+    setTone(settings.tone);
+    setPersonaInstructions(settings.personaInstructions || '');
+    setGreetingMessage(settings.greetingMessage || '');
+    setFallbackMessage(settings.fallbackMessage || '');
+    setMaxAnswerWords(settings.maxAnswerWords ? String(settings.maxAnswerWords) : '');
+    setChatModel(settings.chatModel || '');
+    setTemperature(settings.temperature != null ? String(settings.temperature) : '');
+    setMaxTokens(settings.maxTokens ? String(settings.maxTokens) : '');
+    setEmbeddingModel(settings.pendingEmbeddingModel || settings.embeddingModel || '');
+    setAllowedOrigins((settings.allowedOrigins || []).join('\n'));
+  }, [settings]);
+
+  const selectedChatModel = models?.chatModels.find((model) => model.id === chatModel);
+  const pendingEmbeddingLabel = models?.embeddingModels.find((model) => model.id === settings?.pendingEmbeddingModel)?.label;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveSettings({
+      tone,
+      personaInstructions: personaInstructions.trim() || undefined,
+      greetingMessage: greetingMessage.trim() || undefined,
+      fallbackMessage: fallbackMessage.trim() || undefined,
+      maxAnswerWords: maxAnswerWords ? parseInt(maxAnswerWords, 10) : null,
+      chatModel: chatModel || undefined,
+      temperature: temperature ? parseFloat(temperature) : null,
+      maxTokens: maxTokens ? parseInt(maxTokens, 10) : null,
+      embeddingModel: embeddingModel || undefined,
+      allowedOrigins: allowedOrigins.split(/\s+/).filter(Boolean),
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Bot Settings</CardTitle>
+        <CardDescription>Customize how your chatbot talks to visitors</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="bot-tone">Tone</Label>
+              <Select value={tone} onValueChange={(value) => setTone(value as BotTone)}>
+                <SelectTrigger id="bot-tone">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TONE_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="bot-persona">Persona Instructions (Optional)</Label>
+              <Textarea
+                id="bot-persona"
+                placeholder="e.g. Speak in the first person as me and mention my newsletter when relevant."
+                value={personaInstructions}
+                onChange={(e) => setPersonaInstructions(e.target.value)}
+                maxLength={1000}
+                rows={4}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="bot-greeting">Greeting Message (Optional)</Label>
+              <Textarea
+                id="bot-greeting"
+                placeholder="The first message visitors see"
+                value={greetingMessage}
+                onChange={(e) => setGreetingMessage(e.target.value)}
+                maxLength={300}
+                rows={2}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="bot-fallback">Fallback Message (Optional)</Label>
+              <Textarea
+                id="bot-fallback"
+                placeholder="What the bot says when your FAQs don't cover a question"
+                value={fallbackMessage}
+                onChange={(e) => setFallbackMessage(e.target.value)}
+                maxLength={300}
+                rows={2}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="bot-max-words">Maximum Answer Length (words)</Label>
+              <Input
+                id="bot-max-words"
+                type="number"
+                min={20}
+                max={500}
+                placeholder="No limit"
+                value={maxAnswerWords}
+                onChange={(e) => setMaxAnswerWords(e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="bot-chat-model">Chat Model</Label>
+              <Select value={chatModel} onValueChange={setChatModel}>
+                <SelectTrigger id="bot-chat-model">
+                  <SelectValue placeholder="Default" />
+                </SelectTrigger>
+                <SelectContent>
+                  {models?.chatModels.map((model) => (
+                    <SelectItem key={model.id} value={model.id}>
+                      {model.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="bot-temperature">Temperature</Label>
+                <Input
+                  id="bot-temperature"
+                  type="number"
+                  min={0}
+                  max={2}
+                  step={0.1}
+                  placeholder="Model default"
+                  value={temperature}
+                  onChange={(e) => setTemperature(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="bot-max-tokens">Max Tokens</Label>
+                <Input
+                  id="bot-max-tokens"
+                  type="number"
+                  min={16}
+                  max={selectedChatModel?.maxOutputTokens}
+                  placeholder="Model default"
+                  value={maxTokens}
+                  onChange={(e) => setMaxTokens(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="bot-embedding-model">Embedding Model</Label>
+              <Select value={embeddingModel} onValueChange={setEmbeddingModel}>
+                <SelectTrigger id="bot-embedding-model">
+                  <SelectValue placeholder="Default" />
+                </SelectTrigger>
+                <SelectContent>
+                  {models?.embeddingModels.map((model) => (
+                    <SelectItem key={model.id} value={model.id} disabled={!model.available}>
+                      {model.label} ({model.dimensions} dims){!model.available && ' — not configured'}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {settings?.pendingEmbeddingModel ? (
+                <p className="flex items-center gap-1 text-xs text-amber-600">
+                  <RefreshCw className="w-3 h-3 animate-spin" />
+                  Reindexing your FAQs for {pendingEmbeddingLabel || settings.pendingEmbeddingModel}. Your bot keeps using the current model until it finishes.
+                </p>
+              ) : (
+                <p className="text-xs text-gray-500">Changing this re-embeds all of your FAQs before the bot switches over.</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="bot-allowed-origins">Widget Allowed Origins</Label>
+              <Textarea
+                id="bot-allowed-origins"
+                placeholder={'https://www.example.com\nhttps://shop.example.com'}
+                value={allowedOrigins}
+                onChange={(e) => setAllowedOrigins(e.target.value)}
+                rows={3}
+                className="font-mono text-xs"
+              />
+              <p className="text-xs text-gray-500">
+                One origin per line. Only these websites can embed your chat widget.
+              </p>
+            </div>
+
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+              Save Settings
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
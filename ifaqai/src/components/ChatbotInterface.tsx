@@ -4,20 +4,55 @@ import { Input } from './ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Avatar, AvatarFallback } from './ui/avatar';
 import { ScrollArea } from './ui/scroll-area';
-import { Bot, Send, ArrowLeft, User as UserIcon, Bug, X } from 'lucide-react';
-// Removed localStorage import - now using API
+import { Bot, Send, ArrowLeft, User as UserIcon, Bug, X, RotateCcw, Square, Clock } from 'lucide-react';
+import {
+  ChatbotRateLimitError,
+  createConversation,
+  fetchConversation,
+  streamConversationMessage,
+} from '../api/client/chatbotService';
+import { fetchPublicBotSettings } from '../api/client/botSettingsService';
+import type { ChatbotCitation, ChatbotStreamEvent, ConversationMessage, MessageFeedback, RateLimitReason } from '../api/types';
+import { SourceChips } from './SourceChips';
+import { MessageFeedbackControls } from './MessageFeedbackControls';
+
+const CONVERSATION_STORAGE_PREFIX = 'chatbotConversation:';
+
+/**
+ * Get the stored conversation id for a chatbot (so it can be resumed after reload)
+ */
+function getStoredConversationId(username: string): string | null {
+  return localStorage.getItem(`${CONVERSATION_STORAGE_PREFIX}${username}`);
+}
+
+function storeConversationId(username: string, conversationId: string): void {
+  localStorage.setItem(`${CONVERSATION_STORAGE_PREFIX}${username}`, conversationId);
+}
+
+function clearStoredConversationId(username: string): void {
+  localStorage.removeItem(`${CONVERSATION_STORAGE_PREFIX}${username}`);
+}
 
 interface Message {
   id: string;
   text: string;
   sender: 'user' | 'bot';
   timestamp: Date;
+  citations?: ChatbotCitation[];
   debugInfo?: any;
+  // Id of the stored conversation message, needed to rate the answer
+  serverMessageId?: string;
+  feedback?: MessageFeedback;
 }
 
 interface DebugInfo {
   vectorizeMatches: number;
   matchingFaqIds: string[];
+  minRelevanceScore?: number;
+  matchScores: Array<{ faqId: string; score: number; accepted: boolean }>;
+  keywordFaqIds: string[];
+  rerankEnabled: boolean;
+  contextScores: Array<{ faqId: string; vectorScore: number | null; rerankScore: number | null }>;
   faqsRetrieved: number;
   chatbotOwnerId: string;
   chatbotOwnerUsername?: string;
@@ -31,14 +66,59 @@ interface ChatbotInterfaceProps {
   isOwner: boolean;
 }
 
+function createWelcomeMessage(ownerName: string, greetingMessage?: string): Message {
+  return {
+    id: '1',
+    text: greetingMessage ||
+      `Hi! I'm ${ownerName}'s AI assistant. I'm trained to answer questions based on my knowledge base. Feel free to ask me anything!`,
+    sender: 'bot',
+    timestamp: new Date(),
+  };
+}
+
+function getRateLimitMessage(reason: RateLimitReason, retryAfter: number): string {
+  switch (reason) {
+    case 'daily_quota':
+      return 'This chatbot has answered all the questions it can for today. Please come back tomorrow.';
+    case 'bot_rate_limit':
+      return 'This chatbot is very busy right now. Please try again in a minute.';
+    default:
+      return `You're asking questions too quickly. Please wait ${retryAfter} seconds and try again.`;
+  }
+}
+
+function conversationMessageToMessage(message: ConversationMessage): Message {
+  return {
+    id: `conversation-${message.id}`,
+    text: message.content,
+    sender: message.role === 'user' ? 'user' : 'bot',
+    timestamp: new Date(message.createdAt),
+    citations: message.citations,
+    serverMessageId: message.id,
+    feedback: message.feedback,
+  };
+}
+
 export function ChatbotInterface({ username, onBack, isOwner }: ChatbotInterfaceProps) {
   const [messages, setMessages] = useState<Message[]>([]);
+  const [conversationId, setConversationId] = useState<string | null>(null);
   const [inputValue, setInputValue] = useState('');
   const [botName, setBotName] = useState('');
   const [botOwner, setBotOwner] = useState<any>(null);
+  const [greetingMessage, setGreetingMessage] = useState<string | undefined>(undefined);
   const [isLoading, setIsLoading] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
   const [showDebug, setShowDebug] = useState(false);
   const [debugInfo, setDebugInfo] = useState<DebugInfo | null>(null);
+  // Set while the chatbot rejects questions (429); the input stays disabled until it expires
+  const [rateLimit, setRateLimit] = useState<{ reason: RateLimitReason; until: number } | null>(null);
+
+  useEffect(() => {
+    if (!rateLimit) return;
+    const timeout = setTimeout(() => setRateLimit(null), Math.max(0, rateLimit.until - Date.now()));
+    return () => clearTimeout(timeout);
+  }, [rateLimit]);
 
   // Only allow debug panel if user is the owner
   useEffect(() => {
@@ -73,16 +153,36 @@ export function ChatbotInterface({ username, onBack, isOwner }: ChatbotInterface
         const owner = await response.json();
         setBotOwner(owner);
         setBotName(`${owner.name}'s Bot`);
+
+        // The owner's custom greeting is optional - fall back to the default one
+        const botSettings = await fetchPublicBotSettings(username).catch((error) => {
+          console.error('Error loading bot settings:', error);
+          return null;
+        });
+        setGreetingMessage(botSettings?.greetingMessage);
+        const welcomeMessage = createWelcomeMessage(owner.name, botSettings?.greetingMessage);
         
         // Add welcome message
-        setMessages([
-          {
-            id: '1',
-            text: `Hi! I'm ${owner.name}'s AI assistant. I'm trained to answer questions based on my knowledge base. Feel free to ask me anything!`,
-            sender: 'bot',
-            timestamp: new Date(),
-          },
-        ]);
+        setMessages([welcomeMessage]);
+
+        // Resume the previous conversation with this chatbot, if any
+        const storedConversationId = getStoredConversationId(username);
+        if (storedConversationId) {
+          try {
+            const conversation = await fetchConversation(storedConversationId);
+            if (conversation && conversation.username === username) {
+              setConversationId(conversation.conversationId);
+              setMessages([
+                welcomeMessage,
+                ...conversation.messages.map(conversationMessageToMessage),
+              ]);
+            } else {
+              clearStoredConversationId(username);
+            }
+          } catch (error) {
+            console.error('Error resuming conversation:', error);
+          }
+        }
       } catch (error) {
         console.error('Error loading bot owner:', error);
         setMessages([
@@ -113,10 +213,29 @@ export function ChatbotInterface({ username, onBack, isOwner }: ChatbotInterface
     }
   }, [debugInfo]);
 
+  const ensureConversation = async (): Promise<string> => {
+    if (conversationId) {
+      return conversationId;
+    }
+    const conversation = await createConversation(username);
+    storeConversationId(username, conversation.conversationId);
+    setConversationId(conversation.conversationId);
+    return conversation.conversationId;
+  };
+
+  const handleNewConversation = () => {
+    clearStoredConversationId(username);
+    setConversationId(null);
+    setDebugInfo(null);
+    if (botOwner) {
+      setMessages([createWelcomeMessage(botOwner.name, greetingMessage)]);
+    }
+  };
+
   const handleSendMessage = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!inputValue.trim() || !botOwner) return;
+    if (!inputValue.trim() || !botOwner || rateLimit) return;
 
     const userMessage: Message = {
       id: Date.now().toString(),
@@ -130,58 +249,133 @@ export function ChatbotInterface({ username, onBack, isOwner }: ChatbotInterface
     setInputValue('');
     setIsLoading(true);
 
-    try {
-      // Call RAG-based chatbot API with debug enabled only if user is owner
-      const debugParam = isOwner ? '&debug=true' : '';
-      const response = await fetch(
-        `/api/chatbot?text=${encodeURIComponent(question)}&username=${encodeURIComponent(username)}${debugParam}`
-      );
-
-      if (!response.ok) {
-        throw new Error(`API error: ${response.statusText}`);
+    const botMessageId = (Date.now() + 1).toString();
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    let streamedText = '';
+
+    // Render tokens into the bot message as they arrive
+    const appendToken = (token: string) => {
+      streamedText += token;
+      const text = streamedText;
+      setIsStreaming(true);
+      setMessages(prev => {
+        if (prev.some(message => message.id === botMessageId)) {
+          return prev.map(message => (message.id === botMessageId ? { ...message, text } : message));
+        }
+        return [...prev, { id: botMessageId, text, sender: 'bot', timestamp: new Date() }];
+      });
+    };
+
+    const handleStreamEvent = (event: ChatbotStreamEvent) => {
+      switch (event.event) {
+        case 'retrieval':
+          // Store debug information (only if user is owner)
+          if (isOwner && event.data.debug) {
+            const debug = event.data.debug;
+            setDebugInfo({
+              vectorizeMatches: debug.vectorizeMatches || 0,
+              matchingFaqIds: debug.matchingFaqIds || [],
+              minRelevanceScore: debug.minRelevanceScore,
+              matchScores: debug.matchScores || [],
+              keywordFaqIds: debug.keywordFaqIds || [],
+              rerankEnabled: debug.rerankEnabled || false,
+              contextScores: debug.contextScores || [],
+              faqsRetrieved: debug.faqsRetrieved || 0,
+              chatbotOwnerId: debug.chatbotOwnerId || '',
+              chatbotOwnerUsername: debug.chatbotOwnerUsername,
+              contextUsed: event.data.contextUsed || false,
+              faqsUsed: event.data.faqsUsed || 0,
+            });
+          }
+          break;
+        case 'token':
+          appendToken(event.data.token);
+          break;
+        case 'done': {
+          const answer = event.data.answer ||
+            "I don't have specific information about that in my knowledge base. Could you try rephrasing your question or ask about something else?";
+          if (!streamedText) {
+            appendToken(answer);
+          }
+          setMessages(prev => prev.map(message => (
+            message.id === botMessageId
+              ? {
+                ...message,
+                text: answer,
+                citations: event.data.citations,
+                debugInfo: event.data.debug,
+                serverMessageId: event.data.assistantMessage?.id,
+              }
+              : message
+          )));
+          break;
+        }
+        case 'error':
+          throw new Error(event.data.error);
       }
+    };
 
-      const data = await response.json();
-      
-      // Store debug information (only if user is owner)
-      if (isOwner && data.debug) {
-        setDebugInfo({
-          vectorizeMatches: data.debug.vectorizeMatches || 0,
-          matchingFaqIds: data.debug.matchingFaqIds || [],
-          faqsRetrieved: data.debug.faqsRetrieved || 0,
-          chatbotOwnerId: data.debug.chatbotOwnerId || '',
-          chatbotOwnerUsername: data.debug.chatbotOwnerUsername,
-          contextUsed: data.contextUsed || false,
-          faqsUsed: data.faqsUsed || 0,
-        });
+    try {
+      // Stream from the RAG-based conversation API with debug enabled only if user is owner
+      let activeConversationId = await ensureConversation();
+      const streamOptions = { debug: isOwner, signal: abortController.signal, onEvent: handleStreamEvent };
+      try {
+        await streamConversationMessage(activeConversationId, question, streamOptions);
+      } catch (error) {
+        if (!(error instanceof Error && error.message === 'Conversation not found')) {
+          throw error;
+        }
+        // Stored conversation is gone - start a new one and retry once
+        clearStoredConversationId(username);
+        const conversation = await createConversation(username);
+        storeConversationId(username, conversation.conversationId);
+        setConversationId(conversation.conversationId);
+        activeConversationId = conversation.conversationId;
+        await streamConversationMessage(activeConversationId, question, streamOptions);
       }
-      
-      const botMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        text: data.answer || 
-          "I don't have specific information about that in my knowledge base. Could you try rephrasing your question or ask about something else?",
-        sender: 'bot',
-        timestamp: new Date(),
-        debugInfo: data.debug,
-      };
-
-      setMessages(prev => [...prev, botMessage]);
     } catch (error) {
+      if (abortController.signal.aborted) {
+        // Visitor cancelled - keep whatever was already generated
+        if (!streamedText) {
+          appendToken('(Response cancelled)');
+        }
+        return;
+      }
+
       console.error('Error calling chatbot API:', error);
-      
-      const botMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        text: "Sorry, I'm having trouble processing your question right now. Please try again later.",
-        sender: 'bot',
-        timestamp: new Date(),
-      };
-
-      setMessages(prev => [...prev, botMessage]);
+
+      let errorText = "Sorry, I'm having trouble processing your question right now. Please try again later.";
+      if (error instanceof ChatbotRateLimitError) {
+        errorText = getRateLimitMessage(error.reason, error.retryAfter);
+        setRateLimit({ reason: error.reason, until: Date.now() + error.retryAfter * 1000 });
+        // Keep the question so it can be sent again once the limit resets
+        setInputValue(question);
+      }
+      setMessages(prev => [
+        ...prev.filter(message => message.id !== botMessageId),
+        {
+          id: botMessageId,
+          text: errorText,
+          sender: 'bot',
+          timestamp: new Date(),
+        },
+      ]);
     } finally {
+      abortControllerRef.current = null;
       setIsLoading(false);
+      setIsStreaming(false);
     }
   };
 
+  const handleFeedbackSaved = (messageId: string, feedback: MessageFeedback) => {
+    setMessages(prev => prev.map(message => (message.id === messageId ? { ...message, feedback } : message)));
+  };
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
   if (!botOwner) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
@@ -224,6 +418,17 @@ export function ChatbotInterface({ username, onBack, isOwner }: ChatbotInterface
               <h1 className="text-gray-900">{botName}</h1>
               <p className="text-sm text-gray-600">@{username}</p>
             </div>
+            {messages.length > 1 && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={handleNewConversation}
+                disabled={isLoading}
+                title="Start a new conversation"
+              >
+                <RotateCcw className="w-4 h-4" />
+              </Button>
+            )}
             {isOwner && (
               <div className="bg-indigo-100 text-indigo-800 px-3 py-1 rounded-full text-sm">
                 Your Chatbot
@@ -283,10 +488,21 @@ export function ChatbotInterface({ username, onBack, isOwner }: ChatbotInterface
                     }`}
                   >
                     <p className="text-sm">{message.text}</p>
+                    {message.sender === 'bot' && message.citations && message.citations.length > 0 && (
+                      <SourceChips citations={message.citations} />
+                    )}
+                    {message.sender === 'bot' && conversationId && message.serverMessageId && (
+                      <MessageFeedbackControls
+                        conversationId={conversationId}
+                        messageId={message.serverMessageId}
+                        feedback={message.feedback}
+                        onFeedbackSaved={(feedback) => handleFeedbackSaved(message.id, feedback)}
+                      />
+                    )}
                   </div>
                 </div>
               ))}
-              {isLoading && (
+              {isLoading && !isStreaming && (
                 <div className="flex gap-3">
                   <Avatar className="w-8 h-8">
                     <AvatarFallback className="bg-indigo-600 text-white">
@@ -307,16 +523,32 @@ export function ChatbotInterface({ username, onBack, isOwner }: ChatbotInterface
 
           {/* Input Area */}
           <div className="border-t p-4">
+            {rateLimit && (
+              <div className="flex items-center gap-2 mb-3 rounded-md bg-amber-50 border border-amber-200 px-3 py-2 text-sm text-amber-800">
+                <Clock className="w-4 h-4 shrink-0" />
+                <span>
+                  {rateLimit.reason === 'daily_quota'
+                    ? 'Daily question limit reached. The chat reopens tomorrow.'
+                    : `Too many questions right now. You can ask again at ${new Date(rateLimit.until).toLocaleTimeString()}.`}
+                </span>
+              </div>
+            )}
             <form onSubmit={handleSendMessage} className="flex gap-2">
               <Input
                 placeholder="Type your message..."
                 value={inputValue}
                 onChange={(e) => setInputValue(e.target.value)}
-                disabled={isLoading}
+                disabled={isLoading || !!rateLimit}
               />
-              <Button type="submit" disabled={isLoading || !inputValue.trim()}>
-                <Send className="w-4 h-4" />
-              </Button>
+              {isLoading ? (
+                <Button type="button" variant="outline" onClick={handleCancel} title="Stop generating">
+                  <Square className="w-4 h-4" />
+                </Button>
+              ) : (
+                <Button type="submit" disabled={!inputValue.trim() || !!rateLimit}>
+                  <Send className="w-4 h-4" />
+                </Button>
+              )}
             </form>
             <p className="text-xs text-gray-500 mt-2 text-center">
               Powered by {botOwner.faqs.length} FAQ{botOwner.faqs.length !== 1 ? 's' : ''}
@@ -361,7 +593,24 @@ export function ChatbotInterface({ username, onBack, isOwner }: ChatbotInterface
                       <h3 className="font-semibold text-sm text-gray-700">Vectorize Results</h3>
                       <div className="bg-gray-50 rounded p-2 text-xs space-y-1">
                         <div><span className="font-medium">Matches Found:</span> {debugInfo.vectorizeMatches}</div>
-                        <div><span className="font-medium">After Filtering:</span> {debugInfo.matchingFaqIds.length}</div>
+                        <div><span className="font-medium">Keyword Matches:</span> {debugInfo.keywordFaqIds.length}</div>
+                        <div><span className="font-medium">Selected for Context:</span> {debugInfo.matchingFaqIds.length}</div>
+                        <div><span className="font-medium">Reranking:</span> {debugInfo.rerankEnabled ? 'On' : 'Off'}</div>
+                        {debugInfo.minRelevanceScore !== undefined && (
+                          <div><span className="font-medium">Min Score:</span> {debugInfo.minRelevanceScore}</div>
+                        )}
+                        {debugInfo.matchScores.length > 0 && (
+                          <div className="mt-2">
+                            <span className="font-medium">Scores:</span>
+                            <div className="mt-1 space-y-0.5">
+                              {debugInfo.matchScores.map((match) => (
+                                <div key={match.faqId} className={match.accepted ? 'text-green-700' : 'text-gray-400'}>
+                                  FAQ {match.faqId}: {match.score.toFixed(3)}
+                                </div>
+                              ))}
+                            </div>
+                          </div>
+                        )}
                         {debugInfo.matchingFaqIds.length > 0 && (
                           <div className="mt-2">
                             <span className="font-medium">FAQ IDs:</span>
@@ -374,6 +623,18 @@ export function ChatbotInterface({ username, onBack, isOwner }: ChatbotInterface
                             </div>
                           </div>
                         )}
+                        {debugInfo.contextScores.length > 0 && (
+                          <div className="mt-2">
+                            <span className="font-medium">Context Scores (vector / rerank):</span>
+                            <div className="mt-1 space-y-0.5">
+                              {debugInfo.contextScores.map((entry) => (
+                                <div key={entry.faqId}>
+                                  FAQ {entry.faqId}: {entry.vectorScore?.toFixed(3) ?? '-'} / {entry.rerankScore?.toFixed(3) ?? '-'}
+                                </div>
+                              ))}
+                            </div>
+                          </div>
+                        )}
                       </div>
                     </div>
 
@@ -399,7 +660,7 @@ export function ChatbotInterface({ username, onBack, isOwner }: ChatbotInterface
                         </p>
                         <ul className="text-xs text-yellow-700 mt-1 list-disc list-inside space-y-0.5">
                           <li>Vectorize returned no matches</li>
-                          <li>All matches were filtered out (userId mismatch)</li>
+                          <li>No match reached the minimum relevance score</li>
                           <li>D1 database has no FAQs for this user</li>
                         </ul>
                       </div>
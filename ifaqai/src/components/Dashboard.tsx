@@ -5,8 +5,15 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
 import { Avatar, AvatarFallback } from './ui/avatar';
 import { Badge } from './ui/badge';
 import { FAQManager } from './FAQManager';
+import { BotSettingsPanel } from './BotSettingsPanel';
+import { UnansweredQuestionsPanel } from './UnansweredQuestionsPanel';
+import { AnalyticsPanel } from './AnalyticsPanel';
+import { ExportMenu } from './ExportMenu';
+import { WidgetEmbedCard } from './WidgetEmbedCard';
+import { ApiKeysPanel } from './ApiKeysPanel';
 import { Bot, LogOut, ExternalLink, User as UserIcon } from 'lucide-react';
 import { useFAQs } from '../hooks/useFAQs';
+import { useBotSettings } from '../hooks/useBotSettings';
 import type { User } from '../api/types';
 
 interface DashboardProps {
@@ -19,6 +26,7 @@ interface DashboardProps {
 export function Dashboard({ user, onLogout, onNavigateToChatbot, onUpdateUser }: DashboardProps) {
   // Use React Query to manage FAQs - this automatically syncs with the server
   const { faqs } = useFAQs(user.userId);
+  const { settings: botSettings } = useBotSettings(user.userId);
   
   // Update user object with current FAQs count for display
   const faqCount = faqs.length;
@@ -40,10 +48,13 @@ export function Dashboard({ user, onLogout, onNavigateToChatbot, onUpdateUser }:
                 <p className="text-sm text-gray-600">Manage your chatbot</p>
               </div>
             </div>
-            <Button variant="outline" onClick={onLogout}>
-              <LogOut className="w-4 h-4 mr-2" />
-              Logout
-            </Button>
+            <div className="flex items-center gap-2">
+              <ExportMenu />
+              <Button variant="outline" onClick={onLogout}>
+                <LogOut className="w-4 h-4 mr-2" />
+                Logout
+              </Button>
+            </div>
           </div>
         </div>
       </header>
@@ -95,6 +106,10 @@ export function Dashboard({ user, onLogout, onNavigateToChatbot, onUpdateUser }:
         <Tabs defaultValue="faqs" className="w-full">
           <TabsList>
             <TabsTrigger value="faqs">Manage FAQs</TabsTrigger>
+            <TabsTrigger value="unanswered">Unanswered Questions</TabsTrigger>
+            <TabsTrigger value="analytics">Analytics</TabsTrigger>
+            <TabsTrigger value="bot-settings">Bot Settings</TabsTrigger>
+            <TabsTrigger value="api-keys">API Keys</TabsTrigger>
             <TabsTrigger value="profile">Profile</TabsTrigger>
           </TabsList>
 
@@ -102,6 +117,23 @@ export function Dashboard({ user, onLogout, onNavigateToChatbot, onUpdateUser }:
             <FAQManager userId={user.userId} />
           </TabsContent>
 
+          <TabsContent value="unanswered" className="mt-6">
+            <UnansweredQuestionsPanel userId={user.userId} />
+          </TabsContent>
+
+          <TabsContent value="analytics" className="mt-6">
+            <AnalyticsPanel userId={user.userId} />
+          </TabsContent>
+
+          <TabsContent value="bot-settings" className="mt-6 space-y-6">
+            <BotSettingsPanel userId={user.userId} />
+            <WidgetEmbedCard username={user.username} allowedOrigins={botSettings?.allowedOrigins} />
+          </TabsContent>
+
+          <TabsContent value="api-keys" className="mt-6">
+            <ApiKeysPanel userId={user.userId} />
+          </TabsContent>
+
           <TabsContent value="profile" className="mt-6">
             <Card>
               <CardHeader>
@@ -0,0 +1,70 @@
+import { useState } from 'react';
+import { Button } from './ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from './ui/dropdown-menu';
+import { Download, Loader2 } from 'lucide-react';
+import { fetchExport, type ExportKind } from '../api/client/exportService';
+import { toast } from 'sonner';
+
+/**
+ * Save a file through a temporary download link
+ */
+function saveFile(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Dashboard menu for downloading the knowledge base
+ */
+export function ExportMenu() {
+  const [exporting, setExporting] = useState<ExportKind | null>(null);
+
+  const handleExport = async (kind: ExportKind) => {
+    setExporting(kind);
+    try {
+      const { blob, fileName } = await fetchExport(kind);
+      saveFile(blob, fileName);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to export');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" disabled={!!exporting}>
+          {exporting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onSelect={() => handleExport('json')}>
+          Full archive (JSON)
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel className="text-xs text-gray-500">CSV</DropdownMenuLabel>
+        <DropdownMenuItem onSelect={() => handleExport('faqs-csv')}>
+          FAQs
+        </DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => handleExport('conversations-csv')}>
+          Conversations
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
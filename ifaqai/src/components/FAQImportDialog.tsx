@@ -0,0 +1,254 @@
+import { useState } from 'react';
+import { Button } from './ui/button';
+import { Textarea } from './ui/textarea';
+import { Label } from './ui/label';
+import { Badge } from './ui/badge';
+import { Checkbox } from './ui/checkbox';
+import { Progress } from './ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
+import { Loader2, Upload } from 'lucide-react';
+import { useFAQImport } from '../hooks/useFAQImport';
+import type { FaqImportFormat } from '../api/types';
+
+interface FAQImportDialogProps {
+  userId?: string | number;
+  disabled?: boolean;
+}
+
+const FORMAT_OPTIONS: Array<{ value: FaqImportFormat; label: string; placeholder: string }> = [
+  { value: 'csv', label: 'CSV', placeholder: 'question,answer\n"What are your hours?","9am to 5pm, Monday to Friday"' },
+  { value: 'json', label: 'JSON', placeholder: '[\n  { "question": "What are your hours?", "answer": "9am to 5pm" }\n]' },
+  { value: 'markdown', label: 'Markdown', placeholder: '## What are your hours?\n9am to 5pm, Monday to Friday\n\n## Where are you?\n...' },
+];
+
+// Rows shown in the preview; the full file is still imported
+const PREVIEW_ROWS = 50;
+
+function detectFormat(fileName: string): FaqImportFormat | null {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'csv') return 'csv';
+  if (extension === 'json') return 'json';
+  if (extension === 'md' || extension === 'markdown') return 'markdown';
+  return null;
+}
+
+export function FAQImportDialog({ userId, disabled }: FAQImportDialogProps) {
+  const {
+    preview,
+    previewImport,
+    isPreviewing,
+    clearPreview,
+    startImport,
+    isStarting,
+    status,
+    isImporting,
+    reset,
+  } = useFAQImport(userId);
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [format, setFormat] = useState<FaqImportFormat>('csv');
+  const [content, setContent] = useState('');
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+
+  const duplicates = preview?.items.filter((item) => item.duplicateOf).length ?? 0;
+  const importCount = preview ? preview.items.length - (skipDuplicates ? duplicates : 0) : 0;
+  const isFinished = status?.status === 'completed' || status?.status === 'failed';
+
+  const handleOpenChange = (open: boolean) => {
+    // A finished import starts over; a running one keeps its progress
+    if (open && isFinished) {
+      reset();
+      setContent('');
+    }
+    setIsOpen(open);
+  };
+
+  const updateContent = (value: string) => {
+    setContent(value);
+    clearPreview();
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const detected = detectFormat(file.name);
+    if (detected) {
+      setFormat(detected);
+    }
+    updateContent(await file.text());
+    e.target.value = '';
+  };
+
+  const handlePreview = () => {
+    if (!content.trim()) return;
+    previewImport({ format, content });
+  };
+
+  const handleImport = () => {
+    if (!preview || preview.errors.length > 0 || importCount === 0) return;
+    startImport({ format, content, skipDuplicates });
+  };
+
+  const showForm = !isStarting && !isImporting && !isFinished;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" disabled={disabled}>
+          <Upload className="w-4 h-4 mr-2" />
+          Import
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[90vh] flex flex-col sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import FAQs</DialogTitle>
+          <DialogDescription>
+            Upload or paste a CSV (question,answer), a JSON array or export, or Markdown with ## question headings
+          </DialogDescription>
+        </DialogHeader>
+
+        {showForm ? (
+          <div className="space-y-4 flex-1 overflow-y-auto pr-2">
+            <div className="flex gap-2 items-end">
+              <div className="space-y-2">
+                <Label>Format</Label>
+                <Select
+                  value={format}
+                  onValueChange={(value) => {
+                    setFormat(value as FaqImportFormat);
+                    clearPreview();
+                  }}
+                >
+                  <SelectTrigger className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {FORMAT_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2 flex-1">
+                <Label htmlFor="faq-import-file">File</Label>
+                <input
+                  id="faq-import-file"
+                  type="file"
+                  accept=".csv,.json,.md,.markdown,.txt"
+                  onChange={handleFileChange}
+                  className="block w-full text-sm text-gray-600 file:mr-3 file:rounded-md file:border-0 file:bg-gray-100 file:px-3 file:py-2 file:text-sm"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="faq-import-content">Content</Label>
+              <Textarea
+                id="faq-import-content"
+                placeholder={FORMAT_OPTIONS.find((option) => option.value === format)?.placeholder}
+                value={content}
+                onChange={(e) => updateContent(e.target.value)}
+                rows={8}
+                className="min-h-[160px] max-h-[300px] overflow-y-auto resize-y font-mono text-xs"
+              />
+            </div>
+
+            {preview && (
+              <div className="space-y-3">
+                <div className="flex flex-wrap gap-2 text-sm">
+                  <Badge variant="secondary">{preview.items.length} FAQs</Badge>
+                  {duplicates > 0 && <Badge variant="outline">{duplicates} duplicates</Badge>}
+                  {preview.errors.length > 0 && <Badge variant="destructive">{preview.errors.length} errors</Badge>}
+                </div>
+
+                {preview.errors.length > 0 && (
+                  <ul className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700 space-y-1 max-h-40 overflow-y-auto">
+                    {preview.errors.map((error, index) => (
+                      <li key={index}>
+                        {format === 'json' ? 'Item' : 'Line'} {error.row}: {error.message}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                {preview.items.length > 0 && (
+                  <div className="rounded-md border divide-y max-h-64 overflow-y-auto">
+                    {preview.items.slice(0, PREVIEW_ROWS).map((item) => (
+                      <div key={item.row} className="p-2 text-sm">
+                        <div className="flex items-start justify-between gap-2">
+                          <p className="font-medium">{item.question}</p>
+                          {item.duplicateOf && (
+                            <Badge variant="outline" className="shrink-0">
+                              {item.duplicateOf === 'existing' ? 'Already an FAQ' : 'Duplicate in file'}
+                            </Badge>
+                          )}
+                        </div>
+                        <p className="text-gray-600 line-clamp-2">{item.answer}</p>
+                      </div>
+                    ))}
+                    {preview.items.length > PREVIEW_ROWS && (
+                      <p className="p-2 text-xs text-gray-500">
+                        and {preview.items.length - PREVIEW_ROWS} more
+                      </p>
+                    )}
+                  </div>
+                )}
+
+                {duplicates > 0 && (
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id="faq-import-skip-duplicates"
+                      checked={skipDuplicates}
+                      onCheckedChange={(checked) => setSkipDuplicates(checked === true)}
+                    />
+                    <Label htmlFor="faq-import-skip-duplicates">Skip duplicates</Label>
+                  </div>
+                )}
+              </div>
+            )}
+
+            <div className="flex gap-2 justify-end pt-2">
+              <Button type="button" variant="outline" onClick={handlePreview} disabled={isPreviewing || !content.trim()}>
+                {isPreviewing && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Preview
+              </Button>
+              <Button
+                type="button"
+                onClick={handleImport}
+                disabled={!preview || preview.errors.length > 0 || importCount === 0}
+              >
+                Import {importCount > 0 ? `${importCount} FAQs` : ''}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4 py-4">
+            <Progress value={status && status.total > 0 ? (status.processed / status.total) * 100 : 0} />
+            <p className="text-sm text-gray-600">
+              {!status
+                ? 'Starting import...'
+                : status.status === 'completed'
+                  ? `Imported ${status.total} FAQs.`
+                  : status.status === 'failed'
+                    ? `Import failed after ${status.processed} of ${status.total} FAQs${status.error ? `: ${status.error}` : ''}`
+                    : `Imported ${status.processed} of ${status.total} FAQs...`}
+            </p>
+            {isImporting && (
+              <p className="text-xs text-gray-500">You can close this dialog; the import keeps running.</p>
+            )}
+            {isFinished && (
+              <div className="flex justify-end">
+                <Button type="button" onClick={() => setIsOpen(false)}>
+                  Close
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
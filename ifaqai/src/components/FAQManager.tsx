@@ -5,14 +5,45 @@ import { Textarea } from './ui/textarea';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
 import { Label } from './ui/label';
-import { Plus, Edit2, Trash2, MessageSquare, Loader2 } from 'lucide-react';
+import { Badge } from './ui/badge';
+import { Plus, Edit2, Trash2, MessageSquare, Loader2, ThumbsUp, ThumbsDown } from 'lucide-react';
 import { useFAQs } from '../hooks/useFAQs';
-import type { FAQ } from '../api/types';
+import { useFAQFeedback } from '../hooks/useFAQFeedback';
+import { FAQImportDialog } from './FAQImportDialog';
+import type { FAQ, FaqFeedbackSummary } from '../api/types';
 
 interface FAQManagerProps {
   userId?: string | number;
 }
 
+function FeedbackSummary({ feedback }: { feedback: FaqFeedbackSummary }) {
+  const percentage = Math.round(feedback.helpfulness * 100);
+  const variant = percentage >= 70 ? 'secondary' : percentage >= 40 ? 'outline' : 'destructive';
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-2 text-sm text-gray-600">
+        <Badge variant={variant}>{percentage}% helpful</Badge>
+        <span className="flex items-center gap-1">
+          <ThumbsUp className="w-3.5 h-3.5" />
+          {feedback.helpful}
+        </span>
+        <span className="flex items-center gap-1">
+          <ThumbsDown className="w-3.5 h-3.5" />
+          {feedback.notHelpful}
+        </span>
+      </div>
+      {feedback.recentComments.length > 0 && (
+        <ul className="list-disc pl-5 text-xs text-gray-500 space-y-0.5">
+          {feedback.recentComments.map((comment, index) => (
+            <li key={index}>{comment}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
 export function FAQManager({ userId }: FAQManagerProps) {
   const {
     faqs,
@@ -26,6 +57,7 @@ export function FAQManager({ userId }: FAQManagerProps) {
     deletingId,
     workflowStep,
   } = useFAQs(userId);
+  const { feedbackByFaqId } = useFAQFeedback(userId);
 
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   const [editingFAQ, setEditingFAQ] = useState<FAQ | null>(null);
@@ -145,72 +177,75 @@ export function FAQManager({ userId }: FAQManagerProps) {
                 Add question and answer pairs to train your AI chatbot
               </CardDescription>
             </div>
-            <Dialog open={isAddDialogOpen} onOpenChange={(open) => !isBusy && setIsAddDialogOpen(open)}>
-              <DialogTrigger asChild>
-                <Button disabled={isBusy}>
-                  <Plus className="w-4 h-4 mr-2" />
-                  Add FAQ
-                </Button>
-              </DialogTrigger>
-              <DialogContent className="max-h-[90vh] flex flex-col">
-                <DialogHeader>
-                  <DialogTitle>Add New FAQ</DialogTitle>
-                  <DialogDescription>
-                    Create a question-answer pair to train your chatbot
-                  </DialogDescription>
-                </DialogHeader>
-                <form onSubmit={handleAddFAQ} className="space-y-4 flex-1 overflow-y-auto pr-2">
-                  <div className="space-y-2">
-                    <Label htmlFor="question">Question</Label>
-                    <Input
-                      id="question"
-                      placeholder="What is your question?"
-                      value={question}
-                      onChange={(e) => setQuestion(e.target.value)}
-                      required
-                      disabled={isCreating}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="answer">Answer</Label>
-                    <Textarea
-                      id="answer"
-                      placeholder="Provide the answer..."
-                      value={answer}
-                      onChange={(e) => setAnswer(e.target.value)}
-                      rows={5}
-                      className="min-h-[120px] max-h-[300px] overflow-y-auto resize-y"
-                      required
-                      disabled={isCreating}
-                    />
-                  </div>
-                  <div className="flex gap-2 justify-end pt-2">
-                    <Button
-                      type="button"
-                      variant="outline"
-                      onClick={() => {
-                        setIsAddDialogOpen(false);
-                        setQuestion('');
-                        setAnswer('');
-                      }}
-                      disabled={isCreating}
-                    >
-                      Cancel
-                    </Button>
-                    <Button type="submit" disabled={isCreating}>
-                      {isCreating ? (
-                        <>
-                          <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                          {getStatusMessage()}
-                        </>
-                      ) : (
-                        'Add FAQ'
-                      )}
-                    </Button>
-                  </div>
-                </form>
-              </DialogContent>
-            </Dialog>
+            <div className="flex gap-2">
+              <FAQImportDialog userId={userId} disabled={isBusy} />
+              <Dialog open={isAddDialogOpen} onOpenChange={(open) => !isBusy && setIsAddDialogOpen(open)}>
+                <DialogTrigger asChild>
+                  <Button disabled={isBusy}>
+                    <Plus className="w-4 h-4 mr-2" />
+                    Add FAQ
+                  </Button>
+                </DialogTrigger>
+                <DialogContent className="max-h-[90vh] flex flex-col">
+                  <DialogHeader>
+                    <DialogTitle>Add New FAQ</DialogTitle>
+                    <DialogDescription>
+                      Create a question-answer pair to train your chatbot
+                    </DialogDescription>
+                  </DialogHeader>
+                  <form onSubmit={handleAddFAQ} className="space-y-4 flex-1 overflow-y-auto pr-2">
+                    <div className="space-y-2">
+                      <Label htmlFor="question">Question</Label>
+                      <Input
+                        id="question"
+                        placeholder="What is your question?"
+                        value={question}
+                        onChange={(e) => setQuestion(e.target.value)}
+                        required
+                        disabled={isCreating}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="answer">Answer</Label>
+                      <Textarea
+                        id="answer"
+                        placeholder="Provide the answer..."
+                        value={answer}
+                        onChange={(e) => setAnswer(e.target.value)}
+                        rows={5}
+                        className="min-h-[120px] max-h-[300px] overflow-y-auto resize-y"
+                        required
+                        disabled={isCreating}
+                      />
+                    </div>
+                    <div className="flex gap-2 justify-end pt-2">
+                      <Button
+                        type="button"
+                        variant="outline"
+                        onClick={() => {
+                          setIsAddDialogOpen(false);
+                          setQuestion('');
+                          setAnswer('');
+                        }}
+                        disabled={isCreating}
+                      >
+                        Cancel
+                      </Button>
+                      <Button type="submit" disabled={isCreating}>
+                        {isCreating ? (
+                          <>
+                            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                            {getStatusMessage()}
+                          </>
+                        ) : (
+                          'Add FAQ'
+                        )}
+                      </Button>
+                    </div>
+                  </form>
+                </DialogContent>
+              </Dialog>
+            </div>
           </div>
         </CardHeader>
       </Card>
@@ -244,6 +279,9 @@ export function FAQManager({ userId }: FAQManagerProps) {
                     <label className="text-sm text-gray-600 mb-1 block">Answer:</label>
                     <p className="text-gray-700">{faq.answer}</p>
                   </div>
+                  {feedbackByFaqId.has(faq.id) && (
+                    <FeedbackSummary feedback={feedbackByFaqId.get(faq.id)!} />
+                  )}
                   <div className="flex gap-2 pt-2">
                     <Button
                       variant="outline"
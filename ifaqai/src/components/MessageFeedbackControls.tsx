@@ -0,0 +1,99 @@
+import { useState } from 'react';
+import { ThumbsDown, ThumbsUp } from 'lucide-react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { submitMessageFeedback } from '../api/client/chatbotService';
+import type { FeedbackRating, MessageFeedback } from '../api/types';
+import { toast } from 'sonner';
+
+interface MessageFeedbackControlsProps {
+  conversationId: string;
+  messageId: string;
+  feedback?: MessageFeedback;
+  onFeedbackSaved: (feedback: MessageFeedback) => void;
+}
+
+/**
+ * Thumbs up/down on a bot answer, with an optional comment after rating
+ */
+export function MessageFeedbackControls({ conversationId, messageId, feedback, onFeedbackSaved }: MessageFeedbackControlsProps) {
+  const [isSaving, setIsSaving] = useState(false);
+  const [showComment, setShowComment] = useState(false);
+  const [comment, setComment] = useState('');
+
+  const save = async (rating: FeedbackRating, commentText?: string) => {
+    setIsSaving(true);
+    try {
+      const saved = await submitMessageFeedback(conversationId, messageId, rating, commentText);
+      onFeedbackSaved(saved);
+      return true;
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save feedback');
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRate = async (rating: FeedbackRating) => {
+    if (await save(rating, feedback?.comment)) {
+      setShowComment(!feedback?.comment);
+    }
+  };
+
+  const handleCommentSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!feedback || !comment.trim()) return;
+    if (await save(feedback.rating, comment.trim())) {
+      setShowComment(false);
+      setComment('');
+      toast.success('Thanks for your feedback');
+    }
+  };
+
+  return (
+    <div className="mt-2 space-y-1">
+      <div className="flex items-center gap-1">
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className={`h-6 w-6 p-0 ${feedback?.rating === 'up' ? 'text-green-600' : 'text-gray-400'}`}
+          onClick={() => handleRate('up')}
+          disabled={isSaving}
+          aria-label="Helpful answer"
+          aria-pressed={feedback?.rating === 'up'}
+        >
+          <ThumbsUp className="h-3.5 w-3.5" />
+        </Button>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className={`h-6 w-6 p-0 ${feedback?.rating === 'down' ? 'text-red-600' : 'text-gray-400'}`}
+          onClick={() => handleRate('down')}
+          disabled={isSaving}
+          aria-label="Unhelpful answer"
+          aria-pressed={feedback?.rating === 'down'}
+        >
+          <ThumbsDown className="h-3.5 w-3.5" />
+        </Button>
+      </div>
+      {showComment && feedback && (
+        <form onSubmit={handleCommentSubmit} className="flex gap-1">
+          <Input
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder={feedback.rating === 'down' ? 'What was wrong? (optional)' : 'Any comments? (optional)'}
+            maxLength={500}
+            className="h-7 text-xs bg-white"
+            disabled={isSaving}
+          />
+          <Button type="submit" size="sm" className="h-7 text-xs" disabled={isSaving || !comment.trim()}>
+            Send
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+}
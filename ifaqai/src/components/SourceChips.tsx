@@ -0,0 +1,48 @@
+import { useState } from 'react';
+import { BookOpen } from 'lucide-react';
+import type { ChatbotCitation } from '../api/types';
+
+interface SourceChipsProps {
+  citations: ChatbotCitation[];
+}
+
+/**
+ * Knowledge-base FAQs cited by a bot answer, shown as chips that expand to the full source
+ */
+export function SourceChips({ citations }: SourceChipsProps) {
+  const [expandedMarker, setExpandedMarker] = useState<number | null>(null);
+  const expanded = citations.find((citation) => citation.marker === expandedMarker);
+
+  return (
+    <div className="mt-2 space-y-1">
+      <div className="flex flex-wrap gap-1">
+        {citations.map((citation) => (
+          <button
+            key={citation.marker}
+            type="button"
+            onClick={() => setExpandedMarker(expandedMarker === citation.marker ? null : citation.marker)}
+            className={`inline-flex max-w-[14rem] items-center gap-1 rounded-full border px-2 py-0.5 text-xs ${
+              expandedMarker === citation.marker
+                ? 'border-indigo-300 bg-indigo-100 text-indigo-800'
+                : 'border-gray-200 bg-white text-gray-600 hover:bg-gray-50'
+            }`}
+            aria-expanded={expandedMarker === citation.marker}
+          >
+            <BookOpen className="h-3 w-3 shrink-0" />
+            <span className="font-medium">[{citation.marker}]</span>
+            <span className="truncate">{citation.question}</span>
+          </button>
+        ))}
+      </div>
+      {expanded && (
+        <div className="rounded border border-indigo-100 bg-white p-2 text-xs text-gray-700">
+          <p className="font-medium">{expanded.question}</p>
+          <p className="mt-1 text-gray-500">
+            FAQ #{expanded.faqId}
+            {expanded.score !== null && ` · relevance ${expanded.score.toFixed(2)}`}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+import { useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Textarea } from './ui/textarea';
+import { Label } from './ui/label';
+import { Badge } from './ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { HelpCircle, Loader2, Plus, X } from 'lucide-react';
+import { useUnansweredQuestions } from '../hooks/useUnansweredQuestions';
+import type { UnansweredQuestionCluster } from '../api/types';
+
+interface UnansweredQuestionsPanelProps {
+  userId?: string | number;
+}
+
+interface ClusterCardProps {
+  cluster: UnansweredQuestionCluster;
+  disabled: boolean;
+  onCreate: (question: string, answer: string) => void;
+  onDismiss: () => void;
+}
+
+function ClusterCard({ cluster, disabled, onCreate, onDismiss }: ClusterCardProps) {
+  const [question, setQuestion] = useState(cluster.representativeQuestion);
+  const [answer, setAnswer] = useState('');
+  const otherPhrasings = cluster.sampleQuestions.filter((sample) => sample !== cluster.representativeQuestion);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!question.trim() || !answer.trim()) return;
+    onCreate(question.trim(), answer.trim());
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-start justify-between gap-2">
+          <CardTitle className="text-base">{cluster.representativeQuestion}</CardTitle>
+          <Badge variant="secondary" className="shrink-0">
+            Asked {cluster.questionCount} {cluster.questionCount === 1 ? 'time' : 'times'}
+          </Badge>
+        </div>
+        <CardDescription>Last asked {new Date(cluster.lastAskedAt).toLocaleString()}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {otherPhrasings.length > 0 && (
+          <div className="mb-4">
+            <p className="text-xs font-medium text-gray-500 mb-1">Also asked as</p>
+            <ul className="list-disc pl-5 text-sm text-gray-600 space-y-0.5">
+              {otherPhrasings.map((sample) => (
+                <li key={sample}>{sample}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <div className="space-y-2">
+            <Label htmlFor={`unanswered-question-${cluster.id}`}>Question</Label>
+            <Input
+              id={`unanswered-question-${cluster.id}`}
+              value={question}
+              onChange={(e) => setQuestion(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`unanswered-answer-${cluster.id}`}>Answer</Label>
+            <Textarea
+              id={`unanswered-answer-${cluster.id}`}
+              placeholder="Write the answer your bot should give"
+              value={answer}
+              onChange={(e) => setAnswer(e.target.value)}
+              rows={3}
+            />
+          </div>
+          <div className="flex gap-2">
+            <Button type="submit" size="sm" disabled={disabled || !question.trim() || !answer.trim()}>
+              <Plus className="w-4 h-4 mr-1" />
+              Create FAQ
+            </Button>
+            <Button type="button" size="sm" variant="ghost" onClick={onDismiss} disabled={disabled}>
+              <X className="w-4 h-4 mr-1" />
+              Dismiss
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
+export function UnansweredQuestionsPanel({ userId }: UnansweredQuestionsPanelProps) {
+  const { clusters, isLoading, createFAQ, dismissCluster, isCreating } = useUnansweredQuestions(userId);
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h2 className="text-xl font-semibold">Unanswered Questions</h2>
+        <p className="text-sm text-gray-600">
+          Questions your bot couldn't answer from your FAQs, grouped by similarity. Answer one to add it to your knowledge base.
+        </p>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+        </div>
+      ) : clusters.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-gray-500">
+            <HelpCircle className="w-10 h-10 mx-auto mb-3 text-gray-300" />
+            <p>No unanswered questions. Your FAQs cover everything visitors have asked so far.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        clusters.map((cluster) => (
+          <ClusterCard
+            key={cluster.id}
+            cluster={cluster}
+            disabled={isCreating}
+            onCreate={(question, answer) => createFAQ({ clusterId: cluster.id, question, answer })}
+            onDismiss={() => dismissCluster(cluster.id)}
+          />
+        ))
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+import { Button } from './ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Copy } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface WidgetEmbedCardProps {
+  username: string;
+  allowedOrigins?: string[];
+}
+
+/**
+ * Script tag owners paste into their website to get the floating chat widget
+ */
+export function WidgetEmbedCard({ username, allowedOrigins }: WidgetEmbedCardProps) {
+  const snippet = `<script src="${window.location.origin}/widget.js" data-username="${username}" async></script>`;
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(snippet);
+      toast.success('Embed code copied');
+    } catch {
+      toast.error('Could not copy the embed code');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Website Widget</CardTitle>
+        <CardDescription>Add a chat bubble for your bot to any website</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex items-start gap-2">
+          <code className="bg-gray-50 px-3 py-2 rounded border text-xs flex-1 break-all">{snippet}</code>
+          <Button variant="outline" size="sm" onClick={handleCopy}>
+            <Copy className="w-4 h-4 mr-2" />
+            Copy
+          </Button>
+        </div>
+        <p className="text-xs text-gray-500">
+          Paste it before the closing &lt;/body&gt; tag. Optional attributes: data-title, data-color (e.g. #4f46e5) and
+          data-position="left".
+        </p>
+        {(!allowedOrigins || allowedOrigins.length === 0) && (
+          <p className="text-xs text-amber-600">
+            Add your website's origin to Widget Allowed Origins above, or the widget cannot reach your bot.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
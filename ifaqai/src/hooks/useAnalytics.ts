@@ -0,0 +1,36 @@
+/**
+ * React Query hook for the owner's chatbot analytics
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import { fetchAnalytics } from '../api/client/analyticsService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * UTC date range ending today, as the API expects
+ */
+function getDateRange(days: number): { from: string; to: string } {
+  const now = Date.now();
+  return {
+    from: new Date(now - (days - 1) * DAY_MS).toISOString().slice(0, 10),
+    to: new Date(now).toISOString().slice(0, 10),
+  };
+}
+
+export function useAnalytics(userId: string | number | undefined, days: number) {
+  const { from, to } = getDateRange(days);
+
+  const { data: analytics, isLoading, error } = useQuery({
+    queryKey: ['analytics', userId, from, to],
+    queryFn: () => fetchAnalytics(from, to),
+    enabled: !!userId,
+    staleTime: 60000, // 1 minute
+  });
+
+  return {
+    analytics,
+    isLoading,
+    error,
+  };
+}
@@ -0,0 +1,57 @@
+/**
+ * React Query hook for the authenticated user's API keys
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { createApiKey, fetchApiKeys, revokeApiKey } from '../api/client/apiKeyService';
+import type { ApiKeyScope } from '../api/types';
+import { toast } from 'sonner';
+
+export function useApiKeys(userId: string | number | undefined) {
+  const queryClient = useQueryClient();
+  const queryKey = ['apiKeys', userId];
+
+  const {
+    data: apiKeys = [],
+    isLoading,
+    error,
+  } = useQuery({
+    queryKey,
+    queryFn: fetchApiKeys,
+    enabled: !!userId,
+    staleTime: 30000, // 30 seconds
+  });
+
+  const createMutation = useMutation({
+    mutationFn: ({ name, scopes }: { name: string; scopes: ApiKeyScope[] }) => createApiKey(name, scopes),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: (err) => {
+      toast.error(err instanceof Error ? err.message : 'Failed to create API key');
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (keyId: string) => revokeApiKey(keyId),
+    onSuccess: () => {
+      toast.success('API key revoked');
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: (err) => {
+      toast.error(err instanceof Error ? err.message : 'Failed to revoke API key');
+    },
+  });
+
+  return {
+    apiKeys,
+    isLoading,
+    error,
+    // The created key (with its full value) is only available from this mutation's result
+    createdKey: createMutation.data,
+    createApiKey: createMutation.mutate,
+    dismissCreatedKey: createMutation.reset,
+    revokeApiKey: revokeMutation.mutate,
+    isCreating: createMutation.isPending,
+  };
+}
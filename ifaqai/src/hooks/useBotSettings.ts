@@ -0,0 +1,53 @@
+/**
+ * React Query hook for the authenticated user's bot settings
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { fetchBotSettings, fetchModelCatalog, updateBotSettings } from '../api/client/botSettingsService';
+import type { BotSettings } from '../api/types';
+import { toast } from 'sonner';
+
+export function useBotSettings(userId: string | number | undefined) {
+  const queryClient = useQueryClient();
+
+  const {
+    data: settings,
+    isLoading,
+    error,
+  } = useQuery({
+    queryKey: ['botSettings', userId],
+    queryFn: fetchBotSettings,
+    enabled: !!userId,
+    staleTime: 60000, // 1 minute
+    // Poll while FAQs are being reindexed into a new embedding model
+    refetchInterval: (query) => (query.state.data?.pendingEmbeddingModel ? 10000 : false),
+  });
+
+  const { data: models } = useQuery({
+    queryKey: ['models'],
+    queryFn: fetchModelCatalog,
+    staleTime: Infinity,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: (newSettings: BotSettings) => updateBotSettings(newSettings),
+    onSuccess: (saved) => {
+      queryClient.setQueryData(['botSettings', userId], saved);
+      toast.success(
+        saved.pendingEmbeddingModel ? 'Bot settings saved. Reindexing your FAQs for the new embedding model…' : 'Bot settings saved'
+      );
+    },
+    onError: (err) => {
+      toast.error(err instanceof Error ? err.message : 'Failed to save bot settings');
+    },
+  });
+
+  return {
+    settings,
+    models,
+    isLoading,
+    error,
+    saveSettings: updateMutation.mutate,
+    isSaving: updateMutation.isPending,
+  };
+}
@@ -0,0 +1,25 @@
+/**
+ * React Query hook for visitor feedback per FAQ (owner dashboard)
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import { fetchFAQFeedback } from '../api/client/faqService';
+import type { FaqFeedbackSummary } from '../api/types';
+
+export function useFAQFeedback(userId: string | number | undefined) {
+  const { data: summaries = [], isLoading, error } = useQuery({
+    queryKey: ['faqFeedback', userId],
+    queryFn: fetchFAQFeedback,
+    enabled: !!userId,
+    staleTime: 60000, // 1 minute
+  });
+
+  // Indexed by FAQ id for the FAQ list
+  const feedbackByFaqId = new Map<string, FaqFeedbackSummary>(summaries.map((summary) => [summary.faqId, summary]));
+
+  return {
+    feedbackByFaqId,
+    isLoading,
+    error,
+  };
+}
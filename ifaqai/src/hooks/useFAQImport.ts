@@ -0,0 +1,70 @@
+/**
+ * React Query hook for bulk FAQ imports
+ * Previews a file, starts the import workflow and polls its progress
+ */
+
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { previewFAQImport, startFAQImport, getFAQImportStatus } from '../api/client/faqService';
+import type { FaqImportFormat } from '../api/types';
+import { toast } from 'sonner';
+
+export function useFAQImport(userId: string | number | undefined) {
+  const queryClient = useQueryClient();
+  const [importId, setImportId] = useState<string | null>(null);
+
+  const previewMutation = useMutation({
+    mutationFn: ({ format, content }: { format: FaqImportFormat; content: string }) => previewFAQImport(format, content),
+    onError: (err) => {
+      toast.error(err instanceof Error ? err.message : 'Failed to preview import');
+    },
+  });
+
+  const startMutation = useMutation({
+    mutationFn: ({ format, content, skipDuplicates }: { format: FaqImportFormat; content: string; skipDuplicates: boolean }) =>
+      startFAQImport(format, content, skipDuplicates),
+    onSuccess: (response) => {
+      setImportId(response.importId);
+    },
+    onError: (err) => {
+      toast.error(err instanceof Error ? err.message : 'Failed to start import');
+    },
+  });
+
+  const { data: status } = useQuery({
+    queryKey: ['faqImport', importId],
+    queryFn: () => getFAQImportStatus(importId!),
+    enabled: !!importId,
+    // Poll until the workflow finishes
+    refetchInterval: (query) => (query.state.data?.status === 'running' || !query.state.data ? 2000 : false),
+  });
+
+  useEffect(() => {
+    if (status?.status === 'completed') {
+      toast.success(`Imported ${status.total} FAQs`);
+      queryClient.invalidateQueries({ queryKey: ['faqs', userId] });
+    } else if (status?.status === 'failed') {
+      toast.error(status.error ? `Import failed: ${status.error}` : 'Import failed');
+      // FAQs of the batches that finished were still added
+      queryClient.invalidateQueries({ queryKey: ['faqs', userId] });
+    }
+  }, [status?.status]);
+
+  const reset = () => {
+    previewMutation.reset();
+    startMutation.reset();
+    setImportId(null);
+  };
+
+  return {
+    preview: previewMutation.data,
+    previewImport: previewMutation.mutate,
+    isPreviewing: previewMutation.isPending,
+    clearPreview: previewMutation.reset,
+    startImport: startMutation.mutate,
+    isStarting: startMutation.isPending,
+    status,
+    isImporting: !!importId && status?.status !== 'completed' && status?.status !== 'failed',
+    reset,
+  };
+}
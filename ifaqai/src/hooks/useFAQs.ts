@@ -30,7 +30,7 @@ export type WorkflowStepStatus =
  * Wait for workflow to complete and track step status
  * Returns the current step status via callback
  */
-async function waitForWorkflowCompletion(
+export async function waitForWorkflowCompletion(
   workflowId: string,
   onStepUpdate: (step: WorkflowStepStatus) => void,
   maxAttempts = 30
@@ -186,7 +186,7 @@ export function useFAQs(userId: string | number | undefined) {
       if (!userId) throw new Error('User ID is required');
       
       setWorkflowStep('starting');
-      const response = await createFAQEntry(userId, question, answer);
+      const response = await createFAQEntry(question, answer);
       
       // Wait for workflow to complete (waits 1 second first, then polls)
       if (response.workflowId) {
@@ -240,7 +240,7 @@ export function useFAQs(userId: string | number | undefined) {
   const updateMutation = useMutation({
     mutationFn: async ({ id, question, answer }: { id: string; question: string; answer: string }) => {
       if (!userId) throw new Error('User ID is required');
-      return updateFAQEntry(id, userId, question, answer);
+      return updateFAQEntry(id, question, answer);
     },
     onMutate: async ({ id, question, answer }) => {
       await queryClient.cancelQueries({ queryKey: ['faqs', userId] });
@@ -272,7 +272,7 @@ export function useFAQs(userId: string | number | undefined) {
   const deleteMutation = useMutation({
     mutationFn: async (id: string) => {
       if (!userId) throw new Error('User ID is required');
-      return deleteFAQEntry(id, userId);
+      return deleteFAQEntry(id);
     },
     onMutate: async (id) => {
       await queryClient.cancelQueries({ queryKey: ['faqs', userId] });
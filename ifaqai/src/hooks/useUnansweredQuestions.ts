@@ -0,0 +1,87 @@
+/**
+ * React Query hook for the chatbot questions the knowledge base could not answer
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  fetchUnansweredQuestions,
+  createFAQFromCluster,
+  dismissUnansweredCluster,
+} from '../api/client/unansweredService';
+import type { UnansweredQuestionCluster } from '../api/types';
+import { waitForWorkflowCompletion } from './useFAQs';
+import { toast } from 'sonner';
+
+export function useUnansweredQuestions(userId: string | number | undefined) {
+  const queryClient = useQueryClient();
+  const queryKey = ['unansweredQuestions', userId];
+
+  const {
+    data: clusters = [],
+    isLoading,
+    error,
+  } = useQuery({
+    queryKey,
+    queryFn: fetchUnansweredQuestions,
+    enabled: !!userId,
+    staleTime: 30000, // 30 seconds
+    refetchOnWindowFocus: true,
+  });
+
+  // Removes a cluster from the list right away; restored if the request fails
+  const removeCluster = async (clusterId: string) => {
+    await queryClient.cancelQueries({ queryKey });
+    const previous = queryClient.getQueryData<UnansweredQuestionCluster[]>(queryKey);
+    queryClient.setQueryData<UnansweredQuestionCluster[]>(queryKey, (old = []) =>
+      old.filter((cluster) => cluster.id !== clusterId)
+    );
+    return { previous };
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async ({ clusterId, question, answer }: { clusterId: string; question?: string; answer: string }) => {
+      const response = await createFAQFromCluster(clusterId, answer, question);
+      if (response.workflowId) {
+        await waitForWorkflowCompletion(response.workflowId, () => {});
+      }
+      return response;
+    },
+    onMutate: ({ clusterId }) => removeCluster(clusterId),
+    onError: (err, variables, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(queryKey, context.previous);
+      }
+      toast.error(err instanceof Error ? err.message : 'Failed to create FAQ');
+    },
+    onSuccess: () => {
+      toast.success('FAQ created successfully');
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey });
+      queryClient.invalidateQueries({ queryKey: ['faqs', userId] });
+    },
+  });
+
+  const dismissMutation = useMutation({
+    mutationFn: (clusterId: string) => dismissUnansweredCluster(clusterId),
+    onMutate: (clusterId) => removeCluster(clusterId),
+    onError: (err, clusterId, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(queryKey, context.previous);
+      }
+      toast.error(err instanceof Error ? err.message : 'Failed to dismiss question');
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+  });
+
+  return {
+    clusters,
+    isLoading,
+    error,
+    createFAQ: createMutation.mutate,
+    dismissCluster: dismissMutation.mutate,
+    isCreating: createMutation.isPending,
+  };
+}
@@ -8,6 +8,8 @@
 import { Hono } from 'hono';
 import { Env } from './types/env';
 import { apiRoutes } from './api/server/routes';
+import { handleScheduledReconciliation } from './api/server/reconciler';
+import { pruneRateLimitCounters } from './api/server/rateLimiter';
 
 const app = new Hono<{ Bindings: Env }>();
 
@@ -48,7 +50,18 @@ app.get('*', async (c) => {
 	}
 });
 
-export default app;
+export default {
+	fetch: app.fetch,
+	// Cron trigger (wrangler.jsonc): reconcile D1 and Vectorize, drop expired rate limit counters
+	async scheduled(_controller, env, ctx) {
+		ctx.waitUntil(handleScheduledReconciliation(env));
+		ctx.waitUntil(pruneRateLimitCounters(env.DB));
+	},
+} satisfies ExportedHandler<Env>;
 
 // Export workflows required by Wrangler
 export { FAQWorkflow } from './workflows/faqWorkflow';
+export { ReindexWorkflow } from './workflows/reindexWorkflow';
+export { FaqImportWorkflow } from './workflows/faqImportWorkflow';
+export { IngestionWorkflow } from './workflows/ingestionWorkflow';
+export { ReconcileWorkflow } from './workflows/reconcileWorkflow';
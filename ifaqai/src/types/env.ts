@@ -6,7 +6,23 @@ export interface Env {
 	DB: D1Database;
 	AI: Ai;
 	VECTOR_INDEX: Vectorize;
+	/** Optional 1024-dimension index for the bge-large / bge-m3 embedding models */
+	VECTOR_INDEX_1024?: Vectorize;
 	FAQ_WORKFLOW: import("cloudflare:workflows").Workflow<import("../workflows/faqWorkflow").FAQWorkflowPayload>;
+	REINDEX_WORKFLOW: Workflow<import("../workflows/reindexWorkflow").ReindexWorkflowPayload>;
+	FAQ_IMPORT_WORKFLOW: Workflow<import("../workflows/faqImportWorkflow").FaqImportWorkflowPayload>;
+	INGESTION_WORKFLOW: Workflow<import("../workflows/ingestionWorkflow").IngestionWorkflowPayload>;
+	RECONCILE_WORKFLOW: Workflow<import("../workflows/reconcileWorkflow").ReconcileWorkflowPayload>;
+	/** Cloudflare Access team domain, e.g. https://myteam.cloudflareaccess.com */
+	CF_ACCESS_TEAM_DOMAIN?: string;
+	/** Application Audience (AUD) tag of the Access application protecting the worker */
+	CF_ACCESS_AUD?: string;
+	/** Optional local JWKS document (JSON) used instead of the team's certs endpoint in tests and local development */
+	CF_ACCESS_JWKS?: string;
+	/** Comma-separated emails that are granted the admin role on first admin request */
+	ADMIN_EMAILS?: string;
+	/** Default questions per bot per UTC day (admins can override it per owner); 1000 when unset */
+	CHAT_DAILY_QUOTA?: string;
 	ASSETS: {
 		fetch: typeof fetch;
 	};
@@ -0,0 +1,158 @@
+/**
+ * Widget styles, injected into its shadow root so the host page's CSS cannot
+ * reach the widget and the widget's CSS cannot leak into the page
+ */
+export const WIDGET_STYLES = `
+:host {
+  all: initial;
+  --ifaqai-accent: #4f46e5;
+  font-family: system-ui, -apple-system, 'Segoe UI', Roboto, sans-serif;
+  font-size: 14px;
+  line-height: 1.45;
+  color: #111827;
+}
+
+.launcher {
+  position: fixed;
+  bottom: 20px;
+  width: 56px;
+  height: 56px;
+  border: none;
+  border-radius: 50%;
+  background: var(--ifaqai-accent);
+  color: #fff;
+  cursor: pointer;
+  box-shadow: 0 6px 20px rgba(0, 0, 0, 0.2);
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  z-index: 2147483000;
+}
+
+.launcher svg {
+  width: 26px;
+  height: 26px;
+}
+
+.panel {
+  position: fixed;
+  bottom: 88px;
+  width: min(370px, calc(100vw - 32px));
+  height: min(540px, calc(100vh - 120px));
+  background: #fff;
+  border-radius: 14px;
+  box-shadow: 0 12px 40px rgba(0, 0, 0, 0.22);
+  display: flex;
+  flex-direction: column;
+  overflow: hidden;
+  z-index: 2147483000;
+}
+
+.panel[hidden] {
+  display: none;
+}
+
+.right {
+  right: 20px;
+}
+
+.left {
+  left: 20px;
+}
+
+.header {
+  background: var(--ifaqai-accent);
+  color: #fff;
+  padding: 12px 14px;
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  font-weight: 600;
+}
+
+.close {
+  background: none;
+  border: none;
+  color: inherit;
+  font-size: 20px;
+  line-height: 1;
+  cursor: pointer;
+}
+
+.messages {
+  flex: 1;
+  overflow-y: auto;
+  padding: 12px;
+  display: flex;
+  flex-direction: column;
+  gap: 8px;
+  background: #f9fafb;
+}
+
+.message {
+  max-width: 85%;
+  padding: 8px 11px;
+  border-radius: 12px;
+  white-space: pre-wrap;
+  word-wrap: break-word;
+}
+
+.message.user {
+  align-self: flex-end;
+  background: var(--ifaqai-accent);
+  color: #fff;
+}
+
+.message.bot {
+  align-self: flex-start;
+  background: #fff;
+  border: 1px solid #e5e7eb;
+}
+
+.message.error {
+  align-self: center;
+  background: #fef2f2;
+  color: #b91c1c;
+  font-size: 13px;
+}
+
+.sources {
+  margin-top: 6px;
+  padding-top: 6px;
+  border-top: 1px solid #f3f4f6;
+  font-size: 12px;
+  color: #6b7280;
+}
+
+.form {
+  display: flex;
+  gap: 8px;
+  padding: 10px;
+  border-top: 1px solid #e5e7eb;
+}
+
+.input {
+  flex: 1;
+  padding: 8px 10px;
+  border: 1px solid #d1d5db;
+  border-radius: 8px;
+  font: inherit;
+  color: inherit;
+}
+
+.send {
+  padding: 8px 14px;
+  border: none;
+  border-radius: 8px;
+  background: var(--ifaqai-accent);
+  color: #fff;
+  font: inherit;
+  cursor: pointer;
+}
+
+.send:disabled,
+.input:disabled {
+  opacity: 0.6;
+  cursor: default;
+}
+`;
@@ -0,0 +1,313 @@
+/**
+ * Embeddable chat widget (built to public/widget.js)
+ *
+ * <script src="https://<your-worker>/widget.js" data-username="jane" async></script>
+ *
+ * Optional attributes: data-title (panel title), data-color (accent color),
+ * data-position ("right" or "left"). The widget renders a floating chat bubble
+ * in a shadow root and talks to the conversation API of the worker it was loaded
+ * from; the page's origin must be in the bot's allowed origins (bot settings).
+ */
+
+import { readChatbotEventStream } from '../api/client/chatbotService';
+import type { ChatbotCitation, Conversation, PublicBotSettings } from '../api/types';
+import { WIDGET_STYLES } from './styles';
+
+interface WidgetConfig {
+  apiBase: string;
+  username: string;
+  title: string;
+  color?: string;
+  position: 'left' | 'right';
+}
+
+const CONVERSATION_STORAGE_PREFIX = 'ifaqaiWidgetConversation:';
+
+const CHAT_ICON =
+  '<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M21 15a2 2 0 0 1-2 2H7l-4 4V5a2 2 0 0 1 2-2h14a2 2 0 0 1 2 2z"/></svg>';
+
+function readConfig(script: HTMLScriptElement): WidgetConfig | null {
+  const username = script.dataset.username?.trim();
+  if (!username) {
+    console.error('[ifaqai widget] data-username is required on the widget script tag');
+    return null;
+  }
+
+  return {
+    apiBase: new URL(script.src).origin,
+    username,
+    title: script.dataset.title?.trim() || `Chat with ${username}`,
+    color: script.dataset.color?.trim() || undefined,
+    position: script.dataset.position === 'left' ? 'left' : 'right',
+  };
+}
+
+/**
+ * Storage can be unavailable (e.g. blocked third-party storage), so failures are ignored
+ */
+function getStoredConversationId(username: string): string | null {
+  try {
+    return localStorage.getItem(`${CONVERSATION_STORAGE_PREFIX}${username}`);
+  } catch {
+    return null;
+  }
+}
+
+function storeConversationId(username: string, conversationId: string | null): void {
+  try {
+    if (conversationId) {
+      localStorage.setItem(`${CONVERSATION_STORAGE_PREFIX}${username}`, conversationId);
+    } else {
+      localStorage.removeItem(`${CONVERSATION_STORAGE_PREFIX}${username}`);
+    }
+  } catch {
+    // Conversation is kept for this page view only
+  }
+}
+
+class ChatWidget {
+  private readonly config: WidgetConfig;
+  private readonly panel: HTMLElement;
+  private readonly messages: HTMLElement;
+  private readonly input: HTMLInputElement;
+  private readonly send: HTMLButtonElement;
+  private conversationId: string | null;
+  private loaded = false;
+
+  constructor(config: WidgetConfig) {
+    this.config = config;
+    this.conversationId = getStoredConversationId(config.username);
+
+    const host = document.createElement('div');
+    host.setAttribute('data-ifaqai-widget', config.username);
+    const root = host.attachShadow({ mode: 'open' });
+
+    const style = document.createElement('style');
+    style.textContent = WIDGET_STYLES;
+    root.appendChild(style);
+    if (config.color) {
+      host.style.setProperty('--ifaqai-accent', config.color);
+    }
+
+    const launcher = document.createElement('button');
+    launcher.type = 'button';
+    launcher.className = `launcher ${config.position}`;
+    launcher.setAttribute('aria-label', config.title);
+    launcher.innerHTML = CHAT_ICON;
+    launcher.addEventListener('click', () => this.toggle());
+
+    this.panel = document.createElement('div');
+    this.panel.className = `panel ${config.position}`;
+    this.panel.hidden = true;
+    this.panel.setAttribute('role', 'dialog');
+    this.panel.setAttribute('aria-label', config.title);
+
+    const header = document.createElement('div');
+    header.className = 'header';
+    const title = document.createElement('span');
+    title.textContent = config.title;
+    const close = document.createElement('button');
+    close.type = 'button';
+    close.className = 'close';
+    close.setAttribute('aria-label', 'Close');
+    close.textContent = '×';
+    close.addEventListener('click', () => this.toggle(false));
+    header.append(title, close);
+
+    this.messages = document.createElement('div');
+    this.messages.className = 'messages';
+    this.messages.setAttribute('aria-live', 'polite');
+
+    const form = document.createElement('form');
+    form.className = 'form';
+    this.input = document.createElement('input');
+    this.input.className = 'input';
+    this.input.placeholder = 'Ask a question...';
+    this.input.maxLength = 1000;
+    this.send = document.createElement('button');
+    this.send.type = 'submit';
+    this.send.className = 'send';
+    this.send.textContent = 'Send';
+    form.append(this.input, this.send);
+    form.addEventListener('submit', (event) => {
+      event.preventDefault();
+      void this.ask(this.input.value.trim());
+    });
+
+    this.panel.append(header, this.messages, form);
+    root.append(launcher, this.panel);
+    document.body.appendChild(host);
+  }
+
+  private url(path: string): string {
+    // username lets the worker check this page's origin against the bot's allowed origins
+    return `${this.config.apiBase}/api${path}?username=${encodeURIComponent(this.config.username)}`;
+  }
+
+  private toggle(open = this.panel.hidden): void {
+    this.panel.hidden = !open;
+    if (open) {
+      if (!this.loaded) {
+        this.loaded = true;
+        void this.load();
+      }
+      this.input.focus();
+    }
+  }
+
+  /**
+   * Show the greeting and resume the stored conversation, if any
+   */
+  private async load(): Promise<void> {
+    try {
+      const response = await fetch(this.url(`/users/${encodeURIComponent(this.config.username)}/bot-settings`));
+      const settings = response.ok ? ((await response.json()) as PublicBotSettings) : null;
+      this.addMessage('bot', settings?.greetingMessage || `Hi! Ask me anything about ${this.config.username}.`);
+
+      if (!this.conversationId) return;
+
+      const conversationResponse = await fetch(this.url(`/chatbot/conversations/${encodeURIComponent(this.conversationId)}`));
+      if (conversationResponse.status === 404) {
+        this.setConversationId(null);
+        return;
+      }
+      if (!conversationResponse.ok) return;
+
+      const conversation = (await conversationResponse.json()) as Conversation;
+      for (const message of conversation.messages) {
+        const element = this.addMessage(message.role === 'user' ? 'user' : 'bot', message.content);
+        if (message.citations?.length) {
+          this.showSources(element, message.citations);
+        }
+      }
+    } catch (error) {
+      console.error('[ifaqai widget] Failed to load the chat:', error);
+      this.addMessage('error', 'The chat is unavailable right now.');
+    }
+  }
+
+  private setConversationId(conversationId: string | null): void {
+    this.conversationId = conversationId;
+    storeConversationId(this.config.username, conversationId);
+  }
+
+  private async createConversation(): Promise<string> {
+    const response = await fetch(this.url('/chatbot/conversations'), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ username: this.config.username }),
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to start a conversation (${response.status})`);
+    }
+
+    const conversation = (await response.json()) as Conversation;
+    this.setConversationId(conversation.conversationId);
+    return conversation.conversationId;
+  }
+
+  private async streamAnswer(conversationId: string, text: string): Promise<Response> {
+    return fetch(this.url(`/chatbot/conversations/${encodeURIComponent(conversationId)}/messages/stream`), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'text/event-stream' },
+      body: JSON.stringify({ text }),
+    });
+  }
+
+  private async ask(text: string): Promise<void> {
+    if (!text) return;
+
+    this.input.value = '';
+    this.setBusy(true);
+    this.addMessage('user', text);
+    const answer = this.addMessage('bot', '...');
+
+    try {
+      let response = await this.streamAnswer(this.conversationId ?? (await this.createConversation()), text);
+      // The stored conversation may have been deleted: start a new one
+      if (response.status === 404) {
+        response = await this.streamAnswer(await this.createConversation(), text);
+      }
+      if (response.status === 429) {
+        // Rate limited or out of daily quota: show the worker's explanation
+        const body = (await response.json().catch(() => ({}))) as { details?: string };
+        answer.textContent = body.details ? `${body.details}. Please try again later.` : 'Too many questions, please try again later.';
+        answer.className = 'message error';
+        return;
+      }
+      if (!response.ok || !response.body) {
+        throw new Error(`Chatbot request failed (${response.status})`);
+      }
+
+      let content = '';
+      await readChatbotEventStream(response.body, (event) => {
+        if (event.event === 'token') {
+          content += event.data.token;
+          answer.textContent = content;
+        } else if (event.event === 'done') {
+          answer.textContent = event.data.answer;
+          if (event.data.citations.length > 0) {
+            this.showSources(answer, event.data.citations);
+          }
+        } else if (event.event === 'error') {
+          answer.textContent = event.data.error;
+          answer.className = 'message error';
+        }
+        this.scrollToBottom();
+      });
+    } catch (error) {
+      console.error('[ifaqai widget] Failed to get an answer:', error);
+      answer.textContent = 'Sorry, something went wrong. Please try again.';
+      answer.className = 'message error';
+    } finally {
+      this.setBusy(false);
+      this.input.focus();
+    }
+  }
+
+  private setBusy(busy: boolean): void {
+    this.input.disabled = busy;
+    this.send.disabled = busy;
+  }
+
+  private addMessage(kind: 'user' | 'bot' | 'error', text: string): HTMLElement {
+    const element = document.createElement('div');
+    element.className = `message ${kind}`;
+    element.textContent = text;
+    this.messages.appendChild(element);
+    this.scrollToBottom();
+    return element;
+  }
+
+  private showSources(element: HTMLElement, citations: ChatbotCitation[]): void {
+    const sources = document.createElement('div');
+    sources.className = 'sources';
+    sources.textContent = `Sources: ${citations.map((citation) => `[${citation.marker}] ${citation.question}`).join('; ')}`;
+    element.appendChild(sources);
+  }
+
+  private scrollToBottom(): void {
+    this.messages.scrollTop = this.messages.scrollHeight;
+  }
+}
+
+function init(script: HTMLScriptElement | null): void {
+  const config = script && readConfig(script);
+  if (!config) return;
+
+  // Loading the script twice must not add a second bubble
+  if (document.querySelector(`[data-ifaqai-widget="${CSS.escape(config.username)}"]`)) return;
+
+  const mount = () => new ChatWidget(config);
+  if (document.body) {
+    mount();
+  } else {
+    document.addEventListener('DOMContentLoaded', mount, { once: true });
+  }
+}
+
+// currentScript is only set while the script first runs
+init(
+  (document.currentScript as HTMLScriptElement | null) ??
+    document.querySelector<HTMLScriptElement>('script[data-username][src*="widget.js"]')
+);
@@ -0,0 +1,106 @@
+/**
+ * Workflow for bulk FAQ imports
+ * Inserts the FAQs into D1 and indexes them in Vectorize batch by batch,
+ * recording progress in FaqImports so the dashboard can show it
+ */
+
+import { WorkflowEntrypoint, WorkflowEvent, WorkflowStep } from "cloudflare:workers";
+import type { Env } from "../types/env";
+import { getFaqEmbeddingModels } from "../api/server/vectorIndex";
+import { upsertFaqVectors } from "../api/server/indexingService";
+import { getBotSettings } from "../api/server/botSettingsService";
+import { getEmbeddingModel } from "../api/server/models";
+import { INGESTION_CHUNK_SIZE, INGESTION_STEP_CONFIG } from "./ingestionWorkflow";
+
+export interface FaqImportWorkflowPayload {
+  userId: number | string;
+  faqs: Array<{ question: string; answer: string }>;
+}
+
+export class FaqImportWorkflow extends WorkflowEntrypoint<Env, FaqImportWorkflowPayload> {
+  async run(event: Readonly<WorkflowEvent<FaqImportWorkflowPayload>>, step: WorkflowStep) {
+    const env = this.env;
+    const { userId, faqs } = event.payload;
+    // The import id is the workflow instance id
+    const importId = event.instanceId;
+
+    console.log('FaqImportWorkflow started:', { userId, importId, total: faqs.length });
+
+    try {
+      // Step 1: Resolve the bot's embedding models (two while a reindex is running)
+      const modelIds = await step.do(`resolve embedding models`, async () => {
+        const settings = await getBotSettings(env.DB, userId);
+        return getFaqEmbeddingModels(settings).map((model) => model.id);
+      });
+
+      for (let i = 0; i < faqs.length; i += INGESTION_CHUNK_SIZE) {
+        const batch = faqs.slice(i, i + INGESTION_CHUNK_SIZE);
+        const batchNumber = i / INGESTION_CHUNK_SIZE + 1;
+
+        // Step 2: Insert the batch
+        // Rows are keyed by import and position, so a retry skips rows an earlier attempt inserted
+        const faqIds = await step.do(`insert batch ${batchNumber}`, async () => {
+          const rowKeys = batch.map((_, position) => `${importId}:${i + position}`);
+          await env.DB.batch(
+            batch.map((faq, position) =>
+              env.DB.prepare(
+                "INSERT INTO FAQs (user_id, question, answer, import_row_key) VALUES (?, ?, ?, ?) ON CONFLICT DO NOTHING"
+              ).bind(userId, faq.question, faq.answer, rowKeys[position])
+            )
+          );
+
+          const { results } = await env.DB.prepare(
+            `SELECT faq_id, import_row_key FROM FAQs WHERE import_row_key IN (${rowKeys.map(() => "?").join(", ")})`
+          )
+            .bind(...rowKeys)
+            .all<{ faq_id: number; import_row_key: string }>();
+          const idsByKey = new Map(results.map((row) => [row.import_row_key, row.faq_id]));
+          return rowKeys.map((rowKey) => {
+            const faqId = idsByKey.get(rowKey);
+            if (faqId === undefined) {
+              throw new Error(`Imported FAQ ${rowKey} was not found after insert`);
+            }
+            return faqId;
+          });
+        });
+
+        // Step 3: Embed the batch with every model and record progress
+        await step.do(`index batch ${batchNumber}`, INGESTION_STEP_CONFIG, async () => {
+          await upsertFaqVectors(
+            env,
+            batch.map((faq, position) => ({ faqId: faqIds[position], userId, ...faq })),
+            modelIds.map((modelId) => getEmbeddingModel(modelId))
+          );
+
+          await env.DB.prepare("UPDATE FaqImports SET processed = ?, modified_at = ? WHERE import_id = ?")
+            .bind(i + batch.length, new Date().toISOString(), importId)
+            .run();
+          return batch.length;
+        });
+      }
+
+      // Step 4: Mark the import as completed
+      await step.do(`complete import`, async () => {
+        await env.DB.prepare("UPDATE FaqImports SET status = 'completed', modified_at = ? WHERE import_id = ?")
+          .bind(new Date().toISOString(), importId)
+          .run();
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      await step.do(`mark import failed`, async () => {
+        await env.DB.prepare("UPDATE FaqImports SET status = 'failed', error = ?, modified_at = ? WHERE import_id = ?")
+          .bind(message, new Date().toISOString(), importId)
+          .run();
+      });
+      throw error;
+    }
+
+    console.log('FaqImportWorkflow finished:', { userId, importId, total: faqs.length });
+
+    return {
+      importId,
+      userId,
+      imported: faqs.length,
+    };
+  }
+}
@@ -5,6 +5,10 @@
 
 import { WorkflowEntrypoint, WorkflowEvent, WorkflowStep } from "cloudflare:workers";
 import type { Env } from "../types/env";
+import { getFaqEmbeddingModels } from "../api/server/vectorIndex";
+import { upsertFaqVectors } from "../api/server/indexingService";
+import { getBotSettings } from "../api/server/botSettingsService";
+import { getEmbeddingModel } from "../api/server/models";
 
 export interface FAQWorkflowPayload {
   userId: number | string;
@@ -56,34 +60,20 @@ export class FAQWorkflow extends WorkflowEntrypoint<Env, FAQWorkflowPayload> {
       return fetchedRecord as any;
     });
 
-    // Step 2: Generate embedding from question and answer
-    const embedding = await step.do(`generate embedding`, async () => {
-      // Combine question and answer for better semantic search
-      const text = `${question} ${answer}`;
-      
-      const embeddings = await env.AI.run("@cf/baai/bge-base-en-v1.5", {
-        text: text,
-      });
-      
-      const values = embeddings.data[0];
-      if (!values) throw new Error("Failed to generate vector embedding");
-      return values;
+    // Step 2: Resolve the bot's embedding models (two while a reindex is running)
+    const modelIds = await step.do(`resolve embedding models`, async () => {
+      const settings = await getBotSettings(env.DB, userId);
+      return getFaqEmbeddingModels(settings).map((model) => model.id);
     });
 
-    // Step 3: Insert vector into Vectorize
-    await step.do(`insert vector`, async () => {
-      return env.VECTOR_INDEX.upsert([
-        {
-          id: record.faq_id.toString(),
-          values: embedding,
-          metadata: {
-            userId: userId.toString(),
-            question: question,
-            answer: answer,
-          },
-        },
-      ]);
-    });
+    for (const modelId of modelIds) {
+      const model = getEmbeddingModel(modelId);
+
+      // Step 3: Embed the question and answer and upsert the vector into Vectorize
+      await step.do(`index faq (${model.key})`, async () => {
+        return upsertFaqVectors(env, [{ faqId: record.faq_id, userId, question, answer }], [model]);
+      });
+    }
 
     return {
       faqId: record.faq_id,
@@ -0,0 +1,103 @@
+/**
+ * Workflow for (re)embedding FAQs in batches
+ * Walks the FAQs of one owner (or of every owner) in chunks, embeds each chunk
+ * with one request per embedding model and upserts it to Vectorize in one call.
+ * Every chunk is its own retried step and progress is recorded in IngestionJobs.
+ */
+
+import { WorkflowEntrypoint, WorkflowEvent, WorkflowStep, type WorkflowStepConfig } from "cloudflare:workers";
+import type { Env } from "../types/env";
+import { upsertFaqVectors } from "../api/server/indexingService";
+
+export interface IngestionWorkflowPayload {
+  /** Owner whose FAQs are embedded; all owners when omitted */
+  userId?: number | string;
+}
+
+// FAQs per step (within the embedding models' batch limit)
+export const INGESTION_CHUNK_SIZE = 50;
+
+// Embedding steps retry transient Workers AI / Vectorize failures on their own
+export const INGESTION_STEP_CONFIG: WorkflowStepConfig = {
+  retries: { limit: 5, delay: "10 seconds", backoff: "exponential" },
+  timeout: "5 minutes",
+};
+
+interface IngestionFaq {
+  faq_id: number;
+  user_id: number;
+  question: string;
+  answer: string;
+}
+
+export class IngestionWorkflow extends WorkflowEntrypoint<Env, IngestionWorkflowPayload> {
+  async run(event: Readonly<WorkflowEvent<IngestionWorkflowPayload>>, step: WorkflowStep) {
+    const env = this.env;
+    const { userId } = event.payload;
+    // The job id is the workflow instance id
+    const jobId = event.instanceId;
+    const ownerFilter = userId !== undefined ? "AND user_id = ?" : "";
+
+    console.log('IngestionWorkflow started:', { userId: userId ?? 'all', jobId });
+
+    let processed = 0;
+    try {
+      // Step 1..n: Walk the FAQs by id so each step only loads its own chunk
+      let lastFaqId = 0;
+      for (let chunk = 1; ; chunk++) {
+        const result = await step.do(`embed chunk ${chunk}`, INGESTION_STEP_CONFIG, async () => {
+          const { results } = await env.DB.prepare(
+            `SELECT faq_id, user_id, question, answer FROM FAQs
+            WHERE faq_id > ? ${ownerFilter}
+            ORDER BY faq_id
+            LIMIT ?`
+          )
+            .bind(...[lastFaqId, ...(userId !== undefined ? [userId] : []), INGESTION_CHUNK_SIZE])
+            .all<IngestionFaq>();
+          const faqs = results || [];
+
+          // Each owner's FAQs are embedded with that bot's model(s)
+          await upsertFaqVectors(
+            env,
+            faqs.map((faq) => ({ faqId: faq.faq_id, userId: faq.user_id, question: faq.question, answer: faq.answer }))
+          );
+
+          await env.DB.prepare("UPDATE IngestionJobs SET processed = ?, modified_at = ? WHERE job_id = ?")
+            .bind(processed + faqs.length, new Date().toISOString(), jobId)
+            .run();
+
+          return { count: faqs.length, lastFaqId: faqs.length ? faqs[faqs.length - 1].faq_id : lastFaqId };
+        });
+
+        processed += result.count;
+        lastFaqId = result.lastFaqId;
+        if (result.count < INGESTION_CHUNK_SIZE) {
+          break;
+        }
+      }
+
+      // Final step: Mark the job as completed
+      await step.do(`complete ingestion`, async () => {
+        await env.DB.prepare("UPDATE IngestionJobs SET status = 'completed', modified_at = ? WHERE job_id = ?")
+          .bind(new Date().toISOString(), jobId)
+          .run();
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      await step.do(`mark ingestion failed`, async () => {
+        await env.DB.prepare("UPDATE IngestionJobs SET status = 'failed', error = ?, modified_at = ? WHERE job_id = ?")
+          .bind(message, new Date().toISOString(), jobId)
+          .run();
+      });
+      throw error;
+    }
+
+    console.log('IngestionWorkflow finished:', { userId: userId ?? 'all', jobId, processed });
+
+    return {
+      jobId,
+      userId: userId ?? null,
+      processed,
+    };
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * Workflow for reconciling D1 and Vectorize
+ * Checks the FAQ id range chunk by chunk for missing, orphaned and stale vectors,
+ * repairs them unless it is a dry run, and records a report in ReconciliationRuns
+ */
+
+import { WorkflowEntrypoint, WorkflowEvent, WorkflowStep } from "cloudflare:workers";
+import type { Env } from "../types/env";
+import type { ReconciliationIssue } from "../api/types";
+import {
+  getMaxFaqId,
+  getReconcileIdRange,
+  reconcileFaqRange,
+  RECONCILE_MAX_REPORTED_ISSUES,
+} from "../api/server/reconciler";
+import { INGESTION_STEP_CONFIG } from "./ingestionWorkflow";
+
+export interface ReconcileWorkflowPayload {
+  /** Only report issues, repair nothing */
+  dryRun: boolean;
+}
+
+export class ReconcileWorkflow extends WorkflowEntrypoint<Env, ReconcileWorkflowPayload> {
+  async run(event: Readonly<WorkflowEvent<ReconcileWorkflowPayload>>, step: WorkflowStep) {
+    const env = this.env;
+    const { dryRun } = event.payload;
+    // The run id is the workflow instance id
+    const runId = event.instanceId;
+
+    console.log('ReconcileWorkflow started:', { runId, dryRun });
+
+    const totals = { checked: 0, missing: 0, orphaned: 0, stale: 0, repaired: 0 };
+    const issues: ReconciliationIssue[] = [];
+
+    try {
+      // Step 1: Find the id range to check
+      const maxFaqId = await step.do(`find max faq id`, async () => getMaxFaqId(env.DB));
+
+      // Step 2..n: Check (and repair) each chunk of ids, recording progress
+      // Chunks widen with the id space so the number of steps stays bounded
+      const idRange = getReconcileIdRange(maxFaqId);
+      for (let firstId = 1; firstId <= maxFaqId; firstId += idRange) {
+        const lastId = Math.min(firstId + idRange - 1, maxFaqId);
+
+        const result = await step.do(`reconcile faqs ${firstId}-${lastId}`, INGESTION_STEP_CONFIG, async () => {
+          const chunk = await reconcileFaqRange(env, firstId, lastId, dryRun);
+
+          await env.DB.prepare(
+            `UPDATE ReconciliationRuns
+            SET checked = ?, missing = ?, orphaned = ?, stale = ?, repaired = ?, modified_at = ?
+            WHERE run_id = ?`
+          )
+            .bind(
+              totals.checked + chunk.checked,
+              totals.missing + chunk.missing,
+              totals.orphaned + chunk.orphaned,
+              totals.stale + chunk.stale,
+              totals.repaired + chunk.repaired,
+              new Date().toISOString(),
+              runId
+            )
+            .run();
+
+          // Keep the step output small: only the issues the report can still hold
+          return { ...chunk, issues: chunk.issues.slice(0, RECONCILE_MAX_REPORTED_ISSUES - issues.length) };
+        });
+
+        totals.checked += result.checked;
+        totals.missing += result.missing;
+        totals.orphaned += result.orphaned;
+        totals.stale += result.stale;
+        totals.repaired += result.repaired;
+        issues.push(...result.issues);
+      }
+
+      // Final step: Store the report and mark the run as completed
+      await step.do(`complete reconciliation`, async () => {
+        await env.DB.prepare("UPDATE ReconciliationRuns SET status = 'completed', issues = ?, modified_at = ? WHERE run_id = ?")
+          .bind(JSON.stringify(issues), new Date().toISOString(), runId)
+          .run();
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      await step.do(`mark reconciliation failed`, async () => {
+        await env.DB.prepare("UPDATE ReconciliationRuns SET status = 'failed', issues = ?, error = ?, modified_at = ? WHERE run_id = ?")
+          .bind(JSON.stringify(issues), message, new Date().toISOString(), runId)
+          .run();
+      });
+      throw error;
+    }
+
+    console.log('ReconcileWorkflow finished:', { runId, dryRun, ...totals });
+
+    return {
+      runId,
+      dryRun,
+      ...totals,
+    };
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * Workflow for moving a bot to a new embedding model
+ * Re-embeds every FAQ into the new model's index while chatbot queries keep
+ * using the active model, then switches the bot over and removes the old vectors
+ */
+
+import { WorkflowEntrypoint, WorkflowEvent, WorkflowStep } from "cloudflare:workers";
+import type { Env } from "../types/env";
+import { deleteFaqVectors, reindexUser } from "../api/server/indexingService";
+import { getEmbeddingModel } from "../api/server/models";
+import { INGESTION_CHUNK_SIZE, INGESTION_STEP_CONFIG } from "./ingestionWorkflow";
+
+export interface ReindexWorkflowPayload {
+  userId: number | string;
+  embeddingModel: string;
+}
+
+/**
+ * Whether this run is still the bot's current reindex
+ * (the owner may have picked another model, or cancelled, since it started)
+ */
+async function isCurrentReindex(env: Env, userId: number | string, instanceId: string): Promise<boolean> {
+  const row = await env.DB.prepare("SELECT reindex_workflow_id FROM BotSettings WHERE user_id = ?")
+    .bind(userId)
+    .first<{ reindex_workflow_id: string | null }>();
+  return row?.reindex_workflow_id === instanceId;
+}
+
+export class ReindexWorkflow extends WorkflowEntrypoint<Env, ReindexWorkflowPayload> {
+  async run(event: Readonly<WorkflowEvent<ReindexWorkflowPayload>>, step: WorkflowStep) {
+    const env = this.env;
+    const { userId } = event.payload;
+    const instanceId = event.instanceId;
+    const target = getEmbeddingModel(event.payload.embeddingModel);
+
+    console.log('ReindexWorkflow started:', { userId, embeddingModel: target.id, instanceId });
+
+    // Step 1..n: Embed the FAQs into the target model's index, a page per step
+    // FAQs created or edited meanwhile are embedded with both models by the write path
+    let faqCount = 0;
+    let lastFaqId = 0;
+    for (let batch = 1; ; batch++) {
+      const result = await step.do(`embed batch ${batch}`, INGESTION_STEP_CONFIG, async () => {
+        if (!(await isCurrentReindex(env, userId, instanceId))) {
+          return { count: 0, lastFaqId };
+        }
+
+        return reindexUser(env, userId, { models: [target], afterFaqId: lastFaqId, limit: INGESTION_CHUNK_SIZE });
+      });
+
+      faqCount += result.count;
+      lastFaqId = result.lastFaqId;
+      if (result.count < INGESTION_CHUNK_SIZE) {
+        break;
+      }
+    }
+
+    // Step n+1: Switch the bot to the new model, unless this reindex was superseded
+    const switched = await step.do(`activate embedding model`, async () => {
+      const settings = await env.DB.prepare(
+        "SELECT embedding_model, pending_embedding_model, reindex_workflow_id FROM BotSettings WHERE user_id = ?"
+      )
+        .bind(userId)
+        .first<{ embedding_model: string | null; pending_embedding_model: string | null; reindex_workflow_id: string | null }>();
+
+      if (!settings || settings.reindex_workflow_id !== instanceId) {
+        return {
+          activated: false,
+          previousModel: getEmbeddingModel(settings?.embedding_model).id,
+          pendingModel: settings?.pending_embedding_model ?? null,
+        };
+      }
+
+      const update = await env.DB.prepare(
+        `UPDATE BotSettings
+        SET embedding_model = ?, pending_embedding_model = NULL, reindex_workflow_id = NULL, modified_at = ?
+        WHERE user_id = ? AND reindex_workflow_id = ?`
+      )
+        .bind(target.id, new Date().toISOString(), userId, instanceId)
+        .run();
+
+      return {
+        activated: (update.meta.changes ?? 0) > 0,
+        previousModel: getEmbeddingModel(settings.embedding_model).id,
+        pendingModel: null,
+      };
+    });
+
+    // Step n+2: Remove the vectors the bot no longer queries
+    // Activated: the previous model's vectors. Superseded: this run's vectors,
+    // unless the bot is using or moving to that model again
+    const obsoleteModelId = switched.activated
+      ? switched.previousModel !== target.id ? switched.previousModel : null
+      : [switched.previousModel, switched.pendingModel].includes(target.id) ? null : target.id;
+
+    if (obsoleteModelId) {
+      const obsolete = getEmbeddingModel(obsoleteModelId);
+      await step.do(`remove ${obsolete.key} vectors`, async () => {
+        const { results } = await env.DB.prepare("SELECT faq_id FROM FAQs WHERE user_id = ?")
+          .bind(userId)
+          .all<{ faq_id: number }>();
+        const faqIds = (results || []).map((faq) => faq.faq_id);
+
+        await deleteFaqVectors(env, faqIds, [obsolete]);
+        return faqIds.length;
+      });
+    }
+
+    console.log('ReindexWorkflow finished:', { userId, embeddingModel: target.id, activated: switched.activated });
+
+    return {
+      userId,
+      embeddingModel: target.id,
+      activated: switched.activated,
+      faqCount,
+    };
+  }
+}
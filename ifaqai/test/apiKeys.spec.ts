@@ -0,0 +1,140 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect, beforeAll } from 'vitest';
+import { hashApiKey, verifyApiKey } from '../src/api/server/apiKeyService';
+import { createTestAccess, createTestApiKey, createTestEnv, createTestUser, fetchWorker, type TestEnv } from './helpers';
+
+function bearer(key: string): Record<string, string> {
+	return { Authorization: `Bearer ${key}` };
+}
+
+function postJson(body: unknown, headers: Record<string, string> = {}): RequestInit {
+	return { method: 'POST', headers: { 'Content-Type': 'application/json', ...headers }, body: JSON.stringify(body) };
+}
+
+describe('API keys', () => {
+	let testEnv: TestEnv;
+	let signToken: (email: string) => Promise<string>;
+
+	beforeAll(async () => {
+		const access = await createTestAccess();
+		testEnv = createTestEnv(access.env);
+		signToken = access.signToken;
+	});
+
+	it('stores only the hash of a created key and finds the key by its hash', async () => {
+		const owner = await createTestUser();
+		const response = await fetchWorker(
+			testEnv,
+			'/api/users/me/api-keys',
+			postJson({ name: 'Backend', scopes: ['chat:query'] }, { 'CF-Access-JWT-Assertion': await signToken(owner.email) })
+		);
+		expect(response.status).toBe(201);
+		const created = await response.json<{ keyId: string; key: string; prefix: string }>();
+		expect(created.key).toMatch(/^ifq_[0-9a-f]{64}$/);
+
+		const row = await env.DB.prepare('SELECT key_hash, key_prefix FROM ApiKeys WHERE key_id = ?')
+			.bind(created.keyId)
+			.first<{ key_hash: string; key_prefix: string }>();
+		expect(row).toEqual({ key_hash: await hashApiKey(created.key), key_prefix: created.key.slice(0, 12) });
+
+		expect(await verifyApiKey(env.DB, created.key)).toEqual({ keyId: created.keyId, userId: owner.userId, scopes: ['chat:query'] });
+		expect(await verifyApiKey(env.DB, `ifq_${'0'.repeat(64)}`)).toBeNull();
+		expect(await verifyApiKey(env.DB, created.key.replace('ifq_', 'sk_'))).toBeNull();
+	});
+
+	it('rejects a revoked key with 401', async () => {
+		const owner = await createTestUser();
+		const { key } = await createTestApiKey(owner.userId, ['chat:query'], { revoked: true });
+
+		const response = await fetchWorker(testEnv, '/api/v1/models', { headers: bearer(key) });
+		expect(response.status).toBe(401);
+		expect(await response.json()).toEqual({ error: 'Not authenticated', reason: 'invalid_api_key' });
+	});
+
+	it('rejects a key once its owner revokes it', async () => {
+		const owner = await createTestUser();
+		const { key, keyId } = await createTestApiKey(owner.userId, ['chat:query']);
+		expect((await fetchWorker(testEnv, '/api/v1/models', { headers: bearer(key) })).status).toBe(200);
+
+		const revoke = await fetchWorker(testEnv, `/api/users/me/api-keys/${keyId}`, {
+			method: 'DELETE',
+			headers: { 'CF-Access-JWT-Assertion': await signToken(owner.email) },
+		});
+		expect(revoke.status).toBe(200);
+		expect((await fetchWorker(testEnv, '/api/v1/models', { headers: bearer(key) })).status).toBe(401);
+	});
+
+	it('rejects a key without the route scope with 403', async () => {
+		const owner = await createTestUser();
+		const faqsKey = await createTestApiKey(owner.userId, ['faqs:write']);
+		const chatKey = await createTestApiKey(owner.userId, ['chat:query']);
+
+		expect((await fetchWorker(testEnv, '/api/v1/models', { headers: bearer(faqsKey.key) })).status).toBe(403);
+		expect((await fetchWorker(testEnv, '/api/chatbot?text=Hi', { headers: bearer(faqsKey.key) })).status).toBe(403);
+		expect((await fetchWorker(testEnv, '/api/faqs', postJson({ question: 'Q?', answer: 'A' }, bearer(chatKey.key)))).status).toBe(403);
+	});
+
+	it("keeps a chat:query key on its owner's bot", async () => {
+		const ownerA = await createTestUser('a');
+		const ownerB = await createTestUser('b');
+		const { key } = await createTestApiKey(ownerA.userId, ['chat:query']);
+
+		// The username is ignored: the question goes to A's bot
+		expect((await fetchWorker(testEnv, `/api/chatbot?username=${ownerB.username}&text=Hi`, { headers: bearer(key) })).status).toBe(200);
+		const events = await env.DB.prepare('SELECT user_id FROM QueryEvents WHERE user_id IN (?, ?)')
+			.bind(ownerA.userId, ownerB.userId)
+			.all<{ user_id: number }>();
+		expect(events.results).toEqual([{ user_id: ownerA.userId }]);
+
+		const created = await fetchWorker(testEnv, '/api/chatbot/conversations', postJson({ username: ownerB.username }, bearer(key)));
+		const { conversationId } = await created.json<{ conversationId: string }>();
+		const conversation = await env.DB.prepare('SELECT user_id FROM Conversations WHERE conversation_id = ?')
+			.bind(conversationId)
+			.first<{ user_id: number }>();
+		expect(conversation?.user_id).toBe(ownerA.userId);
+
+		// B's conversations, MCP server and completions model are out of reach
+		const visitorConversation = await fetchWorker(testEnv, '/api/chatbot/conversations', postJson({ username: ownerB.username }));
+		const { conversationId: bConversationId } = await visitorConversation.json<{ conversationId: string }>();
+		expect((await fetchWorker(testEnv, `/api/chatbot/conversations/${bConversationId}`, { headers: bearer(key) })).status).toBe(404);
+		expect(
+			(await fetchWorker(testEnv, `/api/mcp/${ownerB.username}`, postJson({ jsonrpc: '2.0', id: 1, method: 'tools/list' }, bearer(key)))).status
+		).toBe(404);
+
+		const completion = await fetchWorker(
+			testEnv,
+			'/api/v1/chat/completions',
+			postJson({ model: ownerB.username, messages: [{ role: 'user', content: 'Hi' }] }, bearer(key))
+		);
+		expect(completion.status).toBe(404);
+		expect(await completion.json()).toMatchObject({ error: { code: 'model_not_found' } });
+
+		const ownCompletion = await fetchWorker(
+			testEnv,
+			'/api/v1/chat/completions',
+			postJson({ model: ownerA.username, messages: [{ role: 'user', content: 'Hi' }] }, bearer(key))
+		);
+		expect(ownCompletion.status).toBe(200);
+	});
+
+	it('records when a key was last used, at most once a minute', async () => {
+		const owner = await createTestUser();
+		const { key, keyId } = await createTestApiKey(owner.userId, ['chat:query']);
+		const lastUsedAt = async () =>
+			(await env.DB.prepare('SELECT last_used_at FROM ApiKeys WHERE key_id = ?').bind(keyId).first<string | null>('last_used_at')) ?? null;
+
+		expect(await lastUsedAt()).toBeNull();
+
+		await fetchWorker(testEnv, '/api/v1/models', { headers: bearer(key) });
+		const firstUse = await lastUsedAt();
+		expect(firstUse).not.toBeNull();
+
+		await fetchWorker(testEnv, '/api/v1/models', { headers: bearer(key) });
+		expect(await lastUsedAt()).toBe(firstUse);
+
+		// An older last use is replaced
+		await env.DB.prepare('UPDATE ApiKeys SET last_used_at = ? WHERE key_id = ?').bind('2020-01-01T00:00:00.000Z', keyId).run();
+		await fetchWorker(testEnv, '/api/v1/models', { headers: bearer(key) });
+		expect(await lastUsedAt()).not.toBe('2020-01-01T00:00:00.000Z');
+	});
+});
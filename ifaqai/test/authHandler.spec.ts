@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { sign } from 'hono/jwt';
+import type { HonoJsonWebKey } from 'hono/utils/jwt/jws';
+import { extractZeroTrustAuth } from '../src/api/server/authHandler';
+import type { Env } from '../src/types/env';
+
+const AUD = 'test-aud';
+const TEAM_DOMAIN = 'myteam';
+const ISSUER = 'https://myteam.cloudflareaccess.com';
+const KID = 'test-key';
+
+async function generateSigningKey(kid: string): Promise<{ privateJwk: HonoJsonWebKey; publicJwk: HonoJsonWebKey }> {
+	const pair = (await crypto.subtle.generateKey(
+		{ name: 'RSASSA-PKCS1-v1_5', modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: 'SHA-256' },
+		true,
+		['sign', 'verify']
+	)) as CryptoKeyPair;
+	const privateJwk = (await crypto.subtle.exportKey('jwk', pair.privateKey)) as HonoJsonWebKey;
+	const publicJwk = (await crypto.subtle.exportKey('jwk', pair.publicKey)) as HonoJsonWebKey;
+	return { privateJwk: { ...privateJwk, kid, alg: 'RS256' }, publicJwk: { ...publicJwk, kid, alg: 'RS256' } };
+}
+
+describe('extractZeroTrustAuth', () => {
+	let signingKey: HonoJsonWebKey;
+	let env: Env;
+
+	beforeAll(async () => {
+		const { privateJwk, publicJwk } = await generateSigningKey(KID);
+		signingKey = privateJwk;
+		env = {
+			CF_ACCESS_AUD: AUD,
+			CF_ACCESS_TEAM_DOMAIN: TEAM_DOMAIN,
+			CF_ACCESS_JWKS: JSON.stringify({ keys: [publicJwk] }),
+		} as Env;
+	});
+
+	const now = () => Math.floor(Date.now() / 1000);
+
+	function accessToken(overrides: Record<string, unknown> = {}, key: HonoJsonWebKey = signingKey): Promise<string> {
+		const payload = { aud: [AUD], iss: ISSUER, email: 'jane@example.com', name: 'Jane', iat: now(), exp: now() + 3600, ...overrides };
+		return sign(Object.fromEntries(Object.entries(payload).filter(([, value]) => value !== undefined)), key);
+	}
+
+	function authenticate(token: string) {
+		return extractZeroTrustAuth(new Request('https://example.com/api/auth', { headers: { 'CF-Access-JWT-Assertion': token } }), env);
+	}
+
+	it('accepts a valid token', async () => {
+		expect(await authenticate(await accessToken())).toEqual({ ok: true, payload: { email: 'jane@example.com', name: 'Jane' } });
+	});
+
+	it('reads the token from the CF_Authorization cookie', async () => {
+		const request = new Request('https://example.com/api/auth', { headers: { Cookie: `other=1; CF_Authorization=${await accessToken()}` } });
+		expect((await extractZeroTrustAuth(request, env)).ok).toBe(true);
+	});
+
+	it('rejects a token signed with another key', async () => {
+		const { privateJwk } = await generateSigningKey(KID);
+		expect(await authenticate(await accessToken({}, privateJwk))).toEqual({ ok: false, reason: 'invalid_signature' });
+	});
+
+	it('rejects a token for another audience', async () => {
+		expect(await authenticate(await accessToken({ aud: ['other-aud'] }))).toEqual({ ok: false, reason: 'invalid_audience' });
+	});
+
+	it('rejects a token from another issuer', async () => {
+		expect(await authenticate(await accessToken({ iss: 'https://otherteam.cloudflareaccess.com' }))).toEqual({
+			ok: false,
+			reason: 'invalid_issuer',
+		});
+	});
+
+	it('rejects an expired token', async () => {
+		expect(await authenticate(await accessToken({ iat: now() - 7200, exp: now() - 3600 }))).toEqual({ ok: false, reason: 'expired' });
+	});
+
+	it('rejects a token without exp', async () => {
+		expect(await authenticate(await accessToken({ exp: undefined }))).toEqual({ ok: false, reason: 'missing_expiry' });
+	});
+
+	it('rejects a token signed with an unknown kid', async () => {
+		const { privateJwk } = await generateSigningKey('rotated-key');
+		expect(await authenticate(await accessToken({}, privateJwk))).toEqual({ ok: false, reason: 'unknown_key' });
+	});
+
+	it('rejects malformed and missing tokens', async () => {
+		expect(await authenticate('not-a-jwt')).toEqual({ ok: false, reason: 'malformed_token' });
+		expect(await extractZeroTrustAuth(new Request('https://example.com/api/auth'), env)).toEqual({ ok: false, reason: 'missing_token' });
+	});
+
+	it('rejects a token without an email', async () => {
+		expect(await authenticate(await accessToken({ email: undefined }))).toEqual({ ok: false, reason: 'missing_email' });
+	});
+
+	it('reports missing configuration', async () => {
+		const request = new Request('https://example.com/api/auth', { headers: { 'CF-Access-JWT-Assertion': await accessToken() } });
+		expect(await extractZeroTrustAuth(request, { ...env, CF_ACCESS_AUD: '' })).toEqual({ ok: false, reason: 'not_configured' });
+	});
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { readChatbotEventStream } from '../src/api/client/chatbotService';
+import type { ChatbotStreamEvent } from '../src/api/types';
+
+function sseStream(events: string[]): ReadableStream<Uint8Array> {
+	const encoder = new TextEncoder();
+	return new ReadableStream({
+		start(controller) {
+			for (const event of events) {
+				controller.enqueue(encoder.encode(event));
+			}
+			controller.close();
+		},
+	});
+}
+
+describe('readChatbotEventStream', () => {
+	it('passes each event to the handler, across chunk boundaries', async () => {
+		const events: ChatbotStreamEvent[] = [];
+		await readChatbotEventStream(
+			sseStream(['event: token\ndata: {"token":"Hel', 'lo"}\n\nevent: token\ndata: {"token":" there"}\n\n']),
+			(event) => events.push(event)
+		);
+
+		expect(events).toEqual([
+			{ event: 'token', data: { token: 'Hello' } },
+			{ event: 'token', data: { token: ' there' } },
+		]);
+	});
+
+	it('skips events whose data is not JSON', async () => {
+		const events: ChatbotStreamEvent[] = [];
+		await readChatbotEventStream(sseStream(['event: token\ndata: {oops\n\n', 'event: token\ndata: {"token":"ok"}\n\n']), (event) =>
+			events.push(event)
+		);
+
+		expect(events).toEqual([{ event: 'token', data: { token: 'ok' } }]);
+	});
+
+	it('rejects when the handler throws on an error event', async () => {
+		const tokens: string[] = [];
+		const stream = sseStream([
+			'event: token\ndata: {"token":"Partial"}\n\n',
+			'event: token\ndata: {"token":" answer"}\n\n',
+			'event: error\ndata: {"error":"LLM failed"}\n\n',
+		]);
+
+		await expect(
+			readChatbotEventStream(stream, (event) => {
+				if (event.event === 'token') tokens.push(event.data.token);
+				if (event.event === 'error') throw new Error(event.data.error);
+			})
+		).rejects.toThrow('LLM failed');
+		expect(tokens).toEqual(['Partial', ' answer']);
+	});
+});
@@ -1,3 +1,8 @@
 declare module 'cloudflare:test' {
-	interface ProvidedEnv extends Env {}
+	// The worker's bindings (src/types/env.ts; worker-configuration.d.ts is not generated with them)
+	type WorkerEnv = import('../src/types/env').Env;
+
+	interface ProvidedEnv extends WorkerEnv {
+		TEST_MIGRATIONS: D1Migration[];
+	}
 }
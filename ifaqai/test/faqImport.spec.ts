@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { buildImportPreview, parseCsvRecords, parseMarkdown } from '../src/api/server/faqImportService';
+
+describe('parseCsvRecords', () => {
+	it('keeps commas and line breaks inside quoted fields', () => {
+		const { records, error } = parseCsvRecords('"Hours, days?","Mon-Fri\n9 to 5"\nNext,Row\n');
+		expect(error).toBeUndefined();
+		expect(records).toEqual([
+			{ line: 1, fields: ['Hours, days?', 'Mon-Fri\n9 to 5'] },
+			{ line: 3, fields: ['Next', 'Row'] },
+		]);
+	});
+
+	it('unescapes doubled quotes', () => {
+		const { records } = parseCsvRecords('"Is it ""free""?","Yes, ""really"""');
+		expect(records[0].fields).toEqual(['Is it "free"?', 'Yes, "really"']);
+	});
+
+	it('ignores blank lines and carriage returns', () => {
+		const { records } = parseCsvRecords('a,b\r\n\r\n,\r\nc,d\r\n');
+		expect(records).toEqual([
+			{ line: 1, fields: ['a', 'b'] },
+			{ line: 4, fields: ['c', 'd'] },
+		]);
+	});
+
+	it('reports an unterminated quote at the line it opened', () => {
+		const { error } = parseCsvRecords('a,b\nc,"never\nclosed');
+		expect(error).toEqual({ row: 2, message: 'Unterminated quoted field' });
+	});
+});
+
+describe('parseMarkdown', () => {
+	it('reads ## headings as questions and the text below as answers', () => {
+		const { rows, errors } = parseMarkdown('# Title\nIntro\n## First?\nOne\n\nstill one\n## Second? ##\nTwo');
+		expect(errors).toEqual([]);
+		expect(rows).toEqual([
+			{ row: 3, question: 'First?', answer: 'One\n\nstill one' },
+			{ row: 7, question: 'Second?', answer: 'Two' },
+		]);
+	});
+
+	it('keeps ### headings in the answer and ends the answer at a # heading', () => {
+		const { rows } = parseMarkdown('## Question\nAnswer\n### Detail\nMore\n# Next section\nIgnored');
+		expect(rows).toEqual([{ row: 1, question: 'Question', answer: 'Answer\n### Detail\nMore' }]);
+	});
+
+	it('reports files without ## headings', () => {
+		const { rows, errors } = parseMarkdown('# Title\n### Not a question\ntext');
+		expect(rows).toEqual([]);
+		expect(errors).toEqual([{ row: 1, message: 'No "## " question headings found' }]);
+	});
+});
+
+describe('buildImportPreview', () => {
+	it('matches CSV columns by name when there is a header', () => {
+		const preview = buildImportPreview('csv', 'id,Answer,Question\n1,Yes,Open on Sunday?', []);
+		expect(preview.errors).toEqual([]);
+		expect(preview.items).toEqual([{ row: 2, question: 'Open on Sunday?', answer: 'Yes' }]);
+	});
+
+	it('reads question,answer columns without a header', () => {
+		const preview = buildImportPreview('csv', 'Open on Sunday?,Yes\nToo,many,columns', []);
+		expect(preview.items).toEqual([{ row: 1, question: 'Open on Sunday?', answer: 'Yes' }]);
+		expect(preview.errors).toEqual([
+			{ row: 2, message: 'Expected 2 columns (question,answer), found 3. Quote fields that contain commas' },
+		]);
+	});
+
+	it('returns the CSV parse error without items', () => {
+		const preview = buildImportPreview('csv', 'a,"b', []);
+		expect(preview.items).toEqual([]);
+		expect(preview.errors).toEqual([{ row: 1, message: 'Unterminated quoted field' }]);
+	});
+
+	it('flags duplicates of existing FAQs and of earlier rows', () => {
+		const preview = buildImportPreview('csv', 'Do you ship?,Yes\nReturns?,30 days\n  returns ,Within 30 days', ['DO YOU SHIP']);
+		expect(preview.items.map((item) => item.duplicateOf)).toEqual(['existing', undefined, 'file']);
+	});
+
+	it('reports rows without a question or answer', () => {
+		const preview = buildImportPreview('json', JSON.stringify([{ question: 'Q' }, { question: ' ', answer: 'A' }, 'text']), []);
+		expect(preview.items).toEqual([]);
+		expect(preview.errors).toEqual([
+			{ row: 1, message: 'Answer is required' },
+			{ row: 2, message: 'Question is required' },
+			{ row: 3, message: 'Expected an object with question and answer' },
+		]);
+	});
+});
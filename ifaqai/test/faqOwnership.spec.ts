@@ -0,0 +1,75 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect, beforeAll } from 'vitest';
+import { createTestAccess, createTestEnv, createTestUser, fetchWorker, type TestEnv } from './helpers';
+
+async function createFaq(userId: number): Promise<number> {
+	const { meta } = await env.DB.prepare('INSERT INTO FAQs (user_id, question, answer) VALUES (?, ?, ?)')
+		.bind(userId, 'When are you open?', 'Every day from 9 to 5')
+		.run();
+	return meta.last_row_id;
+}
+
+function getFaq(faqId: number) {
+	return env.DB.prepare('SELECT user_id, question, answer FROM FAQs WHERE faq_id = ?')
+		.bind(faqId)
+		.first<{ user_id: number; question: string; answer: string }>();
+}
+
+describe('FAQ ownership', () => {
+	let testEnv: TestEnv;
+	let signToken: (email: string) => Promise<string>;
+
+	beforeAll(async () => {
+		const access = await createTestAccess();
+		testEnv = createTestEnv(access.env);
+		signToken = access.signToken;
+	});
+
+	async function sendAs(email: string, path: string, method: string, body?: unknown): Promise<Response> {
+		return fetchWorker(testEnv, path, {
+			method,
+			headers: { 'Content-Type': 'application/json', 'CF-Access-JWT-Assertion': await signToken(email) },
+			body: body === undefined ? undefined : JSON.stringify(body),
+		});
+	}
+
+	it("rejects an update of another user's FAQ, whatever userId the body names", async () => {
+		const ownerA = await createTestUser('a');
+		const ownerB = await createTestUser('b');
+		const faqId = await createFaq(ownerB.userId);
+
+		const response = await sendAs(ownerA.email, `/api/faqs/${faqId}`, 'PUT', {
+			question: 'Taken over?',
+			answer: 'Yes',
+			userId: ownerB.userId,
+		});
+		expect(response.status).toBe(404);
+		expect(await getFaq(faqId)).toEqual({ user_id: ownerB.userId, question: 'When are you open?', answer: 'Every day from 9 to 5' });
+	});
+
+	it("rejects a delete of another user's FAQ, whatever userId the body names", async () => {
+		const ownerA = await createTestUser('a');
+		const ownerB = await createTestUser('b');
+		const faqId = await createFaq(ownerB.userId);
+
+		const response = await sendAs(ownerA.email, `/api/faqs/${faqId}`, 'DELETE', { userId: ownerB.userId });
+		expect(response.status).toBe(404);
+		expect(await getFaq(faqId)).not.toBeNull();
+	});
+
+	it('creates an FAQ for the signed-in user, ignoring a userId in the body', async () => {
+		const ownerA = await createTestUser('a');
+		const ownerB = await createTestUser('b');
+		const created = testEnv.workflowParams.length;
+
+		const response = await sendAs(ownerA.email, '/api/faqs', 'POST', {
+			question: 'Do you deliver?',
+			answer: 'Within the city',
+			userId: ownerB.userId,
+		});
+		expect(response.status).toBe(201);
+		expect(testEnv.workflowParams.slice(created)).toEqual([
+			{ userId: ownerA.userId, question: 'Do you deliver?', answer: 'Within the city' },
+		]);
+	});
+});
@@ -0,0 +1,122 @@
+import { createExecutionContext, env, waitOnExecutionContext } from 'cloudflare:test';
+import { sign } from 'hono/jwt';
+import type { HonoJsonWebKey } from 'hono/utils/jwt/jws';
+import worker from '../src';
+import { hashApiKey } from '../src/api/server/apiKeyService';
+import { getEmbeddingModel } from '../src/api/server/models';
+import type { ApiKeyScope } from '../src/api/types';
+import type { Env } from '../src/types/env';
+
+const ACCESS_AUD = 'test-aud';
+const ACCESS_TEAM_DOMAIN = 'testteam';
+const ACCESS_ISSUER = 'https://testteam.cloudflareaccess.com';
+
+export type TestEnv = Env & { workflowParams: unknown[] };
+
+/**
+ * The worker's env with the test D1 database and fake AI, Vectorize and
+ * workflow bindings, so tests never reach the Cloudflare account
+ * Workflow create() params are recorded in workflowParams.
+ */
+export function createTestEnv(overrides: Partial<Env> = {}): TestEnv {
+	const workflowParams: unknown[] = [];
+	const workflow = {
+		create: async (options: { id?: string; params?: unknown } = {}) => {
+			workflowParams.push(options.params);
+			return { id: options.id ?? crypto.randomUUID() };
+		},
+	};
+
+	const ai = {
+		run: async (model: string, input: { text?: string[]; stream?: boolean }) => {
+			if (input.text) {
+				const { dimensions } = getEmbeddingModel(model);
+				return { shape: [input.text.length, dimensions], data: input.text.map(() => new Array(dimensions).fill(0.1)) };
+			}
+			if (input.stream) {
+				return new Response('data: {"response":"Test answer"}\n\ndata: [DONE]\n\n').body;
+			}
+			return { response: 'Test answer' };
+		},
+	};
+
+	const vectorIndex = {
+		query: async () => ({ matches: [], count: 0 }),
+		upsert: async () => ({ mutationId: 'upsert' }),
+		deleteByIds: async () => ({ mutationId: 'delete' }),
+	};
+
+	return {
+		...env,
+		AI: ai as unknown as Ai,
+		VECTOR_INDEX: vectorIndex as unknown as Vectorize,
+		FAQ_WORKFLOW: workflow as unknown as Env['FAQ_WORKFLOW'],
+		FAQ_IMPORT_WORKFLOW: workflow as unknown as Env['FAQ_IMPORT_WORKFLOW'],
+		...overrides,
+		workflowParams,
+	};
+}
+
+/**
+ * Send a request to the worker and wait for its background work (waitUntil)
+ */
+export async function fetchWorker(testEnv: Env, path: string, init?: RequestInit): Promise<Response> {
+	const ctx = createExecutionContext();
+	const response = await worker.fetch(new Request(`https://example.com${path}`, init), testEnv, ctx);
+	await waitOnExecutionContext(ctx);
+	return response;
+}
+
+/**
+ * Create a Users row with a unique username
+ */
+export async function createTestUser(prefix = 'owner'): Promise<{ userId: number; username: string; email: string }> {
+	const username = `${prefix}-${crypto.randomUUID().slice(0, 8)}`;
+	const email = `${username}@example.com`;
+	const { meta } = await env.DB.prepare('INSERT INTO Users (email, user_name, first_name, last_name) VALUES (?, ?, ?, ?)')
+		.bind(email, username, 'Test', 'Owner')
+		.run();
+	return { userId: meta.last_row_id, username, email };
+}
+
+/**
+ * Store an API key for a user
+ * @returns The key to send as Bearer token, and its id
+ */
+export async function createTestApiKey(
+	userId: number,
+	scopes: ApiKeyScope[],
+	options: { revoked?: boolean } = {}
+): Promise<{ key: string; keyId: string }> {
+	const key = `ifq_${crypto.randomUUID().replace(/-/g, '')}`;
+	const keyId = crypto.randomUUID();
+	await env.DB.prepare(
+		'INSERT INTO ApiKeys (key_id, user_id, name, key_prefix, key_hash, scopes, revoked_at) VALUES (?, ?, ?, ?, ?, ?, ?)'
+	)
+		.bind(keyId, userId, 'Test key', key.slice(0, 12), await hashApiKey(key), JSON.stringify(scopes), options.revoked ? new Date().toISOString() : null)
+		.run();
+	return { key, keyId };
+}
+
+/**
+ * Cloudflare Access settings backed by a generated RSA key
+ * @returns env overrides to verify tokens, and a signer for an email's Access token
+ */
+export async function createTestAccess(): Promise<{ env: Partial<Env>; signToken: (email: string) => Promise<string> }> {
+	const pair = (await crypto.subtle.generateKey(
+		{ name: 'RSASSA-PKCS1-v1_5', modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: 'SHA-256' },
+		true,
+		['sign', 'verify']
+	)) as CryptoKeyPair;
+	const kid = crypto.randomUUID();
+	const publicJwk = { ...((await crypto.subtle.exportKey('jwk', pair.publicKey)) as HonoJsonWebKey), kid, alg: 'RS256' };
+	const privateJwk = { ...((await crypto.subtle.exportKey('jwk', pair.privateKey)) as HonoJsonWebKey), kid, alg: 'RS256' };
+
+	return {
+		env: { CF_ACCESS_AUD: ACCESS_AUD, CF_ACCESS_TEAM_DOMAIN: ACCESS_TEAM_DOMAIN, CF_ACCESS_JWKS: JSON.stringify({ keys: [publicJwk] }) },
+		signToken: (email) => {
+			const now = Math.floor(Date.now() / 1000);
+			return sign({ aud: [ACCESS_AUD], iss: ACCESS_ISSUER, email, iat: now, exp: now + 3600 }, privateJwk);
+		},
+	};
+}
@@ -0,0 +1,161 @@
+import { describe, it, expect } from 'vitest';
+import { deleteFaqVectors, embedMany, upsertFaqVectors, VECTOR_DELETE_BATCH_SIZE, type IndexingEnv } from '../src/api/server/indexingService';
+import { DEFAULT_EMBEDDING_MODEL, getEmbeddingModel, MAX_EMBEDDING_BATCH_SIZE } from '../src/api/server/models';
+
+const BGE_LARGE = getEmbeddingModel('@cf/baai/bge-large-en-v1.5');
+const BGE_M3 = getEmbeddingModel('@cf/baai/bge-m3');
+
+/**
+ * Workers AI fake: records each embedding request and returns one vector per text
+ */
+function createFakeAi() {
+	const calls: Array<{ model: string; texts: string[] }> = [];
+	const ai = {
+		run: async (model: string, input: { text: string[] }) => {
+			calls.push({ model, texts: input.text });
+			return { shape: [input.text.length, 2], data: input.text.map((_, i) => [calls.length, i]) };
+		},
+	};
+	return { ai: ai as unknown as Ai, calls };
+}
+
+/**
+ * Vectorize fake: records upserted vectors and deleteByIds calls
+ */
+function createFakeVectorize() {
+	const upserts: VectorizeVector[][] = [];
+	const deletes: string[][] = [];
+	const index = {
+		upsert: async (vectors: VectorizeVector[]) => {
+			upserts.push(vectors);
+			return { mutationId: 'upsert' };
+		},
+		deleteByIds: async (ids: string[]) => {
+			deletes.push(ids);
+			return { mutationId: 'delete' };
+		},
+	};
+	return { index: index as unknown as Vectorize, upserts, deletes };
+}
+
+/**
+ * D1 fake answering getBotSettings with each owner's embedding models
+ */
+function createFakeDb(settings: Record<string, { embedding_model: string; pending_embedding_model?: string }>) {
+	return {
+		prepare: () => ({
+			bind: (userId: string | number) => ({
+				first: async () => {
+					const owner = settings[userId.toString()];
+					return owner ? { user_id: Number(userId), pending_embedding_model: null, created_at: '2025-01-01', ...owner } : null;
+				},
+			}),
+		}),
+	} as unknown as D1Database;
+}
+
+function createFaqs(count: number, userId: number | string = 1) {
+	return Array.from({ length: count }, (_, i) => ({ faqId: i + 1, userId, question: `Question ${i + 1}?`, answer: `Answer ${i + 1}` }));
+}
+
+describe('embedMany', () => {
+	it(`splits FAQs into requests of at most ${MAX_EMBEDDING_BATCH_SIZE} texts and keeps their order`, async () => {
+		const { ai, calls } = createFakeAi();
+		const embeddings = await embedMany(ai, createFaqs(MAX_EMBEDDING_BATCH_SIZE * 2 + 5), BGE_LARGE);
+
+		expect(calls.map((call) => call.texts.length)).toEqual([MAX_EMBEDDING_BATCH_SIZE, MAX_EMBEDDING_BATCH_SIZE, 5]);
+		expect(calls.every((call) => call.model === BGE_LARGE.id)).toBe(true);
+		expect(calls[0].texts[0]).toContain('Question 1?');
+		expect(calls[0].texts[0]).toContain('Answer 1');
+		expect(embeddings).toHaveLength(MAX_EMBEDDING_BATCH_SIZE * 2 + 5);
+		expect(embeddings[MAX_EMBEDDING_BATCH_SIZE]).toEqual([2, 0]);
+	});
+});
+
+describe('upsertFaqVectors', () => {
+	it('writes the default model vectors with the FAQ id and the user namespace', async () => {
+		const { ai } = createFakeAi();
+		const vectorIndex = createFakeVectorize();
+		const env = { AI: ai, VECTOR_INDEX: vectorIndex.index } as unknown as IndexingEnv;
+
+		expect(await upsertFaqVectors(env, createFaqs(1, 7), [DEFAULT_EMBEDDING_MODEL])).toBe(1);
+		expect(vectorIndex.upserts).toEqual([
+			[
+				{
+					id: '1',
+					values: [1, 0],
+					namespace: 'user-7',
+					metadata: { userId: '7', question: 'Question 1?', answer: 'Answer 1' },
+				},
+			],
+		]);
+	});
+
+	it('gives models sharing an index their own vector ids and namespaces', async () => {
+		const { ai, calls } = createFakeAi();
+		const largeIndex = createFakeVectorize();
+		const env = { AI: ai, VECTOR_INDEX_1024: largeIndex.index } as unknown as IndexingEnv;
+
+		expect(await upsertFaqVectors(env, createFaqs(2, 7), [BGE_LARGE, BGE_M3])).toBe(4);
+		expect(calls.map((call) => call.model)).toEqual([BGE_LARGE.id, BGE_M3.id]);
+		expect(largeIndex.upserts.map((vectors) => vectors.map(({ id, namespace }) => ({ id, namespace })))).toEqual([
+			[
+				{ id: '1:bge-large', namespace: 'user-7-bge-large' },
+				{ id: '2:bge-large', namespace: 'user-7-bge-large' },
+			],
+			[
+				{ id: '1:bge-m3', namespace: 'user-7-bge-m3' },
+				{ id: '2:bge-m3', namespace: 'user-7-bge-m3' },
+			],
+		]);
+	});
+
+	it("indexes each owner's FAQs with their active and pending models", async () => {
+		const { ai } = createFakeAi();
+		const defaultIndex = createFakeVectorize();
+		const largeIndex = createFakeVectorize();
+		const env = {
+			AI: ai,
+			DB: createFakeDb({ '1': { embedding_model: DEFAULT_EMBEDDING_MODEL.id, pending_embedding_model: BGE_M3.id } }),
+			VECTOR_INDEX: defaultIndex.index,
+			VECTOR_INDEX_1024: largeIndex.index,
+		} as unknown as IndexingEnv;
+
+		expect(await upsertFaqVectors(env, [...createFaqs(1, 1), { faqId: 2, userId: 2, question: 'Other?', answer: 'Other' }])).toBe(3);
+		expect(defaultIndex.upserts.flat().map(({ id, namespace }) => ({ id, namespace }))).toEqual([
+			{ id: '1', namespace: 'user-1' },
+			{ id: '2', namespace: 'user-2' },
+		]);
+		expect(largeIndex.upserts.flat().map(({ id, namespace }) => ({ id, namespace }))).toEqual([{ id: '1:bge-m3', namespace: 'user-1-bge-m3' }]);
+	});
+
+	it('fails when the index binding for a model is missing', async () => {
+		const { ai } = createFakeAi();
+		const env = { AI: ai } as unknown as IndexingEnv;
+
+		await expect(upsertFaqVectors(env, createFaqs(1), [BGE_LARGE])).rejects.toThrow('VECTOR_INDEX_1024');
+	});
+});
+
+describe('deleteFaqVectors', () => {
+	it(`deletes every model's vector ids in batches of ${VECTOR_DELETE_BATCH_SIZE}`, async () => {
+		const defaultIndex = createFakeVectorize();
+		const largeIndex = createFakeVectorize();
+		const faqIds = Array.from({ length: 60 }, (_, i) => i + 1);
+
+		await deleteFaqVectors({ VECTOR_INDEX: defaultIndex.index, VECTOR_INDEX_1024: largeIndex.index } as IndexingEnv, faqIds);
+
+		expect(defaultIndex.deletes).toEqual([faqIds.map(String)]);
+		// bge-large and bge-m3 share an index: 120 ids in two calls
+		expect(largeIndex.deletes.map((ids) => ids.length)).toEqual([VECTOR_DELETE_BATCH_SIZE, 120 - VECTOR_DELETE_BATCH_SIZE]);
+		expect(largeIndex.deletes.flat()).toEqual([...faqIds.map((id) => `${id}:bge-large`), ...faqIds.map((id) => `${id}:bge-m3`)]);
+	});
+
+	it('skips models whose index is not configured', async () => {
+		const defaultIndex = createFakeVectorize();
+
+		await deleteFaqVectors({ VECTOR_INDEX: defaultIndex.index } as IndexingEnv, [3]);
+
+		expect(defaultIndex.deletes).toEqual([['3']]);
+	});
+});
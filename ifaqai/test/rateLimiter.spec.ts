@@ -0,0 +1,100 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { BOT_LIMIT_PER_MINUTE, IP_LIMIT_PER_MINUTE } from '../src/api/server/rateLimiter';
+import { createTestApiKey, createTestEnv, createTestUser, fetchWorker, type TestEnv } from './helpers';
+
+function askBot(testEnv: TestEnv, username: string, ip: string, headers: Record<string, string> = {}): Promise<Response> {
+	return fetchWorker(testEnv, `/api/chatbot?username=${username}&text=${encodeURIComponent('Are you open today?')}`, {
+		headers: { 'CF-Connecting-IP': ip, ...headers },
+	});
+}
+
+function uniqueIp(): string {
+	const bytes = crypto.getRandomValues(new Uint8Array(3));
+	return `10.${bytes[0]}.${bytes[1]}.${bytes[2]}`;
+}
+
+describe('chatbot rate limits', () => {
+	beforeEach(() => {
+		// Middle of a minute, so a test's requests never straddle two windows
+		const minuteStart = Math.floor(Date.now() / 60_000) * 60_000;
+		vi.spyOn(Date, 'now').mockReturnValue(minuteStart + 30_000);
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it(`rejects the request after ${IP_LIMIT_PER_MINUTE} per minute from one IP`, async () => {
+		const testEnv = createTestEnv();
+		const { username } = await createTestUser();
+		const ip = uniqueIp();
+
+		for (let i = 0; i < IP_LIMIT_PER_MINUTE; i++) {
+			expect((await askBot(testEnv, username, ip)).status).toBe(200);
+		}
+
+		const response = await askBot(testEnv, username, ip);
+		expect(response.status).toBe(429);
+		expect(response.headers.get('Retry-After')).toBe('30');
+		expect(await response.json()).toMatchObject({ reason: 'ip_rate_limit', retryAfter: 30 });
+
+		// Other visitors are unaffected
+		expect((await askBot(testEnv, username, uniqueIp())).status).toBe(200);
+	});
+
+	it(`rejects the request after ${BOT_LIMIT_PER_MINUTE} per minute to one bot`, async () => {
+		const testEnv = createTestEnv();
+		const { username } = await createTestUser();
+
+		for (let i = 0; i < BOT_LIMIT_PER_MINUTE; i++) {
+			expect((await askBot(testEnv, username, uniqueIp())).status).toBe(200);
+		}
+
+		const response = await askBot(testEnv, username, uniqueIp());
+		expect(response.status).toBe(429);
+		expect(response.headers.get('Retry-After')).toBe('30');
+		expect(await response.json()).toMatchObject({ reason: 'bot_rate_limit' });
+	});
+
+	it('applies a ChatQuotas override above CHAT_DAILY_QUOTA', async () => {
+		const testEnv = createTestEnv({ CHAT_DAILY_QUOTA: '1' });
+		const { userId, username } = await createTestUser();
+		await env.DB.prepare('INSERT INTO ChatQuotas (user_id, daily_limit, modified_at) VALUES (?, 3, ?)')
+			.bind(userId, new Date().toISOString())
+			.run();
+
+		for (let i = 0; i < 3; i++) {
+			expect((await askBot(testEnv, username, uniqueIp())).status).toBe(200);
+		}
+
+		const response = await askBot(testEnv, username, uniqueIp());
+		expect(response.status).toBe(429);
+		expect(await response.json()).toMatchObject({ reason: 'daily_quota' });
+	});
+
+	it('applies a ChatQuotas override below CHAT_DAILY_QUOTA', async () => {
+		const testEnv = createTestEnv({ CHAT_DAILY_QUOTA: '1000' });
+		const { userId, username } = await createTestUser();
+		await env.DB.prepare('INSERT INTO ChatQuotas (user_id, daily_limit, modified_at) VALUES (?, 1, ?)')
+			.bind(userId, new Date().toISOString())
+			.run();
+
+		expect((await askBot(testEnv, username, uniqueIp())).status).toBe(200);
+
+		const response = await askBot(testEnv, username, uniqueIp());
+		expect(response.status).toBe(429);
+		expect(await response.json()).toMatchObject({ reason: 'daily_quota' });
+	});
+
+	it('does not limit API key requests per IP', async () => {
+		const testEnv = createTestEnv();
+		const { userId, username } = await createTestUser();
+		const { key } = await createTestApiKey(userId, ['chat:query']);
+		const ip = uniqueIp();
+
+		for (let i = 0; i <= IP_LIMIT_PER_MINUTE + 4; i++) {
+			expect((await askBot(testEnv, username, ip, { Authorization: `Bearer ${key}` })).status).toBe(200);
+		}
+	});
+});
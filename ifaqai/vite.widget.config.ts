@@ -0,0 +1,18 @@
+import { defineConfig } from 'vite';
+
+// Builds the embeddable chat widget (src/widget) into a single public/widget.js
+// that third-party sites load with a <script> tag
+export default defineConfig({
+  publicDir: false,
+  build: {
+    target: 'es2019',
+    outDir: 'public',
+    emptyOutDir: false, // public also holds the app build
+    lib: {
+      entry: './src/widget/widget.ts',
+      name: 'IfaqaiWidget',
+      formats: ['iife'],
+      fileName: () => 'widget.js',
+    },
+  },
+});
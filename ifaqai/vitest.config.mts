@@ -1,11 +1,25 @@
-import { defineWorkersConfig } from '@cloudflare/vitest-pool-workers/config';
+import path from 'node:path';
+import { defineWorkersConfig, readD1Migrations } from '@cloudflare/vitest-pool-workers/config';
 
-export default defineWorkersConfig({
-	test: {
-		poolOptions: {
-			workers: {
-				wrangler: { configPath: './wrangler.jsonc' },
+export default defineWorkersConfig(async () => {
+	// Applied to the test D1 database by test/apply-migrations.ts
+	const migrations = await readD1Migrations(path.join(__dirname, 'migrations'));
+
+	return {
+		test: {
+			setupFiles: ['./test/apply-migrations.ts'],
+			poolOptions: {
+				workers: {
+					// Workflows bindings need shared storage across tests; test files then
+					// run one at a time so they apply the D1 migrations once
+					isolatedStorage: false,
+					singleWorker: true,
+					wrangler: { configPath: './wrangler.jsonc' },
+					miniflare: {
+						bindings: { TEST_MIGRATIONS: migrations },
+					},
+				},
 			},
 		},
-	},
+	};
 });